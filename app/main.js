@@ -4,6 +4,7 @@ const { spawn, fork } = require('child_process');
 const path = require('path');
 const fs = require('fs');
 const os = require('os');
+const { migrateConfig, validateConfig, formatIssues } = require('./config-schema.cjs');
 
 // Config paths
 const configDir = path.join(os.homedir(), 'Library', 'Application Support', 'Vibegram');
@@ -45,23 +46,33 @@ function ensureConfigDir() {
   }
 }
 
-// Load config
+// Load config, upgrading older files in place (same schema as the bot)
 function loadConfig() {
   ensureConfigDir();
-  if (fs.existsSync(configPath)) {
-    try {
-      return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-    } catch {
-      return null;
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+  try {
+    const { config, from, changed } = migrateConfig(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+    if (changed) {
+      fs.copyFileSync(configPath, `${configPath}.v${from}.bak`);
+      saveConfig(config);
+      log(`Upgraded config from version ${from} to ${config.version}`);
     }
+    const { errors, warnings } = validateConfig(config);
+    if (errors.length) logError('Invalid config:', formatIssues(errors));
+    if (warnings.length) log('Config warnings:', formatIssues(warnings));
+    return config;
+  } catch (e) {
+    logError('Failed to load config:', e.message);
+    return null;
   }
-  return null;
 }
 
 // Save config
 function saveConfig(config) {
   ensureConfigDir();
-  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2), { mode: 0o600 });
 }
 
 function getTrayIcon(running) {
@@ -209,14 +220,20 @@ ipcMain.handle('get-config', () => {
 });
 
 ipcMain.handle('save-config', (event, config) => {
-  saveConfig(config);
+  // Merge so keys managed by the bot (e.g. users) survive a settings save
+  const merged = { ...(loadConfig() || {}), ...config };
+  const { errors } = validateConfig(merged);
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  saveConfig(merged);
   // Stop if running, then start with new config
   if (isRunning) {
     stopBot();
   }
   // Always start bot after saving valid config
   setTimeout(() => startBot(), 500);
-  return true;
+  return { ok: true };
 });
 
 ipcMain.handle('get-status', () => {
@@ -11,4 +11,14 @@ await esbuild.build({
   // Bundle everything including grammy
 });
 
-console.log('Bundle created: app/bot-bundle.cjs');
+// Config schema for the app's main process, so settings are validated like the bot does
+await esbuild.build({
+  entryPoints: ['src/schema.ts'],
+  bundle: true,
+  platform: 'node',
+  target: 'node18',
+  outfile: 'app/config-schema.cjs',
+  format: 'cjs',
+});
+
+console.log('Bundles created: app/bot-bundle.cjs, app/config-schema.cjs');
@@ -0,0 +1,328 @@
+import { spawn, ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  CodingAgent,
+  AgentOptions,
+  EventCallback,
+  CloseCallback,
+  NormalizedEvent,
+  TokenUsage,
+} from "./types";
+
+// Aider's own history file, restored for "continue"
+const DEFAULT_HISTORY_FILE = ".aider.chat.history.md";
+
+// Startup banner and housekeeping lines printed by aider
+const NOISE_PATTERNS = [
+  /^Aider v\d/,
+  /^(Main|Weak|Editor) model:/,
+  /^Model:/,
+  /^Git repo:/,
+  /^Repo-map:/,
+  /^Added .+ to the chat/,
+  /^Restored previous conversation history/,
+  /^Use \/help/,
+  /^https:\/\/aider\.chat\//,
+  /^[─━-]{5,}$/,
+];
+
+const SEARCH_REPLACE_BLOCK =
+  /^[^\s`]+\n```[^\n]*\n<<<<<<< SEARCH\n[\s\S]*?\n>>>>>>> REPLACE\n```\n?/gm;
+
+function parseTokenCount(value: string, suffix: string): number {
+  const multiplier = suffix === "M" ? 1_000_000 : suffix === "k" ? 1_000 : 1;
+  return Math.round(parseFloat(value) * multiplier);
+}
+
+/**
+ * Turns aider's plain (--no-pretty) stdout into normalized events.
+ * Prose is buffered and emitted as one text event per block.
+ */
+export class AiderOutputParser {
+  private textLines: string[] = [];
+  private shellOutput: string[] | null = null;
+  // Commands aider listed before asking to run them, each echoed as "Running <command>"
+  private pendingCommands: string[] = [];
+  private sessionId?: string;
+  // Summed from "Tokens: ... Cost: ..." lines
+  costUsd: number | undefined;
+  usage: TokenUsage | undefined;
+
+  constructor(sessionId?: string) {
+    this.sessionId = sessionId;
+  }
+
+  push(line: string): NormalizedEvent[] {
+    const events: NormalizedEvent[] = [];
+    const trimmed = line.trim();
+
+    if (NOISE_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+      return events;
+    }
+
+    if (/^Tokens: .+ sent/.test(trimmed)) {
+      this.recordUsage(trimmed);
+      events.push(...this.flush());
+      if (this.costUsd !== undefined) {
+        events.push({ type: "cost", sessionId: this.sessionId, costUsd: this.costUsd });
+      }
+      return events;
+    }
+
+    const applied = trimmed.match(/^Applied edit to (.+)$/);
+    if (applied) {
+      events.push(...this.flush());
+      events.push(this.toolUse("Edit", { file_path: applied[1] }));
+      return events;
+    }
+
+    const created = trimmed.match(/^Creating empty file (.+)$/);
+    if (created) {
+      events.push(...this.flush());
+      events.push(this.toolUse("Write", { file_path: created[1] }));
+      return events;
+    }
+
+    const commit = trimmed.match(/^Commit ([0-9a-f]{7,}) (.+)$/);
+    if (commit) {
+      events.push(...this.flush());
+      events.push(this.toolUse("Bash", { command: `git commit -m "${commit[2]}"` }));
+      return events;
+    }
+
+    // "Run shell command? (Y)es/(N)o ... : y", right after the commands themselves
+    if (/^Run shell commands?\?/.test(trimmed)) {
+      const start = this.textLines.map((l) => l.trim()).lastIndexOf("") + 1;
+      this.pendingCommands = this.textLines.splice(start).map((l) => l.trim());
+      events.push(...this.flush());
+      return events;
+    }
+
+    // Only echoes of the listed commands count, so prose or output starting with "Running" stays as is
+    const running = trimmed.match(/^Running (.+)$/);
+    if (running && this.pendingCommands.includes(running[1])) {
+      this.pendingCommands.splice(this.pendingCommands.indexOf(running[1]), 1);
+      events.push(...this.flush());
+      events.push(this.toolUse("Bash", { command: running[1] }));
+      this.shellOutput = [];
+      return events;
+    }
+
+    if (this.shellOutput) {
+      // Aider asks this once the shell command has finished
+      if (/^Add command output to the chat\?/.test(trimmed)) {
+        events.push(...this.flush());
+        return events;
+      }
+      this.shellOutput.push(line);
+      return events;
+    }
+
+    this.textLines.push(line);
+    return events;
+  }
+
+  /**
+   * Emit whatever is buffered (shell output or prose)
+   */
+  flush(): NormalizedEvent[] {
+    const events: NormalizedEvent[] = [];
+
+    if (this.shellOutput) {
+      const output = this.shellOutput.join("\n").trim();
+      this.shellOutput = null;
+      if (output) {
+        events.push({ type: "tool_output", sessionId: this.sessionId, output });
+      }
+    }
+
+    const text = this.textLines.join("\n").replace(SEARCH_REPLACE_BLOCK, "").trim();
+    this.textLines = [];
+    if (text) {
+      events.push({ type: "text", sessionId: this.sessionId, content: text });
+    }
+
+    return events;
+  }
+
+  // "Tokens: 2.1k sent, 150 received. Cost: $0.01 message, $0.02 session."
+  private recordUsage(line: string): void {
+    const tokens = line.match(/^Tokens: ([\d.]+)([kM]?) sent.*?, ([\d.]+)([kM]?) received/);
+    if (tokens) {
+      this.usage = {
+        inputTokens: (this.usage?.inputTokens ?? 0) + parseTokenCount(tokens[1], tokens[2]),
+        outputTokens: (this.usage?.outputTokens ?? 0) + parseTokenCount(tokens[3], tokens[4]),
+      };
+    }
+    const cost = line.match(/Cost: \$([\d.]+) message/);
+    if (cost) {
+      this.costUsd = (this.costUsd ?? 0) + parseFloat(cost[1]);
+    }
+  }
+
+  private toolUse(tool: string, input: Record<string, unknown>): NormalizedEvent {
+    return { type: "tool_use", sessionId: this.sessionId, tool, input };
+  }
+}
+
+export class AiderAgent implements CodingAgent {
+  private proc: ChildProcess | null = null;
+  private buffer = "";
+  private stderrBuffer = "";
+  private onEvent: EventCallback;
+  private onCloseCallback?: CloseCallback;
+  private options: AgentOptions;
+  private sessionId: string;
+  private historyFile: string;
+  private restoreHistory: boolean;
+
+  constructor(options: AgentOptions, onEvent: EventCallback) {
+    this.options = options;
+    this.onEvent = onEvent;
+
+    // Sessions are chat history files. aider gitignores .aider* on its own.
+    if (options.sessionId === "continue") {
+      this.sessionId = "continue";
+      this.historyFile = path.join(options.cwd, DEFAULT_HISTORY_FILE);
+      this.restoreHistory = true;
+    } else if (options.sessionId) {
+      this.sessionId = options.sessionId;
+      this.historyFile = AiderAgent.historyFileFor(options.cwd, options.sessionId);
+      this.restoreHistory = true;
+    } else {
+      this.sessionId = randomUUID();
+      this.historyFile = AiderAgent.historyFileFor(options.cwd, this.sessionId);
+      this.restoreHistory = false;
+    }
+  }
+
+  static historyFileFor(cwd: string, sessionId: string): string {
+    return path.join(cwd, `.aider.vibegram.${sessionId}.chat.history.md`);
+  }
+
+  setOnClose(callback: CloseCallback): void {
+    this.onCloseCallback = callback;
+  }
+
+  async start(prompt: string, imagePath?: string): Promise<void> {
+    this.onEvent({ type: "init", sessionId: this.sessionId, cwd: this.options.cwd });
+    await this.runCommand(prompt, imagePath);
+  }
+
+  private async runCommand(prompt: string, imagePath?: string): Promise<void> {
+    const args = [
+      "--message",
+      prompt,
+      "--yes-always",
+      "--no-pretty",
+      "--no-stream",
+      "--no-check-update",
+      "--chat-history-file",
+      this.historyFile,
+    ];
+
+    // aider can't ask for approval mid-run: it only runs shell commands when bypassing,
+    // and in "default" mode only proposes edits without writing them
+    if (this.options.permissionMode !== "bypassPermissions") {
+      args.push("--no-suggest-shell-commands");
+    }
+    if (!this.options.permissionMode || this.options.permissionMode === "default") {
+      args.push("--dry-run");
+    }
+
+    if (this.restoreHistory && fs.existsSync(this.historyFile)) {
+      args.push("--restore-chat-history");
+    }
+
+    if (imagePath && fs.existsSync(imagePath)) {
+      args.push("--file", imagePath);
+    }
+
+    this.proc = spawn("aider", args, {
+      cwd: this.options.cwd,
+      stdio: ["pipe", "pipe", "pipe"],
+      env: {
+        ...process.env,
+        VIBEGRAM_SOURCE: "telegram",
+      },
+    });
+
+    this.buffer = "";
+    this.stderrBuffer = "";
+    const parser = new AiderOutputParser(this.sessionId);
+
+    this.proc.stdout?.on("data", (data: Buffer) => {
+      this.buffer += data.toString();
+      const lines = this.buffer.split("\n");
+      this.buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        for (const event of parser.push(line)) {
+          this.onEvent(event);
+        }
+      }
+    });
+
+    this.proc.stderr?.on("data", (data: Buffer) => {
+      const text = data.toString();
+      console.error("[aider stderr]", text);
+      this.stderrBuffer += text;
+    });
+
+    // A failed spawn (e.g. aider not installed) is followed by "close", which reports it as done
+    this.proc.on("error", (error: NodeJS.ErrnoException) => {
+      this.stderrBuffer += error.code === "ENOENT" ? "aider is not installed or not on PATH" : error.message;
+    });
+
+    this.proc.on("close", (code) => {
+      console.log(`Aider process exited with code ${code}`);
+      this.proc = null;
+
+      const remaining = this.buffer ? parser.push(this.buffer) : [];
+      this.buffer = "";
+      for (const event of [...remaining, ...parser.flush()]) {
+        this.onEvent(event);
+      }
+
+      // Follow-up messages continue from the history file
+      this.restoreHistory = true;
+
+      this.onEvent({
+        type: "done",
+        sessionId: this.sessionId,
+        isError: code !== 0,
+        content: code !== 0 ? this.stderrBuffer.trim() || undefined : undefined,
+        costUsd: parser.costUsd,
+        usage: parser.usage,
+      });
+
+      if (this.onCloseCallback) {
+        this.onCloseCallback(code, this.stderrBuffer);
+      }
+    });
+  }
+
+  async sendMessage(text: string, imagePath?: string): Promise<void> {
+    // aider --message handles a single prompt, so follow-ups spawn a new run
+    if (this.proc && this.proc.exitCode === null) {
+      await new Promise<void>((resolve) => {
+        this.proc?.on("close", () => resolve());
+      });
+    }
+
+    await this.runCommand(text, imagePath);
+  }
+
+  async stop(): Promise<void> {
+    if (this.proc) {
+      this.proc.kill();
+      this.proc = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.proc !== null && this.proc.exitCode === null;
+  }
+}
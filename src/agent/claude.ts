@@ -6,9 +6,11 @@ import type {
   EventCallback,
   CloseCallback,
   NormalizedEvent,
+  PermissionDecision,
 } from "./types";
 import type {
   ClaudeEvent,
+  ControlRequestEvent,
   AssistantEvent,
   UserEvent,
   ResultEvent,
@@ -33,6 +35,27 @@ interface MessageTextContent {
 
 type MessageContent = MessageTextContent | ImageContent;
 
+// USD per million input and output tokens, first match wins
+const MODEL_PRICES: [RegExp, number, number][] = [
+  [/opus-4-[5-9]/, 5, 25],
+  [/opus/, 15, 75],
+  [/haiku-3-5|3-5-haiku/, 0.8, 4],
+  [/haiku-3|3-haiku/, 0.25, 1.25],
+  [/haiku/, 1, 5],
+  [/sonnet/, 3, 15],
+];
+
+/**
+ * Cost of one model response from its token counts. Cache writes cost 1.25x
+ * and cache reads 0.1x the input price; unknown models are priced as Sonnet.
+ */
+export function estimateCostUsd(model: string, usage: NonNullable<AssistantEvent["message"]["usage"]>): number {
+  const [, input, output] = MODEL_PRICES.find(([pattern]) => pattern.test(model)) ?? [null, 3, 15];
+  const inputTokens =
+    usage.input_tokens + 1.25 * (usage.cache_creation_input_tokens ?? 0) + 0.1 * (usage.cache_read_input_tokens ?? 0);
+  return (inputTokens * input + usage.output_tokens * output) / 1_000_000;
+}
+
 export class ClaudeAgent implements CodingAgent {
   private proc: ChildProcess | null = null;
   private buffer = "";
@@ -40,6 +63,10 @@ export class ClaudeAgent implements CodingAgent {
   private onEvent: EventCallback;
   private onCloseCallback?: CloseCallback;
   private options: AgentOptions;
+  // total_cost_usd is cumulative for the process; this is what was already reported
+  private reportedCostUsd = 0;
+  // Estimated spend of the running turn, by message id (each content block repeats the usage)
+  private turnCosts = new Map<string, number>();
 
   constructor(options: AgentOptions, onEvent: EventCallback) {
     this.options = options;
@@ -51,6 +78,7 @@ export class ClaudeAgent implements CodingAgent {
   }
 
   async start(prompt: string, imagePath?: string): Promise<void> {
+    this.reportedCostUsd = 0;
     const args = [
       "-p",
       "--input-format",
@@ -64,6 +92,11 @@ export class ClaudeAgent implements CodingAgent {
       args.push("--permission-mode", this.options.permissionMode);
     }
 
+    // Route permission prompts through the control protocol on stdin/stdout
+    if (this.options.onPermissionRequest && this.options.permissionMode !== "bypassPermissions") {
+      args.push("--permission-prompt-tool", "stdio");
+    }
+
     if (this.options.sessionId === "continue") {
       args.push("--continue");
     } else if (this.options.sessionId) {
@@ -114,10 +147,62 @@ export class ClaudeAgent implements CodingAgent {
   }
 
   private handleClaudeEvent(event: ClaudeEvent): void {
+    if (event.type === "control_request") {
+      this.handleControlRequest(event as ControlRequestEvent);
+      return;
+    }
+
     const normalized = this.normalizeEvent(event);
     if (normalized) {
       this.onEvent(normalized);
     }
+
+    if (event.type === "assistant") {
+      const { message, session_id } = event as AssistantEvent;
+      if (message.usage && !this.turnCosts.has(message.id)) {
+        this.turnCosts.set(message.id, estimateCostUsd(message.model, message.usage));
+        const costUsd = [...this.turnCosts.values()].reduce((a, b) => a + b, 0);
+        this.onEvent({ type: "cost", sessionId: session_id, costUsd });
+      }
+    } else if (event.type === "result") {
+      this.turnCosts.clear();
+    }
+  }
+
+  private async handleControlRequest(event: ControlRequestEvent): Promise<void> {
+    const handler = this.options.onPermissionRequest;
+    if (event.request.subtype !== "can_use_tool" || !handler) {
+      this.writeControlResponse({
+        subtype: "error",
+        request_id: event.request_id,
+        error: `Unsupported control request: ${event.request.subtype}`,
+      });
+      return;
+    }
+
+    let decision: PermissionDecision;
+    try {
+      decision = await handler({
+        tool: event.request.tool_name,
+        input: event.request.input || {},
+      });
+    } catch (e) {
+      decision = { behavior: "deny", message: `Permission check failed: ${e}` };
+    }
+
+    this.writeControlResponse({
+      subtype: "success",
+      request_id: event.request_id,
+      response:
+        decision.behavior === "allow"
+          ? { behavior: "allow", updatedInput: event.request.input || {} }
+          : decision,
+    });
+  }
+
+  private writeControlResponse(response: Record<string, unknown>): void {
+    if (!this.proc || !this.proc.stdin) return;
+    this.proc.stdin.write(JSON.stringify({ type: "control_response", response }) + "\n");
   }
 
   private normalizeEvent(event: ClaudeEvent): NormalizedEvent | null {
@@ -181,12 +266,28 @@ export class ClaudeAgent implements CodingAgent {
 
       case "result": {
         const resultEvent = event as ResultEvent;
+        let costUsd: number | undefined;
+        if (typeof resultEvent.total_cost_usd === "number") {
+          costUsd = Math.max(0, resultEvent.total_cost_usd - this.reportedCostUsd);
+          this.reportedCostUsd = Math.max(this.reportedCostUsd, resultEvent.total_cost_usd);
+        }
+        const usage = resultEvent.usage;
         return {
           type: "done",
           sessionId: resultEvent.session_id,
           durationMs: resultEvent.duration_ms,
           isError: resultEvent.is_error,
           content: resultEvent.is_error ? resultEvent.result : undefined,
+          costUsd,
+          numTurns: resultEvent.num_turns,
+          usage: usage
+            ? {
+                inputTokens: usage.input_tokens,
+                outputTokens: usage.output_tokens,
+                cacheReadTokens: usage.cache_read_input_tokens,
+                cacheWriteTokens: usage.cache_creation_input_tokens,
+              }
+            : undefined,
         };
       }
 
@@ -1,3 +1,4 @@
 export * from "./types";
 export { ClaudeAgent } from "./claude";
 export { OpenCodeAgent } from "./opencode";
+export { AiderAgent, AiderOutputParser } from "./aider";
@@ -1,15 +1,36 @@
 // Abstract coding agent interface
 // Allows swapping Claude Code, OpenCode, Aider, etc.
 
+export type AgentType = "claude" | "opencode" | "aider";
+
+export const AGENT_TYPES: AgentType[] = ["claude", "opencode", "aider"];
+
+export type PermissionMode = "default" | "acceptEdits" | "bypassPermissions";
+
 export interface AgentOptions {
   cwd: string;
   sessionId?: string;
-  permissionMode?: "default" | "acceptEdits" | "bypassPermissions";
+  permissionMode?: PermissionMode;
+  // Called when the agent needs approval for a tool call.
+  // Without a handler the agent falls back to its own permission behavior.
+  onPermissionRequest?: PermissionHandler;
+}
+
+// Tool permission prompts
+export interface PermissionRequest {
+  tool: string;
+  input: Record<string, unknown>;
 }
 
+export type PermissionDecision =
+  | { behavior: "allow" }
+  | { behavior: "deny"; message: string };
+
+export type PermissionHandler = (request: PermissionRequest) => Promise<PermissionDecision>;
+
 // Normalized event types that all agents emit
 export interface AgentEvent {
-  type: "init" | "thinking" | "tool_use" | "tool_output" | "text" | "error" | "done";
+  type: "init" | "thinking" | "tool_use" | "tool_output" | "text" | "error" | "cost" | "done";
   sessionId?: string;
   content?: string;
   metadata?: Record<string, unknown>;
@@ -48,10 +69,28 @@ export interface ErrorEvent extends AgentEvent {
   content: string;
 }
 
+// Spend of the current turn so far, for enforcing budgets before it ends.
+// May be an estimate; the done event's costUsd is what gets recorded.
+export interface CostEvent extends AgentEvent {
+  type: "cost";
+  costUsd: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
 export interface DoneEvent extends AgentEvent {
   type: "done";
   durationMs?: number;
   isError?: boolean;
+  // Spend for this turn, when the agent reports it
+  costUsd?: number;
+  usage?: TokenUsage;
+  numTurns?: number;
 }
 
 export type NormalizedEvent =
@@ -61,6 +100,7 @@ export type NormalizedEvent =
   | ToolOutputEvent
   | TextEvent
   | ErrorEvent
+  | CostEvent
   | DoneEvent;
 
 export type EventCallback = (event: NormalizedEvent) => void | Promise<void>;
@@ -0,0 +1,274 @@
+// Append-only JSONL record of what reached the bot and what it ran on this machine
+import * as fs from "fs";
+import * as path from "path";
+import type { AgentType } from "./agent";
+
+export interface AuditConfig {
+  // Rotate the log when it would grow past this (default 5 MB)
+  maxBytes?: number;
+  // Rotated files kept as audit.jsonl.1 (newest) to audit.jsonl.<keep> (default 3)
+  keep?: number;
+}
+
+export interface MessageAuditEntry {
+  type: "message";
+  userId: number;
+  // Session directory the message was handled in
+  cwd: string;
+  kind: "text" | "photo" | "voice" | "audio" | "document" | "action";
+  // Text or caption; file name for documents; button data for actions
+  text?: string;
+}
+
+export interface AgentAuditEntry {
+  type: "agent";
+  userId: number;
+  cwd: string;
+  event: "start" | "stop";
+  agent: AgentType;
+  // Resumed session on start
+  sessionId?: string | null;
+  exitCode?: number | null;
+}
+
+export interface ToolAuditEntry {
+  type: "tool";
+  userId: number;
+  cwd: string;
+  tool: string;
+  input?: Record<string, unknown>;
+}
+
+export interface ShellAuditEntry {
+  type: "shell";
+  userId: number;
+  cwd: string;
+  command: string;
+  // "denied" and "cancelled" commands never ran
+  outcome: "ran" | "denied" | "cancelled" | "timeout" | "killed" | "failed";
+  exitCode?: number | null;
+  durationMs?: number;
+  // Destructive pattern the command matched, if any
+  matched?: string;
+  // Started with !& as a background job
+  background?: boolean;
+}
+
+// Updates from users outside the allowlist
+export interface AuthAuditEntry {
+  type: "auth";
+  userId: number;
+  username?: string;
+  text?: string;
+}
+
+export type AuditEntry = MessageAuditEntry | AgentAuditEntry | ToolAuditEntry | ShellAuditEntry | AuthAuditEntry;
+export type AuditType = AuditEntry["type"];
+export type AuditRecord = AuditEntry & { time: string };
+
+export const AUDIT_TYPES: AuditType[] = ["message", "agent", "tool", "shell", "auth"];
+
+export interface AuditQuery {
+  // Only entries at or after this time
+  since?: number;
+  types?: AuditType[];
+  // Project name (a directory name in cwd) or path prefix
+  project?: string;
+}
+
+export const AUDIT_USAGE =
+  "Usage: /audit [time] [type...] [project]\n" +
+  "time: 30m, 2h, 7d, today or a date (2026-10-01)\n" +
+  `type: ${AUDIT_TYPES.join(", ")}\n` +
+  "project: a directory name or path\n" +
+  "e.g. /audit 24h shell api";
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_KEEP = 3;
+
+// Longer strings in tool inputs (e.g. file contents) are cut to this
+const STRING_LIMIT = 4000;
+
+const DURATION_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+function clipStrings(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > STRING_LIMIT ? `${value.slice(0, STRING_LIMIT)}... (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(clipStrings);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clipStrings(item)]));
+  }
+  return value;
+}
+
+/**
+ * Read "/audit" arguments. Throws with usage text for words it doesn't know.
+ */
+export function parseAuditQuery(text: string, now = Date.now()): AuditQuery {
+  const query: AuditQuery = {};
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const lower = word.toLowerCase();
+    const duration = lower.match(/^(\d+)([mhd])$/);
+    const type = AUDIT_TYPES.find((t) => lower === t || lower === `${t}s`);
+    if (duration) {
+      query.since = now - parseInt(duration[1], 10) * DURATION_UNITS[duration[2]];
+    } else if (lower === "today") {
+      query.since = new Date(now).setHours(0, 0, 0, 0);
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+      const [year, month, day] = word.split("-").map(Number);
+      query.since = new Date(year, month - 1, day).getTime();
+    } else if (type) {
+      query.types = [...(query.types || []), type];
+    } else if (!query.project) {
+      query.project = word.replace(/\/+$/, "");
+    } else {
+      throw new Error(`Couldn't read "${word}".\n\n${AUDIT_USAGE}`);
+    }
+  }
+  return query;
+}
+
+export function matchesAuditQuery(record: AuditRecord, query: AuditQuery): boolean {
+  if (query.since !== undefined && Date.parse(record.time) < query.since) return false;
+  if (query.types && !query.types.includes(record.type)) return false;
+  if (query.project) {
+    const cwd = "cwd" in record ? record.cwd : "";
+    if (!cwd) return false;
+    if (query.project.startsWith("/")) {
+      return cwd === query.project || cwd.startsWith(query.project + "/");
+    }
+    return cwd.toLowerCase().split("/").includes(query.project.toLowerCase());
+  }
+  return true;
+}
+
+function truncateText(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+}
+
+function describeToolInput(input: Record<string, unknown> = {}): string {
+  const main = input.command ?? input.file_path ?? input.pattern ?? input.url ?? input.description;
+  return truncateText(typeof main === "string" ? main : JSON.stringify(input), 80);
+}
+
+/**
+ * One line per record, e.g. "10-19 14:02 🔧 42 Bash: npm test · api"
+ */
+export function formatAuditRecord(record: AuditRecord): string {
+  const date = new Date(record.time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const time = `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  let detail: string;
+  switch (record.type) {
+    case "message":
+      detail = `💬 ${record.userId} ${record.kind}${record.text ? `: ${truncateText(record.text, 80)}` : ""}`;
+      break;
+    case "agent": {
+      const resumed = record.sessionId ? ` (resuming ${record.sessionId.slice(0, 8)})` : "";
+      detail =
+        record.event === "start"
+          ? `🤖 ${record.userId} ${record.agent} started${resumed}`
+          : `🤖 ${record.userId} ${record.agent} stopped (exit ${record.exitCode ?? "?"})`;
+      break;
+    }
+    case "tool":
+      detail = `🔧 ${record.userId} ${record.tool}: ${describeToolInput(record.input)}`;
+      break;
+    case "shell": {
+      const exit = record.exitCode !== undefined && record.exitCode !== null ? ` ${record.exitCode}` : "";
+      const flag = record.background ? " &" : "";
+      detail = `⌨️ ${record.userId} ${record.outcome}${exit}${flag}: ${truncateText(record.command, 80)}`;
+      break;
+    }
+    case "auth":
+      detail = `⛔ ${record.userId}${record.username ? ` @${record.username}` : ""} denied${
+        record.text ? `: ${truncateText(record.text, 60)}` : ""
+      }`;
+      break;
+  }
+  const project = "cwd" in record && record.cwd ? ` · ${path.basename(record.cwd) || record.cwd}` : "";
+  return `${time} ${detail}${project}`;
+}
+
+export class AuditLog {
+  private filePath: string | null;
+  private maxBytes: number;
+  private keep: number;
+  private size: number | null = null;
+
+  constructor(filePath: string | null, config: AuditConfig = {}) {
+    this.filePath = filePath;
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.keep = config.keep ?? DEFAULT_KEEP;
+  }
+
+  record(entry: AuditEntry, now = Date.now()): void {
+    if (!this.filePath) return;
+    const clipped = entry.type === "tool" ? { ...entry, input: clipStrings(entry.input) } : entry;
+    const line = JSON.stringify({ time: new Date(now).toISOString(), ...clipped }) + "\n";
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      if (this.size === null) {
+        this.size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+      }
+      const bytes = Buffer.byteLength(line);
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.filePath, line);
+      this.size += bytes;
+    } catch (e) {
+      console.error("Failed to write audit log:", e);
+    }
+  }
+
+  /**
+   * The last `limit` entries matching query, oldest first, and how many matched in all
+   */
+  query(query: AuditQuery, limit: number): { records: AuditRecord[]; total: number } {
+    const records: AuditRecord[] = [];
+    let total = 0;
+    for (const file of this.files().reverse()) {
+      let text: string;
+      try {
+        text = fs.readFileSync(file, "utf-8");
+      } catch {
+        continue;
+      }
+      for (const line of text.split("\n")) {
+        if (!line) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line) as AuditRecord;
+        } catch {
+          continue;
+        }
+        if (!matchesAuditQuery(record, query)) continue;
+        total++;
+        records.push(record);
+        if (records.length > limit) records.shift();
+      }
+    }
+    return { records, total };
+  }
+
+  // Current file first, then rotated ones from newest to oldest
+  private files(): string[] {
+    if (!this.filePath) return [];
+    const files = [this.filePath];
+    for (let i = 1; i <= this.keep; i++) files.push(`${this.filePath}.${i}`);
+    return files;
+  }
+
+  private rotate(): void {
+    const files = this.files();
+    fs.rmSync(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      if (fs.existsSync(files[i])) fs.renameSync(files[i], files[i + 1]);
+    }
+    this.size = 0;
+  }
+}
@@ -1,357 +1,2481 @@
-import { Bot, InlineKeyboard, type Context } from "grammy";
-import { ClaudeAgent, OpenCodeAgent } from "./agent";
-import type { CodingAgent, NormalizedEvent, AgentOptions } from "./agent";
-import { exec } from "child_process";
+import { ClaudeAgent, OpenCodeAgent, AiderAgent } from "./agent";
+import type {
+  AgentType,
+  CodingAgent,
+  NormalizedEvent,
+  AgentOptions,
+  PermissionMode,
+  PermissionRequest,
+  PermissionDecision,
+  DoneEvent,
+} from "./agent";
+import { execFile } from "child_process";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { formatToolUse, stripThinkingTags } from "./utils";
+import {
+  formatToolUse,
+  stripThinkingTags,
+  resolvePath,
+  truncate,
+  formatRelativeTime,
+  getToolFilePath,
+} from "./utils";
+import { claudeProjectDir, listSessions, getLastSessionSummary } from "./history";
+import { createUnifiedDiff, previewToolChange } from "./diff";
+import { CheckpointManager, recordFileBackup, type Checkpoint } from "./checkpoints";
+import {
+  CostTracker,
+  budgetStatus,
+  formatUsd,
+  formatTokens,
+  type BudgetConfig,
+  type CostEntry,
+} from "./costs";
+import { PermissionBridge, DEFAULT_PERMISSION_TIMEOUT_MS } from "./permissions";
+import { urgent } from "./outbox";
+import {
+  AuditLog,
+  AUDIT_USAGE,
+  formatAuditRecord,
+  parseAuditQuery,
+  type AuditConfig,
+  type AuditQuery,
+  type MessageAuditEntry,
+  type ShellAuditEntry,
+} from "./audit";
+import { renderMarkdown, codeBlock, escapeHtml, htmlToPlainText } from "./render";
+import { PageStore, paginate, searchDocument, type PagedDocument } from "./pager";
+import { SessionStore, type PersistedSession } from "./store";
+import { createTranscriber, type VoiceConfig } from "./transcribe";
+import {
+  sanitizeFilename,
+  uniquePath,
+  isPatchFile,
+  isTextFile,
+  buildUploadPrompt,
+  DEFAULT_UPLOAD_MAX_BYTES,
+  DEFAULT_INLINE_MAX_BYTES,
+  type UploadConfig,
+} from "./uploads";
+import {
+  checkCommand,
+  compileShellRules,
+  ShellRun,
+  type ShellConfig,
+  type ShellResult,
+  type ShellRules,
+} from "./shell";
+import { JobManager, formatUptime, type BackgroundJob } from "./jobs";
+import { findProjects, ProjectStore, searchProjects, sortProjects } from "./projects";
+import { ROLES, type Role } from "./roles";
+import { UserRegistry, hasRole, canAccessPath, type UserEntry } from "./users";
+import {
+  formatRunTime,
+  parseScheduleRequest,
+  Scheduler,
+  SCHEDULE_USAGE,
+  type RunOutcome,
+  type ScheduledJob,
+  type ScheduleRequest,
+} from "./scheduler";
+import {
+  currentBranch,
+  expandMacro,
+  macroParameters,
+  macroUsage,
+  MacroRegistry,
+  MACRO_NAME_PATTERN,
+  type MacroEntry,
+} from "./macros";
+import {
+  addTimings,
+  readClaudeTranscript,
+  recordEvent,
+  startTurn,
+  transcriptFilename,
+  transcriptTitle,
+  transcriptToHtml,
+  transcriptToMarkdown,
+  type ExportFormat,
+  type Transcript,
+} from "./transcript";
+import { Router, Keyboard, ChatContext, type BotCommand, type Messenger } from "./messenger";
 
 interface BotConfig {
-  token: string;
-  allowedUserId: number;
+  // Owner, always treated as an admin
+  allowedUserId?: number;
+  users?: UserEntry[];
+  // Persist the user list after /users changes. Returns false if it could not be saved.
+  onUsersChange?: (users: UserEntry[]) => boolean;
+  macros?: MacroEntry[];
+  // Persist the macro list after /macro changes. Returns false if it could not be saved.
+  onMacrosChange?: (macros: MacroEntry[]) => boolean;
+  // Commands menu; registered macros are added after these
+  commands?: BotCommand[];
   projectRoot?: string;
-  streamMode?: "compact" | "full";
-  agent?: "claude" | "opencode";
+  // Directories /projects scans (default: projectRoot)
+  projectRoots?: string[];
+  // Where session state is persisted between restarts
+  configDir?: string;
+  streamMode?: StreamMode;
+  agent?: AgentType;
+  permissionMode?: PermissionMode;
+  permissionTimeoutMs?: number;
+  voice?: VoiceConfig;
+  uploads?: UploadConfig;
+  // Snapshot the working tree before each turn for /undo (default: on)
+  checkpoints?: boolean;
+  budget?: BudgetConfig;
+  // Timeout, output size and destructive patterns for `!` commands
+  shell?: ShellConfig;
+  // Size-based rotation of audit.jsonl
+  audit?: AuditConfig;
 }
 
+type StreamMode = "compact" | "full";
+
+// A `!` command, where it runs and the destructive pattern it matched
+type ShellRequest = Pick<ShellAuditEntry, "cwd" | "command" | "matched" | "background">;
+
 interface UserSession {
   agent: CodingAgent | null;
   sessionId: string | null;
+  agentType: AgentType;
+  streamMode: StreamMode;
+  chatId: number | null;
   cwd: string;
   statusMsgId: number | null;
   outputMsgId: number | null;
   responseMsgId: number | null;
+  // Further messages when the response is split
+  responseChunkIds: number[];
   lastStatus: string;
   isProcessing: boolean;
+  permissionMode: PermissionMode;
+  permissions: PermissionBridge;
+  alwaysAllowedTools: Set<string>;
+  denyReasonFor: string | null;
+  // Macro whose arguments the next text message supplies
+  pendingMacro: string | null;
+  // Transcripts waiting for "confirm before sending"
+  pendingTranscripts: Map<string, string>;
+  // Saved uploads still offering buttons, by id
+  uploads: Map<string, string>;
+  // Files written or edited during the current turn
+  turnFiles: Set<string>;
+  // Files offered by the last "Send files" keyboard
+  offeredFiles: string[];
+  // Project directories listed by the last /projects, for its buttons
+  offeredProjects: string[];
+  // Unified diffs of Edit/Write calls during the current turn
+  turnDiffs: string[];
+  // Diffs of the last finished turn, for "Show all changes"
+  lastTurnDiff: string;
+  // Snapshot taken before the current turn
+  checkpoint: Checkpoint | null;
+  // Spend of the current task, for the per-task budget. Kept across turns, /stop and
+  // /resume; starts over with /new, another session or another directory.
+  taskCostUsd: number;
+  // Prompts and agent events of the current conversation, for /export
+  transcript: Transcript | null;
+}
+
+// Telegram limits for bot uploads
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp)$/i;
+
+// Diffs longer than this are sent as a .diff document
+const DIFF_INLINE_LIMIT = 3500;
+
+// Tool output longer than this is previewed, with the rest in the pager
+const OUTPUT_PREVIEW_LIMIT = 1000;
+
+// Entries shown by /audit
+const AUDIT_PAGE_SIZE = 25;
+
+// How often and for how long /tail updates its message
+const TAIL_INTERVAL_MS = 3000;
+const TAIL_DURATION_MS = 10 * 60 * 1000;
+
+const PERMISSION_MODE_LABELS: Record<PermissionMode, string> = {
+  default: "Ask for every tool",
+  acceptEdits: "Auto-accept edits, ask for the rest",
+  bypassPermissions: "Bypass (run everything)",
+};
+
+// aider can't stop for approvals, so each mode maps to what it may do on its own
+const AIDER_PERMISSIONS_NOTE =
+  "Aider can't ask before each tool. Ask for every tool: it only proposes edits (dry run). " +
+  "Auto-accept edits: it applies edits but runs no shell commands. Bypass: it also runs its shell commands.\n\n";
+
+export interface ChatBot {
+  messenger: Messenger;
+  // Commands menu, including one entry per macro
+  commands(): BotCommand[];
+  // Handle updates until the transport stops
+  start(): Promise<void>;
+  stop(): Promise<void>;
 }
 
-const longMessages = new Map<string, string>();
+export function createBot(config: BotConfig, messenger: Messenger): ChatBot {
+  const router = new Router();
+  const sessions = new Map<number, UserSession>();
+
+  const initialUsers = [...(config.users || [])];
+  if (config.allowedUserId && !initialUsers.some((u) => u.id === config.allowedUserId)) {
+    initialUsers.unshift({ id: config.allowedUserId, role: "admin" });
+  }
+  let usersPersisted = true;
+  const users = new UserRegistry(initialUsers, (list) => {
+    usersPersisted = config.onUsersChange ? config.onUsersChange(list) : false;
+  });
+
+  let macrosPersisted = true;
+  const macros = new MacroRegistry(config.macros || [], (list) => {
+    macrosPersisted = config.onMacrosChange ? config.onMacrosChange(list) : false;
+  });
+
+  const store = config.configDir ? new SessionStore(path.join(config.configDir, "sessions.json")) : null;
+  const checkpoints = new CheckpointManager(config.configDir);
+  const audit = new AuditLog(config.configDir ? path.join(config.configDir, "audit.jsonl") : null, config.audit);
+  const projects = new ProjectStore(config.configDir ? path.join(config.configDir, "projects.json") : null);
+  const costs = new CostTracker(config.configDir ? path.join(config.configDir, "costs.json") : null);
+  const pages = new PageStore(path.join(config.configDir || path.join(os.tmpdir(), "vibegram"), "pages"));
+  let shellRules: ShellRules;
+  try {
+    shellRules = compileShellRules(config.shell);
+  } catch (e) {
+    console.error(`${e instanceof Error ? e.message : e}, using the built-in shell patterns only`);
+    shellRules = compileShellRules();
+  }
+  // `!` commands waiting for "Run anyway?" and those still running, by id
+  const pendingShell = new Map<number, ShellRequest>();
+  const shellRuns = new Map<number, ShellRun>();
+  let shellIds = 0;
+  const shellDir = path.join(config.configDir || path.join(os.tmpdir(), "vibegram"), "shell");
+  const jobs = new JobManager(shellDir, config.shell?.inlineMaxBytes);
+  // Intervals keeping /tail messages up to date
+  const tailTimers = new Set<ReturnType<typeof setInterval>>();
+  const persisted = store ? store.load() : new Map<number, PersistedSession>();
+  const scheduler = new Scheduler(config.configDir ? path.join(config.configDir, "schedules.json") : null, (job) =>
+    runScheduledJob(job)
+  );
+
+  function getSession(userId: number): UserSession {
+    if (!sessions.has(userId)) {
+      const user = users.get(userId);
+      const defaultCwd =
+        user?.role === "developer" && user.projects?.length
+          ? user.projects[0]
+          : config.projectRoot || process.env.HOME || "/";
+      const saved = persisted.get(userId);
+      sessions.set(userId, {
+        agent: null,
+        sessionId: saved?.sessionId ?? null,
+        agentType: saved?.agentType || config.agent || "claude",
+        streamMode: saved?.streamMode || config.streamMode || "compact",
+        chatId: saved?.chatId ?? null,
+        cwd: saved?.cwd || defaultCwd,
+        statusMsgId: saved?.statusMsgId ?? null,
+        outputMsgId: saved?.outputMsgId ?? null,
+        responseMsgId: saved?.responseMsgId ?? null,
+        responseChunkIds: [],
+        lastStatus: "",
+        isProcessing: false,
+        permissionMode: saved?.permissionMode || config.permissionMode || "bypassPermissions",
+        permissions: new PermissionBridge(),
+        alwaysAllowedTools: new Set(),
+        denyReasonFor: null,
+        pendingMacro: null,
+        pendingTranscripts: new Map(),
+        uploads: new Map(),
+        turnFiles: new Set(),
+        offeredFiles: [],
+        offeredProjects: [],
+        turnDiffs: [],
+        lastTurnDiff: "",
+        checkpoint: null,
+        taskCostUsd: saved?.taskCostUsd ?? 0,
+        transcript: null,
+      });
+    }
+    return sessions.get(userId)!;
+  }
+
+  function saveSessions(): void {
+    if (!store) return;
+    for (const [userId, session] of sessions) {
+      persisted.set(userId, {
+        cwd: session.cwd,
+        sessionId: session.sessionId,
+        agentType: session.agentType,
+        streamMode: session.streamMode,
+        permissionMode: session.permissionMode,
+        chatId: session.chatId,
+        statusMsgId: session.statusMsgId,
+        outputMsgId: session.outputMsgId,
+        responseMsgId: session.responseMsgId,
+        wasProcessing: session.isProcessing,
+        taskCostUsd: session.taskCostUsd,
+      });
+    }
+    store.save(persisted);
+  }
+
+  // Tasks cut off by a restart would otherwise show "Thinking..." forever
+  for (const saved of persisted.values()) {
+    if (saved.wasProcessing && saved.chatId && saved.statusMsgId) {
+      messenger
+        .edit(saved.chatId, saved.statusMsgId, "⚠️ Interrupted by restart. Send a message to continue.")
+        .catch(() => {});
+      saved.wasProcessing = false;
+    }
+  }
+
+  async function killAgent(session: UserSession): Promise<void> {
+    session.permissions.denyAll("Agent stopped");
+    session.denyReasonFor = null;
+    session.alwaysAllowedTools.clear();
+    if (session.agent) {
+      await session.agent.stop();
+      session.agent = null;
+    }
+    session.sessionId = null;
+    session.agentType = config.agent || "claude";
+    session.isProcessing = false;
+    saveSessions();
+  }
+
+  function resetMessageBlocks(session: UserSession): void {
+    session.statusMsgId = null;
+    session.outputMsgId = null;
+    session.responseMsgId = null;
+    session.responseChunkIds = [];
+    session.lastStatus = "";
+    session.turnFiles.clear();
+    session.turnDiffs = [];
+  }
+
+  function createAgent(
+    type: AgentType,
+    options: AgentOptions,
+    onEvent: (event: NormalizedEvent) => void
+  ): CodingAgent {
+    if (type === "opencode") {
+      return new OpenCodeAgent(options, onEvent);
+    }
+    if (type === "aider") {
+      return new AiderAgent(options, onEvent);
+    }
+    return new ClaudeAgent(options, onEvent);
+  }
+
+  // Debug middleware
+  router.use(async (ctx, next) => {
+    console.log(`[UPDATE] ${ctx.action ? "button" : "message"} from ${ctx.from.id} (${ctx.from.username})`);
+    await next();
+  });
+
+  // Auth middleware
+  router.use(async (ctx, next) => {
+    const userId = ctx.from.id;
+    const user = users.get(userId);
+    if (!user) {
+      console.log(`[AUTH] Denied: ${userId} is not in the allowlist`);
+      const text = ctx.message?.text ?? ctx.message?.caption ?? ctx.action?.data;
+      audit.record({ type: "auth", userId, username: ctx.from.username, text: text && truncate(text, 200) });
+      return;
+    }
+    console.log(`[AUTH] Allowed: ${userId} (${user.role})`);
+    await next();
+  });
+
+  // Audit every update from allowed users, with the directory it applies to
+  router.use(async (ctx, next) => {
+    const message = ctx.message;
+    let kind: MessageAuditEntry["kind"] = "text";
+    let text = message?.text ?? message?.caption;
+    if (ctx.action) {
+      kind = "action";
+      text = ctx.action.data;
+    } else if (message?.photo) {
+      kind = "photo";
+    } else if (message?.voice || message?.audio) {
+      kind = message.voice ? "voice" : "audio";
+    } else if (message?.document) {
+      kind = "document";
+      text = [message.document.fileName, message.caption].filter(Boolean).join(": ") || undefined;
+    }
+    audit.record({ type: "message", userId: ctx.from.id, cwd: getSession(ctx.from.id).cwd, kind, text });
+    await next();
+  });
+
+  async function requireRole(ctx: ChatContext, min: Role): Promise<boolean> {
+    const user = users.get(ctx.from.id);
+    if (user && hasRole(user, min)) return true;
+    const message = `⛔ Requires the ${min} role.`;
+    if (ctx.action) {
+      await ctx.answer(message);
+    } else {
+      await ctx.reply(message);
+    }
+    return false;
+  }
+
+  async function requirePathAccess(ctx: ChatContext, target: string): Promise<boolean> {
+    if (!(await requireRole(ctx, "developer"))) return false;
+    const user = users.get(ctx.from.id)!;
+    if (canAccessPath(user, target)) return true;
+    await ctx.reply(`⛔ \`${target}\` is outside your assigned projects.`, { format: "markdown" });
+    return false;
+  }
+
+  router.command("start", async (ctx) => {
+    const session = getSession(ctx.from.id);
+    await ctx.reply(
+      `*Claude Code Bridge*\n\n` +
+        `Send me a message and I'll process it with Claude Code.\n\n` +
+        `*Commands:*\n` +
+        `/new - Start new conversation\n` +
+        `/stop - Stop current task\n` +
+        `/sessions - Browse and resume past sessions\n` +
+        `/status - Show current status\n` +
+        `/cost - Spend today, this week and per project\n` +
+        `/find <text> - Search the last long output\n` +
+        `/projects [name] - Switch project\n` +
+        `/cd <path> - Change working directory\n` +
+        `/undo - Revert the last turn's changes\n` +
+        `/checkpoints - Roll back to an earlier turn\n` +
+        `/export [md] - Save this conversation as a file\n` +
+        `/mode compact|full - Message display mode\n` +
+        `/permissions - Tool approval mode\n` +
+        `/schedule - Run a prompt on a schedule\n` +
+        `/schedules - List scheduled jobs\n` +
+        `/macros - Saved prompts, run with /m <name>\n` +
+        `/jobs - Background jobs started with !&<command> (admin)\n` +
+        `/audit - Search the audit log (admin)\n` +
+        `/users - Manage allowed users (admin)\n\n` +
+        `Current directory: \`${session.cwd}\``,
+      { format: "markdown" }
+    );
+  });
+
+  router.command("new", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    await killAgent(session);
+    session.taskCostUsd = 0;
+    saveSessions();
+    await ctx.reply("Started new conversation.");
+  });
+
+  router.command("stop", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    if (session.isProcessing) {
+      await killAgent(session);
+      await ctx.reply("Stopped. Use /resume to continue.");
+    } else {
+      await ctx.reply("No task running.");
+    }
+  });
+
+  router.command("status", async (ctx) => {
+    const session = getSession(ctx.from.id);
+    const status = [
+      `*Status*`,
+      `Project: \`${session.cwd}\``,
+      `Session: ${session.sessionId ? `\`${session.sessionId.slice(0, 8)}...\`` : "none"}`,
+      `Processing: ${session.isProcessing ? "yes" : "no"}`,
+      `Permissions: ${PERMISSION_MODE_LABELS[session.permissionMode]}`,
+      `Spent today: ${formatUsd(costs.today().costUsd)}`,
+    ].join("\n");
+    await ctx.reply(status, { format: "markdown" });
+  });
+
+  function permissionModeKeyboard(current: PermissionMode): Keyboard {
+    const keyboard = new Keyboard();
+    for (const mode of Object.keys(PERMISSION_MODE_LABELS) as PermissionMode[]) {
+      const label = (mode === current ? "✓ " : "") + PERMISSION_MODE_LABELS[mode];
+      keyboard.text(label, `permmode:${mode}`).row();
+    }
+    return keyboard;
+  }
+
+  router.command("mode", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const mode = ctx.match?.trim();
+    if (mode !== "compact" && mode !== "full") {
+      await ctx.reply(`Display mode: *${session.streamMode}*\n\nUsage: \`/mode compact|full\``, {
+        format: "markdown",
+      });
+      return;
+    }
+    session.streamMode = mode;
+    saveSessions();
+    await ctx.reply(`Display mode: *${mode}*`, { format: "markdown" });
+  });
+
+  router.command("permissions", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    await ctx.reply(
+      `*Tool permissions*\nCurrent: ${PERMISSION_MODE_LABELS[session.permissionMode]}\n\n` +
+        (session.agentType === "aider" ? AIDER_PERMISSIONS_NOTE : "") +
+        `Changes apply from the next task.`,
+      { format: "markdown", keyboard: permissionModeKeyboard(session.permissionMode) }
+    );
+  });
+
+  router.action(/^permmode:(default|acceptEdits|bypassPermissions)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    session.permissionMode = ctx.match[1] as PermissionMode;
+    session.alwaysAllowedTools.clear();
+    saveSessions();
+    await ctx.answer(PERMISSION_MODE_LABELS[session.permissionMode]);
+    await ctx
+      .editKeyboard(permissionModeKeyboard(session.permissionMode))
+      .catch(() => {});
+  });
+
+  router.action(/^perm:(allow|always|deny|reason):(.+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const [, action, id] = ctx.match;
+    const request = session.permissions.get(id);
+
+    if (!request) {
+      await ctx.answer("Request expired");
+      return;
+    }
+
+    await ctx.answer();
+    switch (action) {
+      case "always":
+        session.alwaysAllowedTools.add(request.tool);
+        session.permissions.answer(id, { behavior: "allow" });
+        break;
+      case "deny":
+        session.permissions.answer(id, { behavior: "deny", message: "The user denied this tool call" });
+        break;
+      case "reason":
+        session.denyReasonFor = id;
+        await ctx.reply("Reply with the reason for denying.");
+        break;
+      default:
+        session.permissions.answer(id, { behavior: "allow" });
+    }
+  });
+
+  async function requestPermission(
+    ctx: ChatContext,
+    session: UserSession,
+    request: PermissionRequest
+  ): Promise<PermissionDecision> {
+    // Claude waits for this answer before running the tool, so the backup is sure to hold the old contents
+    const filePath = getToolFilePath(request.tool, request.input);
+    if (filePath) {
+      recordFileBackup(session.checkpoint, resolvePath(filePath, session.cwd, process.env.HOME || ""));
+    }
+
+    if (session.alwaysAllowedTools.has(request.tool)) {
+      return { behavior: "allow" };
+    }
+
+    const timeoutMs = config.permissionTimeoutMs || DEFAULT_PERMISSION_TIMEOUT_MS;
+    const { id, decision } = session.permissions.request(request, timeoutMs);
+    const keyboard = new Keyboard()
+      .text("✅ Allow once", `perm:allow:${id}`)
+      .text("🔓 Always allow", `perm:always:${id}`)
+      .row()
+      .text("🚫 Deny", `perm:deny:${id}`)
+      .text("💬 Deny with reason", `perm:reason:${id}`);
+
+    const text = formatPermissionRequest(request);
+    const msg = await ctx
+      .reply(text, { format: "html", keyboard })
+      .catch(() => ctx.reply(htmlToPlainText(text), { keyboard }));
+
+    const result = await decision;
+    let outcome: string;
+    if (result.behavior === "deny") {
+      outcome = `🚫 Denied: ${result.message}`;
+    } else if (session.alwaysAllowedTools.has(request.tool)) {
+      outcome = `🔓 Always allowed for this session`;
+    } else {
+      outcome = "✅ Allowed once";
+    }
+    const answered = `${text}\n\n${escapeHtml(outcome)}`;
+    await ctx
+      .editMessage(msg.messageId, answered, { format: "html" })
+      .catch(() => ctx.editMessage(msg.messageId, htmlToPlainText(answered)).catch(() => {}));
+    return result;
+  }
+
+  function formatUser(user: UserEntry): string {
+    const name = user.name ? ` ${user.name}` : "";
+    const projects = user.projects?.length ? `\n   ${user.projects.map((p) => `\`${p}\``).join(", ")}` : "";
+    return `• \`${user.id}\`${name} - ${user.role}${projects}`;
+  }
+
+  router.command("users", async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const [action, idArg, ...rest] = (ctx.match || "").trim().split(/\s+/).filter(Boolean);
+    const usage =
+      `*Usage:*\n` +
+      `/users - List allowed users\n` +
+      `/users add <id> <${ROLES.join("|")}> [project...]\n` +
+      `/users remove <id>`;
+
+    if (!action) {
+      const list = users.list().map(formatUser).join("\n");
+      await ctx.reply(`*Allowed users*\n${list}\n\n${usage}`, { format: "markdown" });
+      return;
+    }
+
+    const id = parseInt(idArg, 10);
+    if (isNaN(id)) {
+      await ctx.reply(usage, { format: "markdown" });
+      return;
+    }
+
+    const persistNote = () => (usersPersisted ? "" : "\n⚠️ Not saved to config, change lasts until restart.");
+
+    if (action === "add") {
+      const [role, ...projects] = rest;
+      if (!ROLES.includes(role as Role)) {
+        await ctx.reply(usage, { format: "markdown" });
+        return;
+      }
+      const existing = users.get(id);
+      const home = process.env.HOME || "";
+      users.set({
+        ...existing,
+        id,
+        role: role as Role,
+        projects: projects.length
+          ? projects.map((p) => resolvePath(p, getSession(ctx.from.id).cwd, home))
+          : existing?.projects,
+      });
+      // Start the user over with the new role and default directory
+      const previous = sessions.get(id);
+      if (previous) {
+        await killAgent(previous);
+        sessions.delete(id);
+      }
+      persisted.delete(id);
+      saveSessions();
+      await ctx.reply(`${existing ? "Updated" : "Added"}:\n${formatUser(users.get(id)!)}${persistNote()}`, {
+        format: "markdown",
+      });
+      return;
+    }
+
+    if (action === "remove") {
+      const target = users.get(id);
+      if (!target) {
+        await ctx.reply(`User \`${id}\` is not in the allowlist.`, { format: "markdown" });
+        return;
+      }
+      if (target.role === "admin" && users.admins().length === 1) {
+        await ctx.reply("Can't remove the last admin.");
+        return;
+      }
+      users.remove(id);
+      const session = sessions.get(id);
+      if (session) {
+        await killAgent(session);
+        sessions.delete(id);
+      }
+      persisted.delete(id);
+      saveSessions();
+      await ctx.reply(`Removed \`${id}\`.${persistNote()}`, { format: "markdown" });
+      return;
+    }
+
+    await ctx.reply(usage, { format: "markdown" });
+  });
+
+  router.command("resume", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    await killAgent(session);
+    session.sessionId = "continue";
+    saveSessions();
+
+    const summary = getLastSessionSummary(session.cwd, process.env.HOME || "");
+    let msg = `📂 \`${session.cwd}\`\n`;
+    if (summary) {
+      msg += `\n📋 *Last session:*\n${summary}\n`;
+    }
+    msg += `\nSend a message to continue.`;
+
+    await ctx.reply(msg, { format: "markdown" });
+  });
+
+  const SESSIONS_PAGE_SIZE = 5;
+
+  // Viewers may read the list but only developers get resume buttons
+  function renderSessionsPage(cwd: string, page: number, canResume: boolean): { text: string; keyboard: Keyboard } {
+    const all = listSessions(cwd, process.env.HOME || "");
+    const pageCount = Math.max(1, Math.ceil(all.length / SESSIONS_PAGE_SIZE));
+    page = Math.min(Math.max(page, 0), pageCount - 1);
+    const entries = all.slice(page * SESSIONS_PAGE_SIZE, (page + 1) * SESSIONS_PAGE_SIZE);
+    const keyboard = new Keyboard();
+
+    if (entries.length === 0) {
+      return { text: `No Claude sessions found for \`${cwd}\``, keyboard };
+    }
+
+    const lines = [`📚 *Sessions* in \`${cwd}\` (${page + 1}/${pageCount})`];
+    entries.forEach((entry, i) => {
+      const n = page * SESSIONS_PAGE_SIZE + i + 1;
+      const title = entry.summary || "(no summary)";
+      lines.push(
+        ``,
+        `*${n}.* ${truncate(title, 80)}`,
+        `🕒 ${formatRelativeTime(entry.mtime, new Date())} · 💬 ${entry.messageCount} messages`
+      );
+      if (entry.firstPrompt) {
+        lines.push(`> ${truncate(entry.firstPrompt.replace(/\s+/g, " "), 100)}`);
+      }
+      if (canResume) keyboard.text(`▶️ ${n}`, `sess:resume:${entry.id}`);
+    });
+    keyboard.row();
+    if (page > 0) keyboard.text("◀", `sess:page:${page - 1}`);
+    if (page < pageCount - 1) keyboard.text("▶", `sess:page:${page + 1}`);
+
+    return { text: lines.join("\n"), keyboard };
+  }
+
+  router.command("sessions", async (ctx) => {
+    if (!(await requireRole(ctx, "viewer"))) return;
+    const session = getSession(ctx.from.id);
+    const canResume = hasRole(users.get(ctx.from.id)!, "developer");
+    const { text, keyboard } = renderSessionsPage(session.cwd, 0, canResume);
+    await ctx
+      .reply(text, { format: "markdown", keyboard })
+      .catch(() => ctx.reply(text, { keyboard }));
+  });
+
+  router.action(/^sess:page:(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "viewer"))) return;
+    const session = getSession(ctx.from.id);
+    const canResume = hasRole(users.get(ctx.from.id)!, "developer");
+    const { text, keyboard } = renderSessionsPage(session.cwd, parseInt(ctx.match[1], 10), canResume);
+    await ctx.answer();
+    await ctx
+      .edit(text, { format: "markdown", keyboard })
+      .catch(() => ctx.edit(text, { keyboard }).catch(() => {}));
+  });
+
+  router.action(/^sess:resume:([\w-]+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const id = ctx.match[1];
+    const entry = listSessions(session.cwd, process.env.HOME || "").find((s) => s.id === id);
+    if (!entry) {
+      await ctx.answer("Session not found");
+      return;
+    }
+
+    await killAgent(session);
+    // These are Claude Code sessions, whatever the default agent is
+    session.agentType = "claude";
+    session.sessionId = id;
+    session.taskCostUsd = 0;
+    saveSessions();
+
+    await ctx.answer("Session selected");
+    let msg = `▶️ Resuming \`${id.slice(0, 8)}...\``;
+    if (entry.summary) msg += `\n📋 ${entry.summary}`;
+    msg += `\n\nSend a message to continue.`;
+    await ctx.reply(msg, { format: "markdown" }).catch(() => ctx.reply(msg));
+  });
+
+  const EXPORT_USAGE = "Usage: /export [html|md] [past]\nWithout past, the current conversation is exported.";
+  const EXPORT_PICKER_SIZE = 8;
+
+  /**
+   * The conversation the session is in. Claude's session file has the whole
+   * history; the bot's own recording adds cost and covers the other agents.
+   */
+  function currentTranscript(session: UserSession): Transcript | null {
+    const { transcript: own, sessionId: id } = session;
+    const recorded =
+      own?.turns.length && own.sessionId === id && own.agent === session.agentType && own.cwd === session.cwd
+        ? own
+        : null;
+    const home = process.env.HOME || "";
+    if (id && session.agentType === "claude") {
+      const file =
+        id === "continue"
+          ? listSessions(session.cwd, home, 1)[0]?.path
+          : path.join(claudeProjectDir(session.cwd, home), `${id}.jsonl`);
+      if (file && fs.existsSync(file)) {
+        try {
+          const transcript = readClaudeTranscript(file);
+          if (recorded) addTimings(transcript, recorded);
+          if (transcript.turns.length) return transcript;
+        } catch (e) {
+          console.error("Failed to read session file:", e);
+        }
+      }
+    }
+    return recorded;
+  }
+
+  function renderExportPicker(cwd: string, format: ExportFormat): { text: string; keyboard: Keyboard } | null {
+    const entries = listSessions(cwd, process.env.HOME || "", EXPORT_PICKER_SIZE);
+    if (entries.length === 0) return null;
+    const keyboard = new Keyboard();
+    const lines = [`📄 *Export a session* from \`${cwd}\` as ${format === "md" ? "Markdown" : "HTML"}`, ""];
+    entries.forEach((entry, i) => {
+      const title = entry.summary || entry.firstPrompt?.replace(/\s+/g, " ") || "(no summary)";
+      lines.push(`*${i + 1}.* ${truncate(title, 70)} · ${formatRelativeTime(entry.mtime, new Date())}`);
+      keyboard.text(`📄 ${i + 1}`, `exp:${format}:${entry.id}`);
+      if (i % 4 === 3) keyboard.row();
+    });
+    return { text: lines.join("\n"), keyboard };
+  }
+
+  async function sendTranscript(ctx: ChatContext, transcript: Transcript, format: ExportFormat): Promise<void> {
+    const content = format === "md" ? transcriptToMarkdown(transcript) : transcriptToHtml(transcript);
+    const data = Buffer.from(content);
+    if (data.length > MAX_DOCUMENT_BYTES) {
+      await ctx.reply(`❌ The transcript is too large to send (${formatBytes(data.length)}).`);
+      return;
+    }
+    const turns = transcript.turns.length;
+    try {
+      await ctx.replyWithFile(
+        { data, filename: transcriptFilename(transcript, format) },
+        { caption: `📄 ${transcriptTitle(transcript)} · ${turns} prompt${turns === 1 ? "" : "s"}` }
+      );
+    } catch (e) {
+      console.error("Failed to send transcript:", e);
+      await ctx.reply("❌ Could not send the transcript.");
+    }
+  }
+
+  router.command("export", async (ctx) => {
+    if (!(await requireRole(ctx, "viewer"))) return;
+    const session = getSession(ctx.from.id);
+    let format: ExportFormat = "html";
+    let past = false;
+    for (const word of (ctx.match || "").toLowerCase().split(/\s+/).filter(Boolean)) {
+      if (word === "md" || word === "markdown") format = "md";
+      else if (word === "html") format = "html";
+      else if (word === "past") past = true;
+      else {
+        await ctx.reply(EXPORT_USAGE);
+        return;
+      }
+    }
+
+    const transcript = past ? null : currentTranscript(session);
+    if (transcript) {
+      await sendTranscript(ctx, transcript, format);
+      return;
+    }
+    const picker = renderExportPicker(session.cwd, format);
+    if (!picker) {
+      await ctx.reply(`Nothing to export: no conversation yet and no Claude sessions in \`${session.cwd}\``, {
+        format: "markdown",
+      });
+      return;
+    }
+    await ctx
+      .reply(picker.text, { format: "markdown", keyboard: picker.keyboard })
+      .catch(() => ctx.reply(picker.text, { keyboard: picker.keyboard }));
+  });
+
+  router.action(/^exp:(md|html):([\w-]+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "viewer"))) return;
+    const session = getSession(ctx.from.id);
+    const entry = listSessions(session.cwd, process.env.HOME || "").find((s) => s.id === ctx.match[2]);
+    if (!entry) {
+      await ctx.answer("Session not found");
+      return;
+    }
+    await ctx.answer();
+    let transcript: Transcript;
+    try {
+      transcript = readClaudeTranscript(entry.path);
+    } catch (e) {
+      console.error("Failed to read session file:", e);
+      await ctx.reply("❌ Could not read that session.");
+      return;
+    }
+    await sendTranscript(ctx, transcript, ctx.match[1] as ExportFormat);
+  });
+
+  router.command("cd", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const input = ctx.match?.trim();
+    if (!input) {
+      await ctx.reply(
+        `Current directory: \`${session.cwd}\`\n\nUsage: \`/cd <path>\`, or pick a project with /projects`,
+        { format: "markdown" }
+      );
+      return;
+    }
+
+    const targetPath = resolvePath(input, session.cwd, process.env.HOME || "");
+    if (!(await changeDirectory(ctx, session, targetPath))) return;
+    await ctx.reply(`Changed to: \`${targetPath}\``, { format: "markdown" });
+  });
+
+  // Switch the session to dir, starting a new conversation there
+  async function changeDirectory(ctx: ChatContext, session: UserSession, dir: string): Promise<boolean> {
+    if (!(await requirePathAccess(ctx, dir))) return false;
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      await ctx.reply(`❌ Not a directory: \`${dir}\``, { format: "markdown" });
+      return false;
+    }
+
+    if (session.agent) {
+      await session.agent.stop();
+      session.agent = null;
+    }
+    session.sessionId = null;
+    session.cwd = dir;
+    session.taskCostUsd = 0;
+    saveSessions();
+    projects.touch(ctx.from.id, dir);
+    return true;
+  }
+
+  const PROJECTS_PAGE_SIZE = 8;
+  const projectRoots = config.projectRoots?.length
+    ? config.projectRoots
+    : [config.projectRoot || process.env.HOME || "/"];
+
+  // Projects under the roots (and a developer's assigned projects) the user may open
+  function listProjects(userId: number, query: string): string[] {
+    const user = users.get(userId)!;
+    const roots = hasRole(user, "admin") ? projectRoots : [...projectRoots, ...(user.projects || [])];
+    const found = findProjects(roots).filter((p) => canAccessPath(user, p.path));
+    const sorted = sortProjects(found, projects.get(userId));
+    return (query ? searchProjects(sorted, query) : sorted).map((p) => p.path);
+  }
+
+  function renderProjectsPage(
+    userId: number,
+    session: UserSession,
+    page: number
+  ): { text: string; keyboard: Keyboard } {
+    const all = session.offeredProjects;
+    const pageCount = Math.max(1, Math.ceil(all.length / PROJECTS_PAGE_SIZE));
+    page = Math.min(Math.max(page, 0), pageCount - 1);
+    const start = page * PROJECTS_PAGE_SIZE;
+    const { pinned } = projects.get(userId);
+    const home = process.env.HOME || "";
+    const keyboard = new Keyboard();
+
+    const lines = [`📂 <b>Projects</b>${pageCount > 1 ? ` (${page + 1}/${pageCount})` : ""}`, ""];
+    all.slice(start, start + PROJECTS_PAGE_SIZE).forEach((dir, i) => {
+      const mark = dir === session.cwd ? "✓ " : pinned.includes(dir) ? "📌 " : "";
+      const shown = home && dir.startsWith(home + "/") ? "~" + dir.slice(home.length) : dir;
+      lines.push(`${mark}<b>${escapeHtml(path.basename(dir))}</b> <code>${escapeHtml(shown)}</code>`);
+      keyboard.text(`${mark}${path.basename(dir)}`, `proj:cd:${start + i}`);
+      if (i % 2 === 1) keyboard.row();
+    });
+    keyboard.row();
+    if (page > 0) keyboard.text("◀", `proj:page:${page - 1}`);
+    if (page < pageCount - 1) keyboard.text("▶", `proj:page:${page + 1}`);
+    return { text: lines.join("\n"), keyboard };
+  }
+
+  function switchedMessage(userId: number, dir: string, index: number): { text: string; keyboard: Keyboard } {
+    const pinned = projects.isPinned(userId, dir);
+    return {
+      text: `📂 Switched to \`${path.basename(dir)}\`\n\`${dir}\``,
+      keyboard: new Keyboard().text(pinned ? "Unpin" : "📌 Pin", `proj:pin:${index}`),
+    };
+  }
+
+  router.command("projects", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const query = ctx.match?.trim() || "";
+    session.offeredProjects = listProjects(ctx.from.id, query);
+    if (session.offeredProjects.length === 0) {
+      await ctx.reply(
+        query
+          ? `No projects match "${query}".`
+          : `No projects found in ${projectRoots.join(", ")}. Use /cd <path> instead.`
+      );
+      return;
+    }
+    const { text, keyboard } = renderProjectsPage(ctx.from.id, session, 0);
+    await ctx.reply(text, { format: "html", keyboard });
+  });
+
+  router.action(/^proj:page:(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    // Assigned projects may have changed since the list was made
+    const user = users.get(ctx.from.id)!;
+    session.offeredProjects = session.offeredProjects.filter((dir) => canAccessPath(user, dir));
+    await ctx.answer();
+    const { text, keyboard } = renderProjectsPage(ctx.from.id, session, parseInt(ctx.match[1], 10));
+    await ctx.edit(text, { format: "html", keyboard });
+  });
+
+  router.action(/^proj:cd:(\d+)$/, async (ctx) => {
+    const session = getSession(ctx.from.id);
+    const index = parseInt(ctx.match[1], 10);
+    const dir = session.offeredProjects[index];
+    if (!dir) {
+      await ctx.answer("List expired, run /projects again");
+      return;
+    }
+    if (!(await changeDirectory(ctx, session, dir))) return;
+    await ctx.answer(path.basename(dir));
+    const { text, keyboard } = switchedMessage(ctx.from.id, dir, index);
+    await ctx.reply(text, { format: "markdown", keyboard });
+  });
+
+  router.action(/^proj:pin:(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const index = parseInt(ctx.match[1], 10);
+    const dir = getSession(ctx.from.id).offeredProjects[index];
+    if (!dir) {
+      await ctx.answer("List expired, run /projects again");
+      return;
+    }
+    if (!(await requirePathAccess(ctx, dir))) return;
+    const pinned = projects.togglePin(ctx.from.id, dir);
+    await ctx.answer(pinned ? "Pinned, shown first in /projects" : "Unpinned");
+    const { text, keyboard } = switchedMessage(ctx.from.id, dir, index);
+    await ctx.edit(text, { format: "markdown", keyboard });
+  });
+
+  router.hears(/^!(.+)/, async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const session = getSession(ctx.from.id);
+    // !&<command> runs in the background
+    const background = ctx.match[1].startsWith("&");
+    const command = background ? ctx.match[1].slice(1).trim() : ctx.match[1];
+    if (!command) {
+      await ctx.reply("Usage: !<command>, or !&<command> to run it in the background");
+      return;
+    }
+
+    if (command.startsWith("cd ")) {
+      let targetPath = command.slice(3).trim();
+      if (targetPath.startsWith("~")) {
+        targetPath = targetPath.replace("~", process.env.HOME || "");
+      }
+      if (!targetPath.startsWith("/")) {
+        targetPath = `${session.cwd}/${targetPath}`;
+      }
+      const parts = targetPath.split("/").filter(Boolean);
+      const resolved: string[] = [];
+      for (const part of parts) {
+        if (part === "..") resolved.pop();
+        else if (part !== ".") resolved.push(part);
+      }
+      session.cwd = "/" + resolved.join("/");
+      session.taskCostUsd = 0;
+      audit.record({ type: "shell", userId: ctx.from.id, cwd: session.cwd, command, outcome: "ran", background });
+      await killAgent(session);
+      await ctx.reply(`\`${session.cwd}\``, { format: "markdown" });
+      return;
+    }
+
+    const request: ShellRequest = { cwd: session.cwd, command, background };
+    const verdict = checkCommand(command, shellRules);
+    if (verdict.action === "deny") {
+      audit.record({ type: "shell", userId: ctx.from.id, ...request, outcome: "denied", matched: verdict.match });
+      await ctx.reply(
+        `⛔ Not running <code>${escapeHtml(command)}</code>: <code>${escapeHtml(verdict.match)}</code> is blocked.`,
+        { format: "html" }
+      );
+      return;
+    }
+    if (verdict.action === "confirm") {
+      const id = ++shellIds;
+      pendingShell.set(id, { ...request, matched: verdict.match });
+      await ctx.reply(
+        `⚠️ <code>${escapeHtml(command)}</code> looks destructive (<code>${escapeHtml(verdict.match)}</code>).\n` +
+          `📁 <code>${escapeHtml(session.cwd)}</code>\n\nRun anyway?`,
+        {
+          format: "html",
+          keyboard: new Keyboard().text("Run anyway", `shell:run:${id}`).text("Cancel", `shell:cancel:${id}`),
+        }
+      );
+      return;
+    }
+    await (background ? startJob(ctx, request) : startShell(ctx, request));
+  });
+
+  router.action(/^shell:(run|cancel):(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const id = parseInt(ctx.match[2], 10);
+    const pending = pendingShell.get(id);
+    if (!pending) {
+      await ctx.answer("Already answered");
+      return;
+    }
+    pendingShell.delete(id);
+    await ctx.answer();
+    await ctx.editKeyboard();
+    if (ctx.match[1] === "cancel") {
+      audit.record({ type: "shell", userId: ctx.from.id, ...pending, outcome: "cancelled" });
+      await ctx.reply("Cancelled.");
+      return;
+    }
+    await (pending.background ? startJob(ctx, pending) : startShell(ctx, pending));
+  });
+
+  router.action(/^shell:kill:(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const run = shellRuns.get(parseInt(ctx.match[1], 10));
+    await ctx.answer(run?.kill() ? "Stopping..." : "Already finished");
+  });
+
+  // Record a finished command and send its result, with the full output as a file when it's large
+  async function reportShell(ctx: ChatContext, request: ShellRequest, result: ShellResult, title = ""): Promise<void> {
+    audit.record({
+      type: "shell",
+      userId: ctx.from.id,
+      ...request,
+      outcome: shellOutcome(result),
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+    });
+    await ctx.reply(`${title}${formatShellResult(result)}`, { format: "html" });
+    if (result.outputFile) {
+      await sendFile(ctx, result.outputFile);
+      fs.rmSync(result.outputFile, { force: true });
+    }
+  }
+
+  // Run a command, reporting back when it finishes. Doesn't wait, so the Kill button keeps working.
+  async function startShell(ctx: ChatContext, request: ShellRequest): Promise<void> {
+    const id = ++shellIds;
+    const run = new ShellRun(request.command, {
+      cwd: request.cwd,
+      timeoutMs: config.shell?.timeoutMs,
+      inlineMaxBytes: config.shell?.inlineMaxBytes,
+      outputFile: path.join(shellDir, `${id}-${Date.now()}.log`),
+    });
+    shellRuns.set(id, run);
+    const title = `<code>$ ${escapeHtml(truncate(request.command, 200))}</code>`;
+    const status = await ctx.reply(`⏳ ${title}`, {
+      format: "html",
+      keyboard: new Keyboard().text("⏹ Kill", `shell:kill:${id}`),
+    });
+
+    run.done
+      .then(async (result) => {
+        shellRuns.delete(id);
+        // Drop the Kill button; the result is reported even if the status message is gone
+        await ctx.editMessage(status.messageId, title, { format: "html" }).catch(() => {});
+        await reportShell(ctx, request, result);
+      })
+      .catch((e) => console.error("Failed to report shell command:", e));
+  }
+
+  function jobKeyboard(id: number): Keyboard {
+    return new Keyboard().text(`📜 Tail #${id}`, `job:tail:${id}`).text(`⏹ Kill #${id}`, `job:kill:${id}`);
+  }
+
+  // Start a background job; its result is sent when it exits
+  async function startJob(ctx: ChatContext, request: ShellRequest): Promise<void> {
+    const job = jobs.start(ctx.from.id, request.command, request.cwd);
+    const title = `<code>$ ${escapeHtml(truncate(request.command, 200))}</code>`;
+    await ctx.reply(
+      `🚀 Job #${job.id} started${job.run.pid ? ` (PID ${job.run.pid})` : ""}\n${title}\n` +
+        `Follow it with /tail ${job.id}, stop it with /kill ${job.id}.`,
+      { format: "html", keyboard: jobKeyboard(job.id) }
+    );
+
+    job.run.done
+      .then((result) => reportShell(ctx, request, result, `🏁 Job #${job.id} ${title}\n`))
+      .catch((e) => console.error("Failed to report background job:", e));
+  }
+
+  function renderJobs(): { text: string; keyboard?: Keyboard } {
+    const list = jobs.list();
+    if (list.length === 0) {
+      return { text: "No background jobs. Start one with !&<command>." };
+    }
+    const keyboard = new Keyboard();
+    const lines = list.map((job) => {
+      keyboard.text(`📜 #${job.id}`, `job:tail:${job.id}`).text(`⏹ #${job.id}`, `job:kill:${job.id}`).row();
+      return (
+        `<b>#${job.id}</b> <code>${escapeHtml(truncate(job.command, 100))}</code>\n` +
+        `PID ${job.run.pid ?? "?"} · up ${formatUptime(Date.now() - job.run.startedAt)} · ` +
+        `📁 <code>${escapeHtml(job.cwd)}</code>`
+      );
+    });
+    return { text: `⚙️ <b>Background jobs</b>\n\n${lines.join("\n\n")}`, keyboard };
+  }
+
+  function renderTail(job: BackgroundJob, note = ""): string {
+    const state = job.run.running ? `running for ${formatUptime(Date.now() - job.run.startedAt)}` : "finished";
+    return (
+      `📜 <b>Job #${job.id}</b> · ${state}\n<code>$ ${escapeHtml(truncate(job.command, 200))}</code>\n` +
+      codeBlock(job.run.recentOutput.trimEnd() || "(no output yet)") +
+      note
+    );
+  }
+
+  // Send the job's latest output and keep the message updated while it runs, for a while
+  async function tailJob(ctx: ChatContext, job: BackgroundJob): Promise<void> {
+    const keyboard = new Keyboard().text(`⏹ Kill #${job.id}`, `job:kill:${job.id}`);
+    const message = await ctx.reply(renderTail(job), {
+      format: "html",
+      keyboard: job.run.running ? keyboard : undefined,
+    });
+    if (!job.run.running) return;
+
+    const until = Date.now() + TAIL_DURATION_MS;
+    let updating = false;
+    const timer = setInterval(async () => {
+      if (updating) return;
+      const expired = Date.now() >= until;
+      const last = !job.run.running || expired;
+      if (last) {
+        clearInterval(timer);
+        tailTimers.delete(timer);
+      }
+      updating = true;
+      try {
+        const note = expired && job.run.running ? `\n<i>Stopped following, /tail ${job.id} again for more.</i>` : "";
+        await ctx.editMessage(message.messageId, renderTail(job, note), {
+          format: "html",
+          keyboard: last ? undefined : keyboard,
+        });
+      } catch (e) {
+        console.error("Failed to update tail:", e);
+      } finally {
+        updating = false;
+      }
+    }, TAIL_INTERVAL_MS);
+    tailTimers.add(timer);
+  }
+
+  // The job named by /tail or /kill; the only one when there's just one
+  async function jobFromArgs(ctx: ChatContext<string>, usage: string): Promise<BackgroundJob | null> {
+    const arg = ctx.match.trim().replace(/^#/, "");
+    const list = jobs.list();
+    if (!arg && list.length === 1) return list[0];
+    const job = arg ? jobs.get(parseInt(arg, 10)) : undefined;
+    if (!job) {
+      await ctx.reply(arg ? `No running job #${arg}. See /jobs.` : usage);
+      return null;
+    }
+    return job;
+  }
+
+  router.command("audit", async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    let query: AuditQuery;
+    try {
+      query = parseAuditQuery(ctx.match || "");
+    } catch (e) {
+      await ctx.reply(`❌ ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+    if (!config.configDir) {
+      await ctx.reply("The audit log is off: there's no config directory to keep it in.");
+      return;
+    }
+    const { records, total } = audit.query(query, AUDIT_PAGE_SIZE);
+    if (total === 0) {
+      await ctx.reply(`No audit entries match.\n\n${AUDIT_USAGE}`);
+      return;
+    }
+    const count = total > records.length ? `last ${records.length} of ${total}` : `${total}`;
+    const header = `🧾 <b>Audit log</b> · ${count} entries`;
+    const lines = records.map((record) => escapeHtml(formatAuditRecord(record)));
+    await ctx.reply(`${header}\n\n${lines.join("\n")}`, { format: "html" });
+  });
+
+  router.command("jobs", async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const { text, keyboard } = renderJobs();
+    await ctx.reply(text, { format: "html", keyboard });
+  });
+
+  router.command("tail", async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const job = await jobFromArgs(ctx, "Usage: /tail <id> (see /jobs)");
+    if (job) await tailJob(ctx, job);
+  });
+
+  router.command("kill", async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const job = await jobFromArgs(ctx, "Usage: /kill <id> (see /jobs)");
+    if (!job) return;
+    jobs.kill(job.id);
+    await ctx.reply(`⏹ Stopping job #${job.id}...`);
+  });
+
+  router.action(/^job:(tail|kill):(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "admin"))) return;
+    const job = jobs.get(parseInt(ctx.match[2], 10));
+    if (!job) {
+      await ctx.answer("Job already finished");
+      return;
+    }
+    if (ctx.match[1] === "kill") {
+      jobs.kill(job.id);
+      await ctx.answer(`Stopping job #${job.id}...`);
+      return;
+    }
+    await ctx.answer();
+    await tailJob(ctx, job);
+  });
+
+  router.on("photo", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const caption = ctx.message.caption || "What's in this image?";
+
+    const photo = ctx.message.photo!;
+    const tempPath = `/tmp/tgcc_image_${Date.now()}${path.extname(photo.fileName || "") || ".jpg"}`;
+    await ctx.downloadFile(photo.fileId, tempPath);
+
+    await handleMessage(ctx, session, caption, tempPath);
+  });
+
+  const transcriber = createTranscriber(config.voice);
+
+  router.on(["voice", "audio"], async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const audio = ctx.message.voice || ctx.message.audio;
+    if (!audio) return;
+
+    const statusMsg = await ctx.reply("🎙 Transcribing...");
+    const ext = ctx.message.voice ? "ogg" : path.extname(ctx.message.audio?.fileName || "").slice(1) || "audio";
+    const tempPath = `/tmp/vibegram_voice_${Date.now()}.${ext}`;
+
+    let transcript: string;
+    try {
+      await ctx.downloadFile(audio.fileId, tempPath);
+      transcript = await transcriber.transcribe(tempPath);
+    } catch (e) {
+      console.error("Transcription failed:", e);
+      await ctx
+        .editMessage(statusMsg.messageId, `❌ Transcription failed: ${e instanceof Error ? e.message : e}`)
+        .catch(() => {});
+      return;
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+
+    if (!transcript) {
+      await ctx.editMessage(statusMsg.messageId, "🎙 (nothing heard)").catch(() => {});
+      return;
+    }
+
+    if (config.voice?.confirm) {
+      const id = statusMsg.messageId.toString();
+      session.pendingTranscripts.set(id, transcript);
+      const keyboard = new Keyboard().text("✅ Send", `voice:send:${id}`).text("❌ Discard", `voice:drop:${id}`);
+      await ctx.editMessage(statusMsg.messageId, `🎙 ${transcript}`, { keyboard }).catch(() => {});
+      return;
+    }
+
+    await ctx.editMessage(statusMsg.messageId, `🎙 ${transcript}`).catch(() => {});
+    await handleMessage(ctx, session, transcript);
+  });
+
+  router.action(/^voice:(send|drop):(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const [, action, id] = ctx.match;
+    const transcript = session.pendingTranscripts.get(id);
+    if (!transcript) {
+      await ctx.answer("Transcript expired");
+      return;
+    }
+
+    session.pendingTranscripts.delete(id);
+    await ctx.answer();
+    if (action === "drop") {
+      await ctx.edit(`🎙 ${transcript}\n\n❌ Discarded`).catch(() => {});
+      return;
+    }
+    await ctx.edit(`🎙 ${transcript}`).catch(() => {});
+    await handleMessage(ctx, session, transcript);
+  });
+
+  router.on("document", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    if (!(await requirePathAccess(ctx, session.cwd))) return;
+
+    const doc = ctx.message.document!;
+    const maxBytes = config.uploads?.maxBytes || DEFAULT_UPLOAD_MAX_BYTES;
+    if (doc.size && doc.size > maxBytes) {
+      await ctx.reply(`❌ File too large (${formatBytes(doc.size)}, limit ${formatBytes(maxBytes)}).`);
+      return;
+    }
+
+    const home = process.env.HOME || "";
+    const dir = resolvePath(config.uploads?.dir || ".", session.cwd, home);
+    const filename = sanitizeFilename(doc.fileName);
+    let savedPath: string;
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      savedPath = uniquePath(dir, filename);
+      await ctx.downloadFile(doc.fileId, savedPath);
+    } catch (e) {
+      console.error("Upload failed:", e);
+      await ctx.reply(`❌ Could not save file: ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+
+    const size = fs.statSync(savedPath).size;
+    const id = Date.now().toString(36);
+    session.uploads.set(id, savedPath);
+
+    const caption = ctx.message.caption;
+    const keyboard = new Keyboard();
+    if (!caption) {
+      keyboard.text("🤖 Send to agent", `upload:send:${id}`);
+    }
+    if (isTextFile(filename, doc.mimeType) && size <= (config.uploads?.inlineMaxBytes || DEFAULT_INLINE_MAX_BYTES)) {
+      keyboard.text("📝 Send inline", `upload:inline:${id}`);
+    }
+    if (isPatchFile(filename)) {
+      keyboard.row().text("🩹 Apply with git apply", `upload:apply:${id}`);
+    }
+
+    const relative = path.relative(session.cwd, savedPath);
+    await ctx.reply(`📎 Saved \`${relative}\` (${formatBytes(size)})`, {
+      format: "markdown",
+      keyboard,
+    });
+
+    if (caption) {
+      await handleMessage(ctx, session, buildUploadPrompt(savedPath, caption));
+    }
+  });
+
+  router.action(/^upload:(send|inline|apply):(\w+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const [, action, id] = ctx.match;
+    const savedPath = session.uploads.get(id);
+    if (!savedPath || !fs.existsSync(savedPath)) {
+      await ctx.answer("File no longer available");
+      return;
+    }
+    await ctx.answer();
+
+    if (action === "send") {
+      await handleMessage(ctx, session, buildUploadPrompt(savedPath));
+      return;
+    }
+
+    if (action === "inline") {
+      const content = fs.readFileSync(savedPath, "utf-8");
+      await handleMessage(ctx, session, buildUploadPrompt(savedPath, undefined, content));
+      return;
+    }
+
+    if (!(await requirePathAccess(ctx, session.cwd))) return;
+    execFile("git", ["apply", "--check", savedPath], { cwd: session.cwd }, (checkError, _out, checkErr) => {
+      if (checkError) {
+        ctx.reply(`❌ Patch does not apply:\n${codeBlock(checkErr.trim().slice(0, 3000))}`, {
+          format: "html",
+        }).catch(() => {});
+        return;
+      }
+      execFile("git", ["apply", savedPath], { cwd: session.cwd }, (error, _stdout, stderr) => {
+        const msg = error ? `❌ git apply failed:\n${stderr.trim().slice(0, 3000)}` : "✅ Patch applied.";
+        ctx.reply(msg).catch(() => {});
+      });
+    });
+  });
+
+  router.command("get", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const input = ctx.match?.trim();
+    if (!input) {
+      await ctx.reply("Usage: `/get <path>`", { format: "markdown" });
+      return;
+    }
+    const target = resolvePath(input, session.cwd, process.env.HOME || "");
+    if (!(await requirePathAccess(ctx, target))) return;
+    await sendFile(ctx, target);
+  });
+
+  router.action(/^files:(all|\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const selection = ctx.match[1];
+    const files =
+      selection === "all" ? session.offeredFiles : [session.offeredFiles[parseInt(selection, 10)]].filter(Boolean);
+    if (files.length === 0) {
+      await ctx.answer("Files expired");
+      return;
+    }
+    await ctx.answer();
+    for (const file of files) {
+      if (!(await requirePathAccess(ctx, file))) continue;
+      await sendFile(ctx, file);
+    }
+  });
+
+  router.action("diffs:show", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    if (!session.lastTurnDiff) {
+      await ctx.answer("No changes recorded");
+      return;
+    }
+    await ctx.answer();
+    await sendDiff(ctx, "🔍 All changes", session.lastTurnDiff, "changes.diff");
+  });
+
+  /**
+   * Record a finished turn's spend and enforce the budgets
+   */
+  async function trackCost(ctx: ChatContext, session: UserSession, event: DoneEvent): Promise<void> {
+    const budget = config.budget || {};
+    const dailyBefore = costs.today().costUsd;
+    const taskBefore = session.taskCostUsd;
+    const spent = costs.record(session.cwd, event);
+    session.taskCostUsd += spent;
+
+    const daily = budgetStatus(dailyBefore, dailyBefore + spent, budget.dailyUsd, budget.warnAt);
+    const task = budgetStatus(taskBefore, session.taskCostUsd, budget.taskUsd, budget.warnAt);
+
+    if (daily === "exceeded" || task === "exceeded") {
+      const reason =
+        task === "exceeded"
+          ? `This task has used ${formatUsd(session.taskCostUsd)} of its ${formatUsd(budget.taskUsd!)} budget.`
+          : `Today's spend is ${formatUsd(dailyBefore + spent)} of the ${formatUsd(budget.dailyUsd!)} daily budget.`;
+      await stopForBudget(ctx, session, reason);
+      return;
+    }
+
+    if (task === "warn") {
+      await ctx.reply(
+        `⚠️ This task has used ${formatUsd(session.taskCostUsd)} of its ${formatUsd(budget.taskUsd!)} budget.`
+      );
+    }
+    if (daily === "warn") {
+      await ctx.reply(
+        `⚠️ ${formatUsd(dailyBefore + spent)} spent today, of the ${formatUsd(budget.dailyUsd!)} daily budget.`
+      );
+    }
+  }
+
+  /**
+   * Stop a turn as soon as its spend so far takes the task or the day over budget.
+   * Returns true if it was stopped, after recording what it spent.
+   */
+  async function checkRunningCost(ctx: ChatContext, session: UserSession, turnUsd: number): Promise<boolean> {
+    const budget = config.budget || {};
+    const task = session.taskCostUsd + turnUsd;
+    const daily = costs.today().costUsd + turnUsd;
+    let reason: string;
+    if (budget.taskUsd && task >= budget.taskUsd) {
+      reason = `This task has used about ${formatUsd(task)} of its ${formatUsd(budget.taskUsd)} budget.`;
+    } else if (budget.dailyUsd && daily >= budget.dailyUsd) {
+      reason = `Today's spend is about ${formatUsd(daily)} of the ${formatUsd(budget.dailyUsd)} daily budget.`;
+    } else {
+      return false;
+    }
+    costs.record(session.cwd, { costUsd: turnUsd });
+    session.taskCostUsd = task;
+    await urgent(() => updateStatusBlock(ctx, session, "🛑 Over budget"));
+    await stopForBudget(ctx, session, reason);
+    return true;
+  }
+
+  async function stopForBudget(ctx: ChatContext, session: UserSession, reason: string): Promise<void> {
+    session.permissions.denyAll("Budget exceeded");
+    if (session.agent) {
+      session.isProcessing = false;
+      await session.agent.stop();
+      session.agent = null;
+    }
+    saveSessions();
+    await ctx.reply(`🛑 ${reason} Agent stopped.`);
+  }
+
+  function formatCostEntry(entry: CostEntry): string {
+    const tasks = `${entry.tasks} task${entry.tasks === 1 ? "" : "s"}`;
+    const tokens = `${formatTokens(entry.inputTokens)} in / ${formatTokens(entry.outputTokens)} out`;
+    return `${formatUsd(entry.costUsd)} · ${tasks} · ${tokens}`;
+  }
+
+  router.command("cost", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const user = users.get(ctx.from.id)!;
+    const budget = config.budget || {};
+    const today = costs.today();
+
+    const lines = [
+      `💰 *Spend*`,
+      `Today: ${formatCostEntry(today)}`,
+      `This week: ${formatCostEntry(costs.thisWeek())}`,
+    ];
+
+    const limits: string[] = [];
+    if (budget.dailyUsd) {
+      const used = Math.round((today.costUsd / budget.dailyUsd) * 100);
+      limits.push(`daily ${formatUsd(budget.dailyUsd)} (${used}% used)`);
+    }
+    if (budget.taskUsd) limits.push(`per task ${formatUsd(budget.taskUsd)}`);
+    if (limits.length) lines.push(`Budgets: ${limits.join(", ")}`);
+
+    const projects = costs.byProject().filter(([project]) => canAccessPath(user, project));
+    if (projects.length) {
+      lines.push("", `*By project* (last 90 days)`);
+      for (const [project, entry] of projects.slice(0, 10)) {
+        lines.push(`\`${project}\` ${formatUsd(entry.costUsd)} · ${entry.tasks} tasks`);
+      }
+    }
+
+    const text = lines.join("\n");
+    await ctx.reply(text, { format: "markdown" }).catch(() => ctx.reply(text.replace(/[*`]/g, "")));
+  });
+
+  function formatRestored(checkpoint: Checkpoint, changed: string[], cwd: string): string {
+    const lines = [`↩️ Restored the state before:`, `> ${truncate(checkpoint.prompt, 100)}`];
+    if (changed.length === 0) {
+      lines.push("", "No files had changed.");
+    } else {
+      const root = checkpoint.kind === "git" ? checkpoint.location : cwd;
+      lines.push("", `${changed.length} file${changed.length === 1 ? "" : "s"} reverted:`);
+      for (const file of changed.slice(0, 20)) {
+        lines.push(`• ${path.isAbsolute(file) ? path.relative(root, file) || file : file}`);
+      }
+      if (changed.length > 20) lines.push(`... and ${changed.length - 20} more`);
+    }
+    return lines.join("\n");
+  }
+
+  async function rollback(ctx: ChatContext, session: UserSession, checkpoint: Checkpoint): Promise<void> {
+    try {
+      const changed = await checkpoints.restore(session.cwd, checkpoint.id);
+      await ctx.reply(formatRestored(checkpoint, changed, session.cwd));
+    } catch (e) {
+      console.error("Rollback failed:", e);
+      await ctx.reply(`❌ Rollback failed: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  // Checkpoints for the session cwd, or null after replying why there are none
+  async function checkpointsFor(ctx: ChatContext, session: UserSession): Promise<Checkpoint[] | null> {
+    if (!(await requirePathAccess(ctx, session.cwd))) return null;
+    if (session.isProcessing) {
+      await ctx.reply("⏳ A task is running. Wait for it to finish or /stop it first.");
+      return null;
+    }
+    const list = await checkpoints.list(session.cwd).catch(() => []);
+    if (list.length === 0) {
+      await ctx.reply("No checkpoints for this directory yet.");
+      return null;
+    }
+    return list;
+  }
+
+  router.command("undo", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const list = await checkpointsFor(ctx, session);
+    if (!list) return;
+    await rollback(ctx, session, list[0]);
+  });
+
+  router.command("rollback", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const n = parseInt(ctx.match?.trim() || "", 10);
+    if (!n || n < 1) {
+      await ctx.reply("Usage: `/rollback <n>` (1 = before the last turn, see /checkpoints)", {
+        format: "markdown",
+      });
+      return;
+    }
+    const list = await checkpointsFor(ctx, session);
+    if (!list) return;
+    if (n > list.length) {
+      await ctx.reply(`Only ${list.length} checkpoint${list.length === 1 ? "" : "s"} available.`);
+      return;
+    }
+    await rollback(ctx, session, list[n - 1]);
+  });
+
+  router.command("checkpoints", async (ctx) => {
+    const session = getSession(ctx.from.id);
+    const list = await checkpointsFor(ctx, session);
+    if (!list) return;
+
+    const now = new Date();
+    const keyboard = new Keyboard();
+    const lines = [`⏪ *Checkpoints* in \`${session.cwd}\``];
+    list.slice(0, 10).forEach((checkpoint, i) => {
+      lines.push(
+        "",
+        `*${i + 1}.* ${formatRelativeTime(new Date(checkpoint.createdAt), now)}`,
+        `> ${truncate(checkpoint.prompt, 100)}`
+      );
+      keyboard.text(`↩️ ${i + 1}`, `ckpt:ask:${checkpoint.id}`);
+      if (i % 5 === 4) keyboard.row();
+    });
+    lines.push("", "Rolling back restores the files as they were before that turn.");
+    const text = lines.join("\n");
+    await ctx
+      .reply(text, { format: "markdown", keyboard })
+      .catch(() => ctx.reply(text.replace(/[*`]/g, ""), { keyboard }));
+  });
+
+  router.action(/^ckpt:(ask|yes):(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const [, action, id] = ctx.match;
+    const list = await checkpoints.list(session.cwd).catch(() => []);
+    const index = list.findIndex((c) => c.id === id);
+    if (index === -1) {
+      await ctx.answer("Checkpoint no longer exists");
+      return;
+    }
+    if (session.isProcessing) {
+      await ctx.answer("A task is running");
+      return;
+    }
+    await ctx.answer();
+
+    if (action === "ask") {
+      const checkpoint = list[index];
+      let text = `Roll back to before "${truncate(checkpoint.prompt, 80)}"?`;
+      if (index > 0) text += `\n\nThis also undoes the ${index} newer turn${index === 1 ? "" : "s"}.`;
+      const keyboard = new Keyboard().text("↩️ Roll back", `ckpt:yes:${id}`).text("Cancel", "ckpt:cancel");
+      await ctx.edit(text, { keyboard }).catch(() => {});
+      return;
+    }
+
+    await ctx.editKeyboard().catch(() => {});
+    if (!(await requirePathAccess(ctx, session.cwd))) return;
+    await rollback(ctx, session, list[index]);
+  });
+
+  router.action("ckpt:cancel", async (ctx) => {
+    await ctx.answer("Cancelled");
+    await ctx.edit("Rollback cancelled.").catch(() => {});
+  });
+
+  function renderPage(doc: PagedDocument, page: number): { html: string; keyboard: Keyboard } {
+    const all = paginate(doc.content);
+    const index = Math.min(Math.max(page, 0), all.length - 1);
+    const keyboard = new Keyboard();
+    if (all.length > 1) {
+      keyboard.text(index > 0 ? "◀" : " ", index > 0 ? `page:${doc.id}:${index - 1}` : "page:noop");
+      keyboard.text(`Page ${index + 1}/${all.length}`, "page:noop");
+      keyboard.text(index < all.length - 1 ? "▶" : " ", index < all.length - 1 ? `page:${doc.id}:${index + 1}` : "page:noop");
+      keyboard.row();
+    }
+    keyboard.text("⬇️ Download as file", `page:dl:${doc.id}`);
+    const html = `📖 <b>${escapeHtml(truncate(doc.title, 100))}</b>\n${codeBlock(all[index])}`;
+    return { html, keyboard };
+  }
+
+  // Documents are stored per user, so other users' ids are simply not found
+  router.action(/^page:([0-9a-f]+):(\d+)$/, async (ctx) => {
+    const doc = pages.get(ctx.from.id, ctx.match[1]);
+    if (!doc) {
+      await ctx.answer("Output no longer available");
+      return;
+    }
+    await ctx.answer();
+    const { html, keyboard } = renderPage(doc, parseInt(ctx.match[2], 10));
+    // The first click opens the pager as a new message; later ones turn its pages
+    if (ctx.action?.messageText?.startsWith("📖")) {
+      await ctx.edit(html, { format: "html", keyboard }).catch(() => {});
+    } else {
+      await ctx.reply(html, { format: "html", keyboard });
+    }
+  });
+
+  router.action(/^page:dl:([0-9a-f]+)$/, async (ctx) => {
+    const doc = pages.get(ctx.from.id, ctx.match[1]);
+    if (!doc) {
+      await ctx.answer("Output no longer available");
+      return;
+    }
+    await ctx.answer();
+    await ctx.replyWithFile(
+      { data: Buffer.from(doc.content + "\n"), filename: `output-${doc.id}.txt` },
+      { caption: truncate(doc.title, 200) }
+    );
+  });
 
-export function createBot(config: BotConfig): Bot {
-  const bot = new Bot(config.token);
-  const sessions = new Map<number, UserSession>();
+  router.action("page:noop", (ctx) => ctx.answer());
 
-  function getSession(userId: number): UserSession {
-    if (!sessions.has(userId)) {
-      sessions.set(userId, {
-        agent: null,
-        sessionId: null,
-        cwd: config.projectRoot || process.env.HOME || "/",
-        statusMsgId: null,
-        outputMsgId: null,
-        responseMsgId: null,
-        lastStatus: "",
-        isProcessing: false,
-      });
+  router.command("find", async (ctx) => {
+    const query = ctx.match?.trim();
+    if (!query) {
+      await ctx.reply("Usage: `/find <text>` - search the last long output", { format: "markdown" });
+      return;
+    }
+    const doc = pages.latest(ctx.from.id);
+    if (!doc) {
+      await ctx.reply("No long output to search yet.");
+      return;
     }
-    return sessions.get(userId)!;
-  }
 
-  async function killAgent(session: UserSession): Promise<void> {
+    const matches = searchDocument(doc.content, query);
+    if (matches.length === 0) {
+      await ctx.reply(`No matches for "${query}" in ${doc.title}.`);
+      return;
+    }
+
+    const lines = [`🔎 <b>${matches.length} match${matches.length === 1 ? "" : "es"}</b> in ${escapeHtml(truncate(doc.title, 80))}`];
+    for (const match of matches.slice(0, 15)) {
+      lines.push(`<code>${match.line}</code> ${escapeHtml(truncate(match.text.trim(), 120))}`);
+    }
+    if (matches.length > 15) lines.push(`... and ${matches.length - 15} more`);
+
+    const keyboard = new Keyboard();
+    [...new Set(matches.map((m) => m.page))].slice(0, 8).forEach((page, i) => {
+      keyboard.text(`Page ${page + 1}`, `page:${doc.id}:${page}`);
+      if (i % 4 === 3) keyboard.row();
+    });
+    await ctx.reply(lines.join("\n"), { format: "html", keyboard });
+  });
+
+  // Scheduled jobs borrow the owner's session for a new conversation, as if the prompt was typed.
+  // The directory and conversation they were in come back once the run ends.
+  async function runScheduledJob(job: ScheduledJob): Promise<RunOutcome> {
+    const ctx = new ChatContext(messenger, { chatId: job.chatId, from: { id: job.userId } }, undefined);
+    const user = users.get(job.userId);
+    if (!user || !hasRole(user, "developer") || !canAccessPath(user, job.cwd)) {
+      await ctx.reply(`⛔ Scheduled job #${job.id} not run: no access to ${job.cwd}`);
+      return "failed";
+    }
+    if (!fs.existsSync(job.cwd)) {
+      await ctx.reply(`❌ Scheduled job #${job.id} not run: ${job.cwd} doesn't exist`);
+      return "failed";
+    }
+
+    const session = getSession(job.userId);
+    if (session.isProcessing) {
+      if (job.ifBusy === "skip") {
+        await ctx.reply(`⏭ Skipped scheduled job #${job.id} (${job.when}): a task was running.`);
+      } else if (!job.queued) {
+        await ctx.reply(`⏳ Scheduled job #${job.id} (${job.when}) will start when the current task finishes.`);
+      }
+      return "busy";
+    }
+
+    const previous = {
+      cwd: session.cwd,
+      sessionId: session.sessionId,
+      agentType: session.agentType,
+      taskCostUsd: session.taskCostUsd,
+    };
+    let restored = false;
+    const restore = async () => {
+      if (restored) return;
+      restored = true;
+      // Left alone if the user switched directory during the run
+      if (session.cwd !== job.cwd) return;
+      if (session.agent) {
+        await session.agent.stop();
+        session.agent = null;
+      }
+      session.isProcessing = false;
+      session.cwd = previous.cwd;
+      session.sessionId = previous.sessionId;
+      session.agentType = previous.agentType;
+      session.taskCostUsd = previous.taskCostUsd;
+      saveSessions();
+      if (previous.sessionId || previous.cwd !== job.cwd) {
+        await ctx.reply(`↩️ Scheduled job #${job.id} finished. Back to your conversation in ${previous.cwd}.`);
+      }
+    };
+
     if (session.agent) {
       await session.agent.stop();
       session.agent = null;
     }
     session.sessionId = null;
-    session.isProcessing = false;
+    session.cwd = job.cwd;
+    session.taskCostUsd = 0;
+    saveSessions();
+    await ctx.reply(`⏰ Scheduled job #${job.id} (${job.when})\n📁 ${job.cwd}\n\n${job.prompt}`);
+    await handleMessage(ctx, session, job.prompt, undefined, restore);
+    // Refused before the agent started, e.g. by the budget
+    if (!session.isProcessing) await restore();
+    return "started";
   }
 
-  function resetMessageBlocks(session: UserSession): void {
-    session.statusMsgId = null;
-    session.outputMsgId = null;
-    session.responseMsgId = null;
-    session.lastStatus = "";
+  function formatJob(job: ScheduledJob, showOwner: boolean): string {
+    const flags = [
+      `next ${formatRunTime(job.nextRunAt)}`,
+      job.queued ? "⏳ waiting" : "",
+      job.ifBusy === "skip" ? "skipped if busy" : "",
+      showOwner ? `user ${job.userId}` : "",
+    ].filter(Boolean);
+    const lines = [
+      `<b>#${job.id}</b> ${escapeHtml(job.when)} · ${flags.join(" · ")}`,
+      `📁 <code>${escapeHtml(job.cwd)}</code>`,
+      `<i>${escapeHtml(truncate(job.prompt, 120))}</i>`,
+    ];
+    if (job.lastRunAt) {
+      lines.push(`Last run: ${job.lastOutcome} ${formatRelativeTime(new Date(job.lastRunAt), new Date())}`);
+    }
+    return lines.join("\n");
   }
 
-  function createAgent(options: AgentOptions, onEvent: (event: NormalizedEvent) => void): CodingAgent {
-    if (config.agent === "opencode") {
-      return new OpenCodeAgent(options, onEvent);
+  // Admins see everyone's jobs
+  function renderSchedules(userId: number): { text: string; keyboard?: Keyboard } {
+    const isAdmin = hasRole(users.get(userId)!, "admin");
+    const jobs = scheduler.list(isAdmin ? undefined : userId);
+    if (jobs.length === 0) {
+      return { text: "No scheduled jobs. Add one with /schedule." };
     }
-    return new ClaudeAgent(options, onEvent);
+    const keyboard = new Keyboard();
+    jobs.forEach((job, i) => {
+      keyboard.text(`🗑 #${job.id}`, `sched:rm:${job.id}`);
+      if (i % 4 === 3) keyboard.row();
+    });
+    const list = jobs.map((job) => formatJob(job, job.userId !== userId)).join("\n\n");
+    return { text: `<b>Scheduled jobs</b>\n\n${list}`, keyboard };
   }
 
-  // Debug middleware
-  bot.use(async (ctx, next) => {
-    console.log(`[UPDATE] ${ctx.update.update_id} from ${ctx.from?.id} (${ctx.from?.username})`);
-    await next();
-  });
+  function unschedule(userId: number, id: number): string {
+    const job = scheduler.get(id);
+    if (!job) return `No scheduled job #${id}.`;
+    if (job.userId !== userId && !hasRole(users.get(userId)!, "admin")) {
+      return `⛔ Job #${id} belongs to another user.`;
+    }
+    scheduler.remove(id);
+    return `🗑 Removed scheduled job #${id} (${job.when}).`;
+  }
 
-  // Auth middleware
-  bot.use(async (ctx, next) => {
-    const userId = ctx.from?.id;
-    if (userId !== config.allowedUserId) {
-      console.log(`[AUTH] Denied: ${userId} != ${config.allowedUserId}`);
+  router.command("schedule", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const session = getSession(ctx.from.id);
+    const input = ctx.match?.trim();
+    if (!input) {
+      await ctx.reply(SCHEDULE_USAGE);
+      return;
+    }
+
+    let request: ScheduleRequest;
+    try {
+      request = parseScheduleRequest(input);
+    } catch (e) {
+      await ctx.reply(`❌ ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+
+    const cwd = request.cwd ? resolvePath(request.cwd, session.cwd, process.env.HOME || "") : session.cwd;
+    if (!(await requirePathAccess(ctx, cwd))) return;
+    if (!fs.existsSync(cwd) || !fs.statSync(cwd).isDirectory()) {
+      await ctx.reply(`❌ Not a directory: ${cwd}`);
       return;
     }
-    console.log(`[AUTH] Allowed: ${userId}`);
-    await next();
-  });
 
-  bot.command("start", async (ctx) => {
-    const session = getSession(ctx.from!.id);
+    let job: ScheduledJob;
+    try {
+      job = scheduler.add(ctx.from.id, ctx.chatId, { ...request, cwd });
+    } catch (e) {
+      await ctx.reply(`❌ ${e instanceof Error ? e.message : e}`);
+      return;
+    }
     await ctx.reply(
-      `*Claude Code Bridge*\n\n` +
-        `Send me a message and I'll process it with Claude Code.\n\n` +
-        `*Commands:*\n` +
-        `/new - Start new conversation\n` +
-        `/stop - Stop current task\n` +
-        `/status - Show current status\n` +
-        `/cd <path> - Change working directory\n\n` +
-        `Current directory: \`${session.cwd}\``,
-      { parse_mode: "Markdown" }
+      `⏰ Scheduled #${job.id}: ${job.when}\n📁 ${cwd}\nNext run: ${formatRunTime(job.nextRunAt)}` +
+        (job.ifBusy === "skip" ? " (skipped if a task is running)" : "")
     );
   });
 
-  bot.command("new", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    await killAgent(session);
-    await ctx.reply("Started new conversation.");
+  router.command("schedules", async (ctx) => {
+    const { text, keyboard } = renderSchedules(ctx.from.id);
+    await ctx.reply(text, { format: "html", keyboard });
   });
 
-  bot.command("stop", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    if (session.isProcessing) {
-      await killAgent(session);
-      await ctx.reply("Stopped. Use /resume to continue.");
-    } else {
-      await ctx.reply("No task running.");
+  router.command("unschedule", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const id = parseInt((ctx.match || "").trim().replace(/^#/, ""), 10);
+    if (isNaN(id)) {
+      await ctx.reply("Usage: /unschedule <id> (see /schedules)");
+      return;
     }
+    await ctx.reply(unschedule(ctx.from.id, id));
   });
 
-  bot.command("status", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    const status = [
-      `*Status*`,
-      `Project: \`${session.cwd}\``,
-      `Session: ${session.sessionId ? `\`${session.sessionId.slice(0, 8)}...\`` : "none"}`,
-      `Processing: ${session.isProcessing ? "yes" : "no"}`,
-    ].join("\n");
-    await ctx.reply(status, { parse_mode: "Markdown" });
+  router.action(/^sched:rm:(\d+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    await ctx.answer(unschedule(ctx.from.id, parseInt(ctx.match[1], 10)));
+    const { text, keyboard } = renderSchedules(ctx.from.id);
+    await ctx.edit(text, { format: "html", keyboard });
   });
 
-  bot.callbackQuery(/^expand:(.+)/, async (ctx) => {
-    const msgId = ctx.match[1];
-    const fullText = longMessages.get(msgId);
-
-    if (!fullText) {
-      await ctx.answerCallbackQuery("Message expired");
-      return;
-    }
+  function commands(): BotCommand[] {
+    const base = config.commands || [];
+    const macroCommands = macros
+      .list()
+      .filter((macro) => !base.some((c) => c.command === macro.name))
+      .map((macro) => ({ command: macro.name, description: truncate(macro.template.replace(/\s+/g, " "), 60) }));
+    return [...base, ...macroCommands];
+  }
 
-    await ctx.answerCallbackQuery();
+  async function updateCommands(): Promise<void> {
     try {
-      await ctx.editMessageText(fullText, { parse_mode: "Markdown" });
-    } catch {
-      await ctx.reply(fullText, { parse_mode: "Markdown" });
+      await messenger.setCommands(commands());
+    } catch (e) {
+      console.error("Failed to update commands menu:", e);
     }
-    longMessages.delete(msgId);
-  });
+  }
+
+  function formatMacro(macro: MacroEntry): string {
+    return `<b>/${macro.name}</b>\n<i>${escapeHtml(truncate(macro.template, 200))}</i>`;
+  }
 
-  function getLastSessionSummary(cwd: string): string | null {
+  // Expand a macro in the session's directory and send it like a typed message
+  async function runMacro(ctx: ChatContext, session: UserSession, macro: MacroEntry, argsText: string) {
+    if (!(await requirePathAccess(ctx, session.cwd))) return;
+    const branch = macro.template.includes("{branch}") ? await currentBranch(session.cwd) : null;
+    let prompt: string;
     try {
-      const projectKey = cwd.replace(/\//g, "-");
-      const sessionDir = path.join(
-        process.env.HOME || "",
-        ".claude",
-        "projects",
-        projectKey
-      );
-      if (!fs.existsSync(sessionDir)) return null;
-
-      const files = fs
-        .readdirSync(sessionDir)
-        .filter((f) => f.endsWith(".jsonl"))
-        .map((f) => ({
-          name: f,
-          path: path.join(sessionDir, f),
-          mtime: fs.statSync(path.join(sessionDir, f)).mtime,
-          size: fs.statSync(path.join(sessionDir, f)).size,
-        }))
-        .filter((f) => f.size > 0)
-        .sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-
-      if (files.length === 0) return null;
-
-      const content = fs.readFileSync(files[0].path, "utf-8");
-      const lines = content.split("\n").filter((l) => l.trim());
-      for (let i = lines.length - 1; i >= 0; i--) {
-        try {
-          const obj = JSON.parse(lines[i]);
-          if (obj.summary) return obj.summary;
-        } catch {
-          continue;
-        }
-      }
-      return null;
-    } catch {
-      return null;
+      prompt = expandMacro(macro, argsText, { cwd: session.cwd, branch });
+    } catch (e) {
+      await ctx.reply(`❌ ${e instanceof Error ? e.message : e}`);
+      return;
     }
+    await ctx.reply(`▶ /${macro.name}\n\n${prompt}`);
+    await handleMessage(ctx, session, prompt);
   }
 
-  bot.command("resume", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    await killAgent(session);
-    session.sessionId = "continue";
+  router.command("macro", async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const usage =
+      `Usage:\n` +
+      `/macro add <name> <template> - {placeholders} are filled from /m arguments, {cwd} and {branch} automatically\n` +
+      `/macro remove <name>`;
+    const match = (ctx.match || "").match(/^(add|remove)\s+(\S+)(?:\s+([\s\S]+))?$/);
+    if (!match) {
+      await ctx.reply(usage);
+      return;
+    }
+    const [, action, rawName, template] = match;
+    const name = rawName.replace(/^\//, "").toLowerCase();
+    const persistNote = () => (macrosPersisted ? "" : "\n⚠️ Not saved to config, change lasts until restart.");
 
-    const summary = getLastSessionSummary(session.cwd);
-    let msg = `📂 \`${session.cwd}\`\n`;
-    if (summary) {
-      msg += `\n📋 *Last session:*\n${summary}\n`;
+    if (action === "remove") {
+      if (!macros.remove(name)) {
+        await ctx.reply(`No macro named ${name}.`);
+        return;
+      }
+      await updateCommands();
+      await ctx.reply(`🗑 Removed /${name}.${persistNote()}`);
+      return;
     }
-    msg += `\nSend a message to continue.`;
 
-    await ctx.reply(msg, { parse_mode: "Markdown" });
+    if (!template) {
+      await ctx.reply(usage);
+      return;
+    }
+    if (!MACRO_NAME_PATTERN.test(name)) {
+      await ctx.reply("❌ Macro names are 1-32 lowercase letters, digits and _, starting with a letter.");
+      return;
+    }
+    if (name === "m" || router.hasCommand(name)) {
+      await ctx.reply(`❌ /${name} is a built-in command.`);
+      return;
+    }
+    const existing = macros.get(name);
+    macros.set({ name, template: template.trim() });
+    await updateCommands();
+    await ctx.reply(
+      `${existing ? "Updated" : "Saved"} /${name}. Run it with ${macroUsage(macros.get(name)!)}${persistNote()}`
+    );
   });
 
-  bot.command("cd", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    let targetPath = ctx.match?.trim();
-    if (!targetPath) {
-      await ctx.reply(`Current directory: \`${session.cwd}\`\n\nUsage: \`/cd <path>\``, {
-        parse_mode: "Markdown",
-      });
+  router.command("macros", async (ctx) => {
+    const list = macros.list();
+    if (list.length === 0) {
+      await ctx.reply("No macros yet. Add one with /macro add <name> <template>.");
       return;
     }
+    const keyboard = new Keyboard();
+    list.forEach((macro, i) => {
+      keyboard.text(`▶ ${macro.name}`, `macro:run:${macro.name}`);
+      if (i % 3 === 2) keyboard.row();
+    });
+    await ctx.reply(`<b>Macros</b>\n\n${list.map(formatMacro).join("\n\n")}`, { format: "html", keyboard });
+  });
 
-    if (targetPath.startsWith("~")) {
-      targetPath = targetPath.replace("~", process.env.HOME || "");
-    }
-    if (!targetPath.startsWith("/")) {
-      targetPath = `${session.cwd}/${targetPath}`;
+  router.command("m", async (ctx) => {
+    const [, name, argsText] = (ctx.match || "").match(/^\/?(\S+)\s*([\s\S]*)$/) || [];
+    const macro = name ? macros.get(name) : undefined;
+    if (!macro) {
+      await ctx.reply(name ? `No macro named ${name}. See /macros.` : "Usage: /m <name> [arguments] (see /macros)");
+      return;
     }
+    await runMacro(ctx, getSession(ctx.from.id), macro, argsText);
+  });
 
-    if (session.agent) {
-      await session.agent.stop();
-      session.agent = null;
+  // Macros with parameters ask for their arguments in the next message
+  router.action(/^macro:run:(\w+)$/, async (ctx) => {
+    if (!(await requireRole(ctx, "developer"))) return;
+    const macro = macros.get(ctx.match[1]);
+    if (!macro) {
+      await ctx.answer("That macro no longer exists.");
+      return;
     }
-    session.sessionId = null;
-    session.cwd = targetPath;
-
-    await ctx.reply(`Changed to: \`${targetPath}\``, { parse_mode: "Markdown" });
+    await ctx.answer();
+    const session = getSession(ctx.from.id);
+    const parameters = macroParameters(macro.template);
+    if (parameters.length === 0) {
+      await runMacro(ctx, session, macro, "");
+      return;
+    }
+    session.pendingMacro = macro.name;
+    await ctx.reply(`Send ${parameters.map((p) => `<${p}>`).join(" ")} for /${macro.name}`);
   });
 
-  bot.hears(/^!(.+)/, async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    const command = ctx.match[1];
+  router.on("text", async (ctx) => {
+    const session = getSession(ctx.from.id);
+    const text = ctx.message.text!;
 
-    if (command.startsWith("cd ")) {
-      let targetPath = command.slice(3).trim();
-      if (targetPath.startsWith("~")) {
-        targetPath = targetPath.replace("~", process.env.HOME || "");
-      }
-      if (!targetPath.startsWith("/")) {
-        targetPath = `${session.cwd}/${targetPath}`;
-      }
-      const parts = targetPath.split("/").filter(Boolean);
-      const resolved: string[] = [];
-      for (const part of parts) {
-        if (part === "..") resolved.pop();
-        else if (part !== ".") resolved.push(part);
+    if (session.denyReasonFor) {
+      const id = session.denyReasonFor;
+      session.denyReasonFor = null;
+      if (session.permissions.answer(id, { behavior: "deny", message: text })) {
+        return;
       }
-      session.cwd = "/" + resolved.join("/");
-      await killAgent(session);
-      await ctx.reply(`\`${session.cwd}\``, { parse_mode: "Markdown" });
-      return;
     }
 
-    exec(command, { cwd: session.cwd }, async (error, stdout, stderr) => {
-      let output = stdout || stderr || "(no output)";
-      if (output.length > 4000) {
-        output = output.slice(0, 4000) + "\n... (truncated)";
+    if (session.pendingMacro) {
+      const macro = macros.get(session.pendingMacro);
+      session.pendingMacro = null;
+      if (macro) {
+        await runMacro(ctx, session, macro, text);
+        return;
       }
-      const status = error ? `\n\n[exit ${error.code}]` : "";
-      await ctx.reply(`\`\`\`\n${output}${status}\n\`\`\``, { parse_mode: "Markdown" });
-    });
-  });
-
-  bot.on("message:photo", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    const caption = ctx.message.caption || "What's in this image?";
-
-    const photo = ctx.message.photo[ctx.message.photo.length - 1];
-    const file = await ctx.api.getFile(photo.file_id);
-    const fileUrl = `https://api.telegram.org/file/bot${config.token}/${file.file_path}`;
-
-    const tempPath = `/tmp/tgcc_image_${Date.now()}.jpg`;
-    const https = await import("https");
-    const fsModule = await import("fs");
-
-    await new Promise<void>((resolve, reject) => {
-      const fileStream = fsModule.createWriteStream(tempPath);
-      https.get(fileUrl, (response) => {
-        response.pipe(fileStream);
-        fileStream.on("finish", () => {
-          fileStream.close();
-          resolve();
-        });
-      }).on("error", reject);
-    });
+    }
 
-    await handleMessage(ctx, session, caption, tempPath);
-  });
+    // Macros from the commands menu arrive as /<name>, which no command route claims
+    const command = text.match(/^\/([a-z0-9_]+)(?:@\S+)?(?:\s+([\s\S]*))?$/);
+    const macro = command ? macros.get(command[1]) : undefined;
+    if (macro) {
+      await runMacro(ctx, session, macro, command![2] || "");
+      return;
+    }
 
-  bot.on("message:text", async (ctx) => {
-    const session = getSession(ctx.from!.id);
-    const text = ctx.message.text;
     await handleMessage(ctx, session, text);
   });
 
-  async function handleMessage(ctx: Context, session: UserSession, text: string, imagePath?: string) {
+  // onFinish runs once when the turn ends, crashes or fails to start
+  async function handleMessage(
+    ctx: ChatContext,
+    session: UserSession,
+    text: string,
+    imagePath?: string,
+    onFinish?: () => Promise<void>
+  ) {
+    if (!(await requirePathAccess(ctx, session.cwd))) return;
+
     if (session.isProcessing && session.agent) {
+      if (session.transcript) startTurn(session.transcript, text);
       await session.agent.sendMessage(text, imagePath);
       return;
     }
 
+    const dailyLimit = config.budget?.dailyUsd;
+    if (dailyLimit && costs.today().costUsd >= dailyLimit) {
+      await ctx.reply(`🛑 Daily budget of ${formatUsd(dailyLimit)} reached. New tasks are paused until tomorrow.`);
+      return;
+    }
+
+    const taskLimit = config.budget?.taskUsd;
+    if (taskLimit && session.taskCostUsd >= taskLimit) {
+      await ctx.reply(
+        `🛑 This task has used ${formatUsd(session.taskCostUsd)} of its ${formatUsd(taskLimit)} budget. ` +
+          `Start a new one with /new.`
+      );
+      await onFinish?.();
+      return;
+    }
+
     session.isProcessing = true;
     resetMessageBlocks(session);
 
     const statusMsg = await ctx.reply("💭 Thinking...");
-    session.statusMsgId = statusMsg.message_id;
+    session.statusMsgId = statusMsg.messageId;
+    session.chatId = ctx.chatId;
     session.lastStatus = "Thinking...";
+    saveSessions();
+
+    session.checkpoint = null;
+    if (config.checkpoints !== false) {
+      try {
+        session.checkpoint = await checkpoints.create(session.cwd, text);
+      } catch (e) {
+        console.error("Failed to create checkpoint:", e);
+      }
+    }
+
+    const isFullMode = session.streamMode === "full";
+
+    // A new conversation, or another agent or directory, starts a new transcript
+    const previous = session.transcript;
+    const transcript: Transcript =
+      previous &&
+      previous.sessionId === session.sessionId &&
+      previous.agent === session.agentType &&
+      previous.cwd === session.cwd
+        ? previous
+        : { title: null, cwd: session.cwd, agent: session.agentType, sessionId: session.sessionId, turns: [] };
+    session.transcript = transcript;
+    startTurn(transcript, text);
 
-    const isFullMode = config.streamMode === "full";
+    // Set once the turn is stopped for going over budget; its spend is already recorded
+    let stoppedForBudget = false;
 
     const handleEvent = async (event: NormalizedEvent) => {
-      await processNormalizedEvent(ctx, session, event, isFullMode);
+      if (stoppedForBudget) return;
+      recordEvent(transcript, event);
+      if (event.type === "tool_use") {
+        audit.record({ type: "tool", userId: ctx.from.id, cwd: session.cwd, tool: event.tool, input: event.input });
+      }
+      if (event.type === "cost") {
+        stoppedForBudget = await checkRunningCost(ctx, session, event.costUsd);
+        if (stoppedForBudget) await onFinish?.();
+        return;
+      }
+      await processNormalizedEvent(ctx, session, event, isFullMode, pages);
+      if (event.type === "done") {
+        await trackCost(ctx, session, event);
+      }
+      if (event.type === "init" || event.type === "done") {
+        saveSessions();
+      }
+      if (event.type === "done") await onFinish?.();
     };
 
     const options: AgentOptions = {
       cwd: session.cwd,
-      permissionMode: "bypassPermissions",
+      permissionMode: session.permissionMode,
       sessionId: session.sessionId || undefined,
+      onPermissionRequest: (request) => requestPermission(ctx, session, request),
     };
 
-    session.agent = createAgent(options, handleEvent);
+    session.agent = createAgent(session.agentType, options, handleEvent);
+    const agentType = session.agentType;
+    const cwd = session.cwd;
 
     session.agent.setOnClose(async (code, stderr) => {
+      audit.record({ type: "agent", userId: ctx.from.id, cwd, event: "stop", agent: agentType, exitCode: code });
       if (session.isProcessing) {
         session.isProcessing = false;
+        saveSessions();
         const errorMsg = stderr.trim() || `Process exited with code ${code}`;
         console.error("Agent exited while processing:", errorMsg);
-        await updateStatusBlock(ctx, session, `❌ Crashed`);
+        await urgent(() => updateStatusBlock(ctx, session, `❌ Crashed`));
         if (errorMsg.length > 0 && errorMsg.length < 500) {
-          await ctx.reply(`\`\`\`\n${errorMsg}\n\`\`\``, { parse_mode: "Markdown" });
+          await ctx.reply(codeBlock(errorMsg), { format: "html" });
         }
+        await onFinish?.();
       }
     });
 
+    audit.record({
+      type: "agent",
+      userId: ctx.from.id,
+      cwd,
+      event: "start",
+      agent: agentType,
+      sessionId: session.sessionId,
+    });
     try {
       await session.agent.start(text, imagePath);
     } catch (e) {
       console.error("Failed to start agent:", e);
       await ctx.reply("❌ Error: " + e);
       session.isProcessing = false;
+      saveSessions();
+      await onFinish?.();
+    }
+  }
+
+  // Stop timers and kill whatever `!` started
+  function shutdown(): Promise<void> {
+    scheduler.stop();
+    tailTimers.forEach((timer) => clearInterval(timer));
+    tailTimers.clear();
+    shellRuns.forEach((run) => run.kill());
+    return jobs.stopAll();
+  }
+
+  return {
+    messenger,
+    commands,
+    start: () => {
+      scheduler.start();
+      return messenger.start((update) => router.handle(messenger, update)).finally(shutdown);
+    },
+    stop: async () => {
+      await shutdown();
+      await messenger.stop();
+    },
+  };
+}
+
+function shellOutcome(result: ShellResult): ShellAuditEntry["outcome"] {
+  if (result.error) return "failed";
+  if (result.timedOut) return "timeout";
+  if (result.killed) return "killed";
+  return "ran";
+}
+
+function formatShellResult(result: ShellResult): string {
+  const seconds = `${(result.durationMs / 1000).toFixed(1)}s`;
+  let status: string;
+  if (result.error) status = `❌ Could not run: ${escapeHtml(result.error)}`;
+  else if (result.timedOut) status = `⏱ Timed out after ${seconds}`;
+  else if (result.killed) status = `⏹ Killed after ${seconds}`;
+  else status = `${result.exitCode === 0 ? "✅" : "❌"} exit ${result.exitCode ?? result.signal} · ${seconds}`;
+
+  if (result.error) return status;
+  if (result.outputFile) {
+    status += `\nOutput is ${formatBytes(result.outputBytes)}, showing the end; the full log is attached.`;
+  }
+  return `${status}\n${codeBlock(result.output.trimEnd() || "(no output)")}`;
+}
+
+/**
+ * Send a local file to the chat, as a photo for images and a document otherwise
+ */
+async function sendFile(ctx: ChatContext, filePath: string): Promise<void> {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    await ctx.reply(`❌ Not found: \`${filePath}\``, { format: "markdown" });
+    return;
+  }
+  if (!stat.isFile()) {
+    await ctx.reply(`❌ Not a file: \`${filePath}\``, { format: "markdown" });
+    return;
+  }
+  if (stat.size > MAX_DOCUMENT_BYTES) {
+    await ctx.reply(`❌ Too large to send (${formatBytes(stat.size)}): \`${filePath}\``, { format: "markdown" });
+    return;
+  }
+
+  try {
+    if (IMAGE_EXTENSIONS.test(filePath) && stat.size <= MAX_PHOTO_BYTES) {
+      await ctx.replyWithFile({ path: filePath }, { caption: path.basename(filePath), photo: true });
+    } else {
+      await ctx.replyWithFile({ path: filePath });
     }
+  } catch (e) {
+    console.error("Failed to send file:", e);
+    await ctx.reply(`❌ Could not send \`${path.basename(filePath)}\``, { format: "markdown" });
+  }
+}
+
+/**
+ * Diff an Edit/MultiEdit/Write call against the file as it is now.
+ * Best effort: the agent doesn't wait for us to read its output, so without a permission
+ * prompt (bypass mode, aider) the file may already be changed and the diff comes out empty.
+ */
+function renderToolDiff(tool: string, input: Record<string, unknown>, filePath: string, cwd: string): string {
+  let current: string | null = null;
+  try {
+    current = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    // New file
+  }
+  const change = previewToolChange(tool, input, current);
+  if (!change) return "";
+  const relative = filePath.startsWith(cwd + "/") ? path.relative(cwd, filePath) : filePath;
+  return createUnifiedDiff(relative, change.oldText, change.newText);
+}
+
+/**
+ * Send a diff as a highlighted code block, or as a .diff document when large
+ */
+async function sendDiff(ctx: ChatContext, header: string, diff: string, filename: string): Promise<void> {
+  if (diff.length > DIFF_INLINE_LIMIT) {
+    await ctx.replyWithFile({ data: Buffer.from(diff + "\n"), filename }, { caption: header });
+    return;
+  }
+  const formatted = `${escapeHtml(header)}\n${codeBlock(diff, "diff")}`;
+  await ctx.reply(formatted, { format: "html" }).catch(() => ctx.reply(`${header}\n${diff}`));
+}
+
+/**
+ * Offer the files touched during a turn with a "Send files" keyboard,
+ * plus "Show all changes" when diffs were recorded
+ */
+async function offerTurnFiles(ctx: ChatContext, session: UserSession): Promise<void> {
+  const files = [...session.turnFiles].filter((f) => fs.existsSync(f));
+  session.turnFiles.clear();
+  session.lastTurnDiff = session.turnDiffs.join("\n");
+  session.turnDiffs = [];
+  if (files.length === 0 && !session.lastTurnDiff) return;
+
+  session.offeredFiles = files;
+  const keyboard = new Keyboard();
+  files.slice(0, 10).forEach((file, i) => {
+    keyboard.text(`📄 ${truncate(path.basename(file), 30)}`, `files:${i}`).row();
+  });
+  if (files.length > 1) {
+    keyboard.text(`📦 Send all (${files.length})`, "files:all").row();
   }
+  if (session.lastTurnDiff) {
+    keyboard.text("🔍 Show all changes", "diffs:show");
+  }
+
+  const list = files.length
+    ? files.map((f) => `• \`${path.relative(session.cwd, f) || f}\``).join("\n")
+    : "(no files left on disk)";
+  await ctx
+    .reply(`📁 *Files changed:*\n${list}`, { format: "markdown", keyboard })
+    .catch(() => ctx.reply(`📁 Files changed:\n${list.replace(/`/g, "")}`, { keyboard }));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
-  return bot;
+function formatPermissionRequest(request: PermissionRequest): string {
+  const display = formatToolUse({
+    type: "tool_use",
+    id: "",
+    name: request.tool,
+    input: request.input,
+  });
+  let text = `🔐 <b>Permission requested: ${escapeHtml(request.tool)}</b>\n${escapeHtml(display)}`;
+  if (request.tool === "Bash" && typeof request.input.command === "string") {
+    text += `\n${codeBlock(request.input.command.slice(0, 1000), "bash")}`;
+  }
+  return text;
 }
 
 async function processNormalizedEvent(
-  ctx: Context,
+  ctx: ChatContext,
   session: UserSession,
   event: NormalizedEvent,
-  isFullMode: boolean
+  isFullMode: boolean,
+  pages: PageStore
 ): Promise<void> {
   switch (event.type) {
     case "init":
@@ -359,31 +2483,45 @@ async function processNormalizedEvent(
       break;
 
     case "tool_use": {
+      const input = event.input || {};
+      const filePath = getToolFilePath(event.tool, input);
+      let diff = "";
+      if (filePath) {
+        const absolute = resolvePath(filePath, session.cwd, process.env.HOME || "");
+        session.turnFiles.add(absolute);
+        recordFileBackup(session.checkpoint, absolute);
+        diff = renderToolDiff(event.tool, input, absolute, session.cwd);
+        if (diff) session.turnDiffs.push(diff);
+      }
       const toolDisplay = formatToolUse({
         type: "tool_use",
         id: "",
         name: event.tool,
-        input: event.input || {},
+        input,
       });
       session.lastStatus = toolDisplay;
       if (isFullMode) {
-        await ctx.reply(`🔧 ${toolDisplay}`);
+        if (diff) {
+          await sendDiff(ctx, `🔧 ${toolDisplay}`, diff, `${path.basename(filePath!)}.diff`);
+        } else {
+          await ctx.reply(`🔧 ${toolDisplay}`);
+        }
       } else {
         await updateStatusBlock(ctx, session, `🔧 ${toolDisplay}`);
+        if (diff) {
+          await updateDiffBlock(ctx, session, diff);
+        }
       }
       break;
     }
 
     case "tool_output": {
       if (event.output?.trim()) {
+        const { html, keyboard } = previewOutput(ctx, session, event.output, pages);
         if (isFullMode) {
-          let text = event.output.trim();
-          if (text.length > 1000) {
-            text = text.slice(0, 1000) + "\n... (truncated)";
-          }
-          await ctx.reply(`📤 \`\`\`\n${text}\n\`\`\``, { parse_mode: "Markdown" });
+          await ctx.reply(html, { format: "html", keyboard });
         } else {
-          await updateOutputBlock(ctx, session, event.output);
+          await setOutputBlock(ctx, session, html, keyboard);
         }
       }
       break;
@@ -393,9 +2531,9 @@ async function processNormalizedEvent(
       const text = stripThinkingTags(event.content || "");
       if (text) {
         if (isFullMode) {
-          await ctx.reply(`💬 ${text}`, { parse_mode: "Markdown" }).catch(() =>
-            ctx.reply(`💬 ${text}`)
-          );
+          for (const chunk of renderResponse(text, ctx.messenger.messageLimit)) {
+            await ctx.reply(chunk, { format: "html" }).catch(() => ctx.reply(htmlToPlainText(chunk)));
+          }
         } else {
           await updateStatusBlock(ctx, session, "💭 Responding...");
           await updateResponseBlock(ctx, session, text);
@@ -411,92 +2549,122 @@ async function processNormalizedEvent(
     case "done":
       session.isProcessing = false;
       if (isFullMode) {
-        const duration = event.durationMs ? `(${(event.durationMs / 1000).toFixed(1)}s)` : "";
-        await ctx.reply(`✅ Done ${duration}`);
+        const details = [
+          event.durationMs ? `${(event.durationMs / 1000).toFixed(1)}s` : "",
+          event.costUsd ? formatUsd(event.costUsd) : "",
+        ].filter(Boolean);
+        await ctx.reply(`✅ Done ${details.length ? `(${details.join(" · ")})` : ""}`);
       } else {
         if (session.statusMsgId) {
-          await updateStatusBlock(ctx, session, `✅ Done`);
+          const done = `✅ Done${event.costUsd ? ` · ${formatUsd(event.costUsd)}` : ""}`;
+          await urgent(() => updateStatusBlock(ctx, session, done));
         }
       }
       if (event.isError && event.content) {
         await ctx.reply(`❌ Error: ${event.content}`);
       }
+      await offerTurnFiles(ctx, session);
       break;
   }
 }
 
 async function updateStatusBlock(
-  ctx: Context,
+  ctx: ChatContext,
   session: UserSession,
   text: string
 ): Promise<void> {
   if (session.statusMsgId) {
     try {
-      await ctx.api.editMessageText(ctx.chat!.id, session.statusMsgId, text);
+      await ctx.editMessage(session.statusMsgId, text);
     } catch {
-      // Ignore edit errors
+      // Failures are logged by the outbox
     }
   }
 }
 
-async function updateOutputBlock(
-  ctx: Context,
+/**
+ * Tool output as a code block. Long output is stored in the pager
+ * and only its start is shown, with a button to page through the rest.
+ */
+function previewOutput(
+  ctx: ChatContext,
+  session: UserSession,
+  output: string,
+  pages: PageStore
+): { html: string; keyboard?: Keyboard } {
+  const text = output.trim();
+  if (text.length <= OUTPUT_PREVIEW_LIMIT) {
+    return { html: `📤 ${codeBlock(text)}` };
+  }
+  const doc = pages.save(ctx.from.id, session.lastStatus || "Tool output", text);
+  const count = paginate(text).length;
+  const keyboard = new Keyboard().text(`📖 Full output (${count} page${count === 1 ? "" : "s"})`, `page:${doc.id}:0`);
+  return { html: `📤 ${codeBlock(text.slice(0, OUTPUT_PREVIEW_LIMIT) + "\n...")}`, keyboard };
+}
+
+async function updateDiffBlock(
+  ctx: ChatContext,
   session: UserSession,
-  output: string
+  diff: string
 ): Promise<void> {
-  let text = output.trim();
-  if (text.length > 1000) {
-    text = text.slice(0, 1000) + "\n... (truncated)";
+  let text = diff;
+  if (text.length > DIFF_INLINE_LIMIT) {
+    text = text.slice(0, DIFF_INLINE_LIMIT) + "\n... (truncated, see Show all changes)";
   }
-  const formatted = `📤 \`\`\`\n${text}\n\`\`\``;
+  await setOutputBlock(ctx, session, `✏️ ${codeBlock(text, "diff")}`);
+}
 
+async function setOutputBlock(
+  ctx: ChatContext,
+  session: UserSession,
+  html: string,
+  keyboard?: Keyboard
+): Promise<void> {
   if (session.outputMsgId) {
     try {
-      await ctx.api.editMessageText(ctx.chat!.id, session.outputMsgId, formatted, {
-        parse_mode: "Markdown",
-      });
+      await ctx.editMessage(session.outputMsgId, html, { format: "html", keyboard });
     } catch {
-      const msg = await ctx.reply(formatted, { parse_mode: "Markdown" });
-      session.outputMsgId = msg.message_id;
+      const msg = await ctx.reply(html, { format: "html", keyboard });
+      session.outputMsgId = msg.messageId;
     }
   } else {
-    const msg = await ctx.reply(formatted, { parse_mode: "Markdown" });
-    session.outputMsgId = msg.message_id;
+    const msg = await ctx.reply(html, { format: "html", keyboard });
+    session.outputMsgId = msg.messageId;
   }
 }
 
+/**
+ * Agent text as HTML messages, the first one marked with 💬
+ */
+function renderResponse(text: string, limit: number): string[] {
+  const prefix = "💬 ";
+  const chunks = renderMarkdown(text, limit - prefix.length);
+  if (chunks.length) chunks[0] = prefix + chunks[0];
+  return chunks;
+}
+
 async function updateResponseBlock(
-  ctx: Context,
+  ctx: ChatContext,
   session: UserSession,
   text: string
 ): Promise<void> {
-  const formatted = `💬 ${text}`;
-
-  async function sendWithFallback(content: string, keyboard?: InlineKeyboard): Promise<number> {
+  async function send(html: string): Promise<number> {
     try {
-      const msg = await ctx.reply(content, {
-        parse_mode: "Markdown",
-        reply_markup: keyboard
-      });
-      return msg.message_id;
+      const msg = await ctx.reply(html, { format: "html" });
+      return msg.messageId;
     } catch {
-      const msg = await ctx.reply(content, { reply_markup: keyboard });
-      return msg.message_id;
+      const msg = await ctx.reply(htmlToPlainText(html));
+      return msg.messageId;
     }
   }
 
-  async function editWithFallback(msgId: number, content: string, keyboard?: InlineKeyboard): Promise<boolean> {
+  async function edit(msgId: number, html: string): Promise<boolean> {
     try {
-      await ctx.api.editMessageText(ctx.chat!.id, msgId, content, {
-        parse_mode: "Markdown",
-        reply_markup: keyboard,
-      });
+      await ctx.editMessage(msgId, html, { format: "html" });
       return true;
     } catch {
       try {
-        await ctx.api.editMessageText(ctx.chat!.id, msgId, content, {
-          reply_markup: keyboard,
-        });
+        await ctx.editMessage(msgId, htmlToPlainText(html));
         return true;
       } catch {
         return false;
@@ -504,32 +2672,17 @@ async function updateResponseBlock(
     }
   }
 
-  if (text.length > 1500) {
-    const truncated = `💬 ${text.slice(0, 1500)}\n\n...`;
-    const msgId = `msg_${Date.now()}`;
-    longMessages.set(msgId, formatted);
-    if (longMessages.size > 20) {
-      const firstKey = longMessages.keys().next().value;
-      if (firstKey) longMessages.delete(firstKey);
-    }
-    const keyboard = new InlineKeyboard().text("Show full message", `expand:${msgId}`);
-
-    if (session.responseMsgId) {
-      const edited = await editWithFallback(session.responseMsgId, truncated, keyboard);
-      if (!edited) {
-        session.responseMsgId = await sendWithFallback(truncated, keyboard);
-      }
-    } else {
-      session.responseMsgId = await sendWithFallback(truncated, keyboard);
-    }
-  } else {
-    if (session.responseMsgId) {
-      const edited = await editWithFallback(session.responseMsgId, formatted);
-      if (!edited) {
-        session.responseMsgId = await sendWithFallback(formatted);
-      }
+  // The response grows as the agent streams; edit the messages already sent
+  // and append new ones for the overflow
+  const chunks = renderResponse(text, ctx.messenger.messageLimit);
+  const ids = [session.responseMsgId, ...session.responseChunkIds];
+  for (let i = 0; i < chunks.length; i++) {
+    const existing = ids[i];
+    const id = existing && (await edit(existing, chunks[i])) ? existing : await send(chunks[i]);
+    if (i === 0) {
+      session.responseMsgId = id;
     } else {
-      session.responseMsgId = await sendWithFallback(formatted);
+      session.responseChunkIds[i - 1] = id;
     }
   }
 }
@@ -0,0 +1,307 @@
+// Per-turn snapshots of the working tree for /undo and /rollback
+//
+// In git repos a checkpoint is a hidden commit under refs/vibegram/checkpoints,
+// built with a temporary index so the user's branch and index are never touched.
+// Elsewhere, files are copied aside just before the agent modifies them.
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface Checkpoint {
+  id: string;
+  kind: "git" | "files";
+  prompt: string;
+  createdAt: number;
+  // Repo root (git) or the snapshot directory (files)
+  location: string;
+}
+
+interface FileManifest {
+  id: string;
+  prompt: string;
+  createdAt: number;
+  // Original path -> backup name, or null if the file didn't exist
+  files: Record<string, string | null>;
+}
+
+const REF_PREFIX = "refs/vibegram/checkpoints";
+const MAX_CHECKPOINTS = 50;
+
+// Ids are millisecond timestamps, bumped so two checkpoints never share one
+let lastId = 0;
+function nextId(): string {
+  lastId = Math.max(Date.now(), lastId + 1);
+  return lastId.toString();
+}
+
+function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, env: { ...process.env, ...env }, maxBuffer: 50 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout.trim());
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Root of the git repo containing cwd, or null outside a repo
+ */
+export async function findRepoRoot(cwd: string): Promise<string | null> {
+  try {
+    return await git(cwd, ["rev-parse", "--show-toplevel"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a file's contents before the agent changes it (files checkpoints only).
+ * Only the first call per file counts. Called from Claude's permission prompt, which the
+ * tool waits for, and again when the tool use is seen; that second call is best effort,
+ * as the agent may already have written the file (bypass mode, aider's "Applied edit").
+ */
+export function recordFileBackup(checkpoint: Checkpoint | null, filePath: string): void {
+  if (!checkpoint || checkpoint.kind !== "files") return;
+  const manifestPath = path.join(checkpoint.location, "manifest.json");
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as FileManifest;
+    if (filePath in manifest.files) return;
+
+    let backup: string | null = null;
+    if (fs.existsSync(filePath)) {
+      backup = `${Object.keys(manifest.files).length}`;
+      fs.copyFileSync(filePath, path.join(checkpoint.location, backup));
+    }
+    manifest.files[filePath] = backup;
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  } catch (e) {
+    console.error("Failed to back up file for checkpoint:", e);
+  }
+}
+
+export class CheckpointManager {
+  private storeDir: string;
+
+  constructor(storeDir: string = path.join(os.tmpdir(), "vibegram")) {
+    this.storeDir = storeDir;
+  }
+
+  private filesDir(cwd: string): string {
+    return path.join(this.storeDir, "checkpoints", cwd.replace(/\//g, "-"));
+  }
+
+  /**
+   * Snapshot the working tree before a turn
+   */
+  async create(cwd: string, prompt: string): Promise<Checkpoint> {
+    const id = nextId();
+    const summary = prompt.replace(/\s+/g, " ").trim().slice(0, 200) || "(no prompt)";
+    const root = await findRepoRoot(cwd);
+
+    if (root) {
+      const commit = await this.snapshotTree(root, `vibegram: ${summary}`);
+      await git(root, ["update-ref", `${REF_PREFIX}/${id}`, commit]);
+      await this.prune(root);
+      return { id, kind: "git", prompt: summary, createdAt: Number(id), location: root };
+    }
+
+    const location = path.join(this.filesDir(cwd), id);
+    fs.mkdirSync(location, { recursive: true });
+    const manifest: FileManifest = { id, prompt: summary, createdAt: Number(id), files: {} };
+    fs.writeFileSync(path.join(location, "manifest.json"), JSON.stringify(manifest, null, 2));
+    this.pruneFiles(cwd);
+    return { id, kind: "files", prompt: summary, createdAt: Number(id), location };
+  }
+
+  /**
+   * Checkpoints for cwd, newest first
+   */
+  async list(cwd: string): Promise<Checkpoint[]> {
+    const root = await findRepoRoot(cwd);
+    if (root) {
+      const output = await git(root, [
+        "for-each-ref",
+        "--sort=-refname",
+        "--format=%(refname:lstrip=3)%09%(contents:subject)",
+        REF_PREFIX,
+      ]);
+      return output
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+          const [id, subject = ""] = line.split("\t");
+          return {
+            id,
+            kind: "git" as const,
+            prompt: subject.replace(/^vibegram: /, ""),
+            createdAt: Number(id),
+            location: root,
+          };
+        })
+        .sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    const dir = this.filesDir(cwd);
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir)
+      .map((id): Checkpoint | null => {
+        try {
+          const manifest = JSON.parse(fs.readFileSync(path.join(dir, id, "manifest.json"), "utf-8")) as FileManifest;
+          return {
+            id,
+            kind: "files",
+            prompt: manifest.prompt,
+            createdAt: manifest.createdAt,
+            location: path.join(dir, id),
+          };
+        } catch {
+          return null;
+        }
+      })
+      .filter((c): c is Checkpoint => c !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Put the working tree back to how it was when the checkpoint was taken.
+   * The checkpoint and every newer one are dropped.
+   * Returns the paths that were restored or removed.
+   */
+  async restore(cwd: string, id: string): Promise<string[]> {
+    const all = await this.list(cwd);
+    const index = all.findIndex((c) => c.id === id);
+    if (index === -1) {
+      throw new Error(`Checkpoint ${id} not found`);
+    }
+    const target = all[index];
+    const dropped = all.slice(0, index + 1);
+
+    const changed =
+      target.kind === "git" ? await this.restoreGit(target) : this.restoreFiles(dropped);
+
+    for (const checkpoint of dropped) {
+      await this.remove(checkpoint);
+    }
+    return changed;
+  }
+
+  private async restoreGit(checkpoint: Checkpoint): Promise<string[]> {
+    const root = checkpoint.location;
+    const commit = await git(root, ["rev-parse", `${REF_PREFIX}/${checkpoint.id}`]);
+    const current = await this.snapshotTree(root, "vibegram: before restore");
+
+    const changed = (await git(root, ["diff", "--name-status", "--no-renames", commit, current]))
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [status, file] = line.split("\t");
+        return { status, file };
+      });
+
+    // Files created since the checkpoint
+    for (const { status, file } of changed) {
+      if (status === "A") {
+        fs.rmSync(path.join(root, file), { force: true });
+      }
+    }
+
+    // Everything else is written back from the checkpoint tree via a temporary index
+    const restore = changed.filter((c) => c.status !== "A").map((c) => c.file);
+    if (restore.length > 0) {
+      const tempIndex = path.join(os.tmpdir(), `vibegram-index-${process.pid}-${Date.now()}`);
+      try {
+        const env = { GIT_INDEX_FILE: tempIndex };
+        await git(root, ["read-tree", commit], env);
+        await git(root, ["checkout-index", "-f", "--", ...restore], env);
+      } finally {
+        fs.rmSync(tempIndex, { force: true });
+      }
+    }
+
+    return changed.map((c) => c.file);
+  }
+
+  private restoreFiles(checkpoints: Checkpoint[]): string[] {
+    const changed = new Set<string>();
+    // Newest first, so the oldest backup of each file wins
+    for (const checkpoint of checkpoints) {
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(checkpoint.location, "manifest.json"), "utf-8")
+      ) as FileManifest;
+      for (const [filePath, backup] of Object.entries(manifest.files)) {
+        if (backup === null) {
+          fs.rmSync(filePath, { force: true });
+        } else {
+          fs.mkdirSync(path.dirname(filePath), { recursive: true });
+          fs.copyFileSync(path.join(checkpoint.location, backup), filePath);
+        }
+        changed.add(filePath);
+      }
+    }
+    return [...changed];
+  }
+
+  private async remove(checkpoint: Checkpoint): Promise<void> {
+    if (checkpoint.kind === "git") {
+      await git(checkpoint.location, ["update-ref", "-d", `${REF_PREFIX}/${checkpoint.id}`]);
+    } else {
+      fs.rmSync(checkpoint.location, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Commit the whole working tree (tracked and untracked, minus ignored files)
+   * without touching the real index or any branch
+   */
+  private async snapshotTree(root: string, message: string): Promise<string> {
+    const tempIndex = path.join(os.tmpdir(), `vibegram-index-${process.pid}-${Date.now()}`);
+    const env = { GIT_INDEX_FILE: tempIndex };
+    try {
+      const head = await git(root, ["rev-parse", "--verify", "-q", "HEAD"]).catch(() => "");
+      // Start from a copy of the real index so add -A can reuse its stat data instead of rehashing every file
+      const index = path.resolve(root, await git(root, ["rev-parse", "--git-path", "index"]));
+      if (fs.existsSync(index)) {
+        fs.copyFileSync(index, tempIndex);
+      } else if (head) {
+        await git(root, ["read-tree", head], env);
+      }
+      await git(root, ["add", "-A", "."], env);
+      const tree = await git(root, ["write-tree"], env);
+      const args = ["commit-tree", tree, "-m", message];
+      if (head) args.push("-p", head);
+      return await git(root, args, {
+        GIT_AUTHOR_NAME: "vibegram",
+        GIT_AUTHOR_EMAIL: "vibegram@localhost",
+        GIT_COMMITTER_NAME: "vibegram",
+        GIT_COMMITTER_EMAIL: "vibegram@localhost",
+      });
+    } finally {
+      fs.rmSync(tempIndex, { force: true });
+    }
+  }
+
+  private async prune(root: string): Promise<void> {
+    const checkpoints = await this.list(root);
+    for (const checkpoint of checkpoints.slice(MAX_CHECKPOINTS)) {
+      await this.remove(checkpoint);
+    }
+  }
+
+  private pruneFiles(cwd: string): void {
+    const dir = this.filesDir(cwd);
+    const ids = fs.readdirSync(dir).sort((a, b) => Number(b) - Number(a));
+    for (const id of ids.slice(MAX_CHECKPOINTS)) {
+      fs.rmSync(path.join(dir, id), { recursive: true, force: true });
+    }
+  }
+}
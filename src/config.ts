@@ -0,0 +1,363 @@
+// Where config comes from, for the bot and the vibegram CLI
+//
+// Sources are layered, later ones overriding earlier ones:
+//   1. config file: --config or $VIBEGRAM_CONFIG, else the first that exists of
+//        ~/.vibegram.json
+//        the platform config dir (~/.config/vibegram or $XDG_CONFIG_HOME/vibegram on Linux,
+//          ~/Library/Application Support/Vibegram on macOS, shared with the app)
+//        $XDG_CONFIG_DIRS/vibegram/config.json (Linux, e.g. /etc/xdg)
+//   2. .env in the working directory
+//   3. environment variables
+//   4. command line flags
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AgentType, PermissionMode } from "./agent";
+import type { AuditConfig } from "./audit";
+import type { BudgetConfig } from "./costs";
+import type { MacroEntry } from "./macros";
+import type { WebhookConfig } from "./messenger";
+import { CONFIG_VERSION, coerceConfigValue, formatIssues, migrateConfig, validateConfig } from "./schema";
+import type { ShellConfig } from "./shell";
+import type { VoiceConfig } from "./transcribe";
+import type { UploadConfig } from "./uploads";
+import type { UserEntry } from "./users";
+
+export interface Config {
+  // File format version, see CONFIG_VERSION in schema.ts
+  version?: number;
+  token: string;
+  allowedUserId: number;
+  users?: UserEntry[];
+  // Saved prompts for /m
+  macros?: MacroEntry[];
+  // Directory new sessions start in
+  projectRoot: string;
+  // Project inside projectRoot to start in instead
+  defaultProject?: string;
+  // More directories /projects scans, besides projectRoot
+  projectRoots?: string[];
+  agent?: AgentType;
+  streamMode?: "compact" | "full";
+  permissionMode?: PermissionMode;
+  permissionTimeoutMs?: number;
+  voice?: VoiceConfig;
+  uploads?: UploadConfig;
+  checkpoints?: boolean;
+  budget?: BudgetConfig;
+  shell?: ShellConfig;
+  audit?: AuditConfig;
+  // Receive updates by webhook instead of long polling
+  webhook?: WebhookConfig;
+}
+
+export type PartialConfig = Partial<Config>;
+
+// What config discovery depends on, so it can be pointed elsewhere in tests
+export interface ConfigEnvironment {
+  platform: NodeJS.Platform;
+  home: string;
+  cwd: string;
+  env: Record<string, string | undefined>;
+}
+
+export interface ResolvedConfig {
+  config: PartialConfig;
+  // The config file used, or null when there is none
+  filePath: string | null;
+  // Where state (sessions, costs, pages) is kept
+  configDir: string;
+  // Which layers contributed, in order
+  sources: string[];
+  // Unknown keys and upgrades, to show the user
+  warnings: string[];
+}
+
+// Environment variable -> config path
+const ENV_KEYS: Record<string, string> = {
+  TELEGRAM_BOT_TOKEN: "token",
+  TELEGRAM_ALLOWED_USER_ID: "allowedUserId",
+  PROJECTS_ROOT: "projectRoot",
+  DEFAULT_PROJECT: "defaultProject",
+  VIBEGRAM_AGENT: "agent",
+  VIBEGRAM_STREAM_MODE: "streamMode",
+  VIBEGRAM_PERMISSION_MODE: "permissionMode",
+  VIBEGRAM_DAILY_BUDGET_USD: "budget.dailyUsd",
+  VIBEGRAM_TASK_BUDGET_USD: "budget.taskUsd",
+  VIBEGRAM_SHELL_TIMEOUT_MS: "shell.timeoutMs",
+  VIBEGRAM_WEBHOOK_URL: "webhook.url",
+  VIBEGRAM_WEBHOOK_HOST: "webhook.host",
+  VIBEGRAM_WEBHOOK_PORT: "webhook.port",
+  VIBEGRAM_WEBHOOK_PATH: "webhook.path",
+  VIBEGRAM_WEBHOOK_SECRET: "webhook.secretToken",
+};
+
+// Command line flag -> config path
+export const FLAG_KEYS: Record<string, string> = {
+  token: "token",
+  user: "allowedUserId",
+  "projects-root": "projectRoot",
+  project: "defaultProject",
+  agent: "agent",
+  "stream-mode": "streamMode",
+  "permission-mode": "permissionMode",
+  "webhook-url": "webhook.url",
+  host: "webhook.host",
+  port: "webhook.port",
+};
+
+export function currentEnvironment(): ConfigEnvironment {
+  return { platform: process.platform, home: os.homedir(), cwd: process.cwd(), env: process.env };
+}
+
+/**
+ * Default directory for config.json and state on this platform
+ */
+export function defaultConfigDir(environment: ConfigEnvironment = currentEnvironment()): string {
+  const { platform, home, env } = environment;
+  if (platform === "darwin") return path.join(home, "Library", "Application Support", "Vibegram");
+  if (platform === "win32") return path.join(env.APPDATA || path.join(home, "AppData", "Roaming"), "Vibegram");
+  return path.join(env.XDG_CONFIG_HOME || path.join(home, ".config"), "vibegram");
+}
+
+/**
+ * Config files to look for, highest priority first
+ */
+export function configFileCandidates(environment: ConfigEnvironment = currentEnvironment()): string[] {
+  const candidates = [
+    path.join(environment.home, ".vibegram.json"),
+    path.join(defaultConfigDir(environment), "config.json"),
+  ];
+  if (environment.platform !== "darwin" && environment.platform !== "win32") {
+    const dirs = (environment.env.XDG_CONFIG_DIRS || "/etc/xdg").split(":").filter(Boolean);
+    candidates.push(...dirs.map((dir) => path.join(dir, "vibegram", "config.json")));
+  }
+  return candidates;
+}
+
+export function findConfigFile(environment: ConfigEnvironment = currentEnvironment()): string | null {
+  return configFileCandidates(environment).find((file) => fs.existsSync(file)) ?? null;
+}
+
+export function readConfigFile(filePath: string): PartialConfig {
+  const text = fs.readFileSync(filePath, "utf-8");
+  try {
+    return JSON.parse(text) as PartialConfig;
+  } catch (e) {
+    throw new Error(`${filePath} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+/**
+ * Write a config file atomically, creating its directory. Owner-only, as it holds the bot token.
+ */
+export function writeConfigFile(filePath: string, config: PartialConfig): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify({ version: CONFIG_VERSION, ...config }, null, 2) + "\n", { mode: 0o600 });
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Throw if config doesn't match the schema, naming each bad key. Returns warnings for unknown keys.
+ */
+export function checkConfig(config: unknown, source: string): string[] {
+  const { errors, warnings } = validateConfig(config);
+  if (errors.length) {
+    throw new Error(`Invalid config in ${source}:\n${formatIssues(errors).replace(/^/gm, "  ")}`);
+  }
+  return warnings.map((issue) => `${source}: ${issue.key}: ${issue.message}`);
+}
+
+/**
+ * Read, upgrade and validate a config file. Older versions are upgraded in place,
+ * keeping a backup of the original next to it.
+ */
+export function loadConfigFile(filePath: string): { config: PartialConfig; warnings: string[] } {
+  const raw = readConfigFile(filePath);
+  const { config, from, changed } = migrateConfig(raw);
+  const warnings: string[] = [];
+  if (changed) {
+    try {
+      fs.copyFileSync(filePath, `${filePath}.v${from}.bak`);
+      writeConfigFile(filePath, config as PartialConfig);
+      warnings.push(`Upgraded ${filePath} from config version ${from} to ${CONFIG_VERSION}`);
+    } catch (e) {
+      // e.g. a read-only system config; the upgrade still applies for this run
+      warnings.push(`Couldn't upgrade ${filePath}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  warnings.push(...checkConfig(config, filePath));
+  return { config: config as PartialConfig, warnings };
+}
+
+export function parseDotEnv(text: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const [key, ...rest] = trimmed.split("=");
+    const value = rest.join("=").trim().replace(/^(['"])(.*)\1$/, "$2");
+    if (key && rest.length && value) {
+      vars[key.trim()] = value;
+    }
+  }
+  return vars;
+}
+
+export function getConfigValue(config: object, key: string): unknown {
+  let current: unknown = config;
+  for (const part of key.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Set a dotted key, creating objects on the way. undefined removes the key.
+ */
+export function setConfigValue(config: object, key: string, value: unknown): void {
+  const parts = key.split(".");
+  let current = config as Record<string, unknown>;
+  for (const part of parts.slice(0, -1)) {
+    if (current[part] === null || typeof current[part] !== "object") {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  const last = parts[parts.length - 1];
+  if (value === undefined) {
+    delete current[last];
+  } else {
+    current[last] = value;
+  }
+}
+
+/**
+ * A value typed on the command line: JSON when it parses, a string otherwise
+ */
+export function parseConfigValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function expandHome(value: string, home: string): string {
+  return value.replace(/^~(?=\/|$)/, home);
+}
+
+/**
+ * Config from string values keyed by config path (env vars and flags)
+ */
+function fromStrings(values: Record<string, string | undefined>, keys: Record<string, string>, home: string): PartialConfig {
+  const config: PartialConfig = {};
+  for (const [name, key] of Object.entries(keys)) {
+    const raw = values[name];
+    if (raw === undefined || raw === "") continue;
+    setConfigValue(config, key, key === "projectRoot" ? expandHome(raw, home) : coerceConfigValue(key, raw));
+  }
+  return config;
+}
+
+export function configFromEnv(vars: Record<string, string | undefined>, home = os.homedir()): PartialConfig {
+  return fromStrings(vars, ENV_KEYS, home);
+}
+
+export function configFromFlags(flags: Record<string, string>, home = os.homedir()): PartialConfig {
+  return fromStrings(flags, FLAG_KEYS, home);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Layer b over a; nested objects (budget, webhook...) are merged key by key
+ */
+export function mergeConfig(a: PartialConfig, b: PartialConfig): PartialConfig {
+  const merged: Record<string, unknown> = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    const existing = merged[key];
+    merged[key] = isPlainObject(existing) && isPlainObject(value) ? { ...existing, ...value } : value;
+  }
+  return merged as PartialConfig;
+}
+
+/**
+ * Load and layer every config source. Throws if a config file can't be read
+ * or a value doesn't fit the schema.
+ */
+export function resolveConfig(
+  options: { configPath?: string; flags?: Record<string, string> } = {},
+  environment: ConfigEnvironment = currentEnvironment()
+): ResolvedConfig {
+  const explicitPath = options.configPath || environment.env.VIBEGRAM_CONFIG;
+  const filePath = explicitPath ? path.resolve(environment.cwd, explicitPath) : findConfigFile(environment);
+  let config: PartialConfig = {};
+  const sources: string[] = [];
+  const warnings: string[] = [];
+
+  if (filePath) {
+    if (!fs.existsSync(filePath)) throw new Error(`Config file not found: ${filePath}`);
+    const loaded = loadConfigFile(filePath);
+    config = loaded.config;
+    warnings.push(...loaded.warnings);
+    sources.push(filePath);
+  }
+
+  const envPath = path.join(environment.cwd, ".env");
+  const dotEnv = fs.existsSync(envPath) ? parseDotEnv(fs.readFileSync(envPath, "utf-8")) : {};
+  if (Object.keys(dotEnv).length) sources.push(envPath);
+
+  const fromEnv = configFromEnv({ ...dotEnv, ...environment.env }, environment.home);
+  if (Object.keys(fromEnv).length) {
+    config = mergeConfig(config, fromEnv);
+    sources.push("environment");
+  }
+
+  const fromFlags = configFromFlags(options.flags || {}, environment.home);
+  if (Object.keys(fromFlags).length) {
+    config = mergeConfig(config, fromFlags);
+    sources.push("flags");
+  }
+
+  // Env and flags are strings; check they fit the schema once layered over the file
+  if (Object.keys(fromEnv).length || Object.keys(fromFlags).length) {
+    checkConfig(config, sources.join(" < "));
+  }
+
+  // State lives next to an explicitly chosen config file, else in the platform default
+  // (found files may be in read-only places like /etc/xdg)
+  const configDir = explicitPath && filePath ? path.dirname(filePath) : defaultConfigDir(environment);
+  return { config, filePath, configDir, sources, warnings };
+}
+
+/**
+ * Directory sessions start in: defaultProject inside projectRoot, when set
+ */
+export function startDirectory(config: PartialConfig, home = os.homedir()): string {
+  const root = expandHome(config.projectRoot || home, home);
+  return config.defaultProject ? path.resolve(root, expandHome(config.defaultProject, home)) : root;
+}
+
+/**
+ * Directories /projects scans for projects: projectRoot, then any projectRoots
+ */
+export function projectRoots(config: PartialConfig, home = os.homedir()): string[] {
+  const roots = [config.projectRoot || home, ...(config.projectRoots || [])];
+  return [...new Set(roots.map((root) => path.resolve(expandHome(root, home))))];
+}
+
+/**
+ * Copy of config safe to print: secrets are masked
+ */
+export function redactConfig(config: PartialConfig): PartialConfig {
+  const copy = JSON.parse(JSON.stringify(config)) as PartialConfig;
+  const mask = (value: string) => (value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-2)}` : "***");
+  if (copy.token) copy.token = mask(copy.token);
+  if (copy.webhook?.secretToken) copy.webhook.secretToken = mask(copy.webhook.secretToken);
+  return copy;
+}
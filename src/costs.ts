@@ -0,0 +1,185 @@
+// Spend tracking per project and per day, with budgets
+import * as fs from "fs";
+import * as path from "path";
+import type { DoneEvent } from "./agent";
+
+export interface CostEntry {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Agent turns (model round trips) as reported by the agent
+  turns: number;
+  // Finished tasks
+  tasks: number;
+}
+
+export interface BudgetConfig {
+  // Hard limits in USD; unset means unlimited
+  dailyUsd?: number;
+  taskUsd?: number;
+  // Fraction of a limit at which to warn (default 0.8)
+  warnAt?: number;
+}
+
+export type BudgetStatus = "ok" | "warn" | "exceeded";
+
+// Day (YYYY-MM-DD, local time) -> project path -> totals
+type Ledger = Record<string, Record<string, CostEntry>>;
+
+const RETENTION_DAYS = 90;
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+export function emptyEntry(): CostEntry {
+  return { costUsd: 0, inputTokens: 0, outputTokens: 0, turns: 0, tasks: 0 };
+}
+
+function addEntry(target: CostEntry, source: CostEntry): void {
+  target.costUsd += source.costUsd;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.turns += source.turns;
+  target.tasks += source.tasks;
+}
+
+/**
+ * Local calendar day of a date, as YYYY-MM-DD
+ */
+export function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Monday of the week containing date, at local midnight
+ */
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/**
+ * Where spend stands against a limit after going from `before` to `after`.
+ * "warn" is only returned when this step crossed the warning threshold,
+ * so each warning is sent once.
+ */
+export function budgetStatus(
+  before: number,
+  after: number,
+  limit: number | undefined,
+  warnAt = DEFAULT_BUDGET_WARN_AT
+): BudgetStatus {
+  if (!limit || limit <= 0) return "ok";
+  if (after >= limit) return "exceeded";
+  const threshold = limit * warnAt;
+  if (before < threshold && after >= threshold) return "warn";
+  return "ok";
+}
+
+/**
+ * Ledger of spend, kept in a JSON file when a path is given
+ */
+export class CostTracker {
+  private filePath: string | null;
+  private ledger: Ledger = {};
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    if (filePath && fs.existsSync(filePath)) {
+      try {
+        this.ledger = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Ledger;
+      } catch (e) {
+        console.error("Failed to load cost ledger:", e);
+      }
+    }
+  }
+
+  /**
+   * Add a finished turn's spend. Returns the amount recorded.
+   */
+  record(project: string, event: Pick<DoneEvent, "costUsd" | "usage" | "numTurns">, date = new Date()): number {
+    const key = dayKey(date);
+    const day = (this.ledger[key] ??= {});
+    const entry = (day[project] ??= emptyEntry());
+    addEntry(entry, {
+      costUsd: event.costUsd ?? 0,
+      inputTokens: event.usage?.inputTokens ?? 0,
+      outputTokens: event.usage?.outputTokens ?? 0,
+      turns: event.numTurns ?? 0,
+      tasks: 1,
+    });
+    this.prune(date);
+    this.save();
+    return event.costUsd ?? 0;
+  }
+
+  /**
+   * Totals for the days from `from` to `to`, inclusive
+   */
+  total(from: Date, to: Date): CostEntry {
+    const first = dayKey(from);
+    const last = dayKey(to);
+    const sum = emptyEntry();
+    for (const [key, day] of Object.entries(this.ledger)) {
+      if (key < first || key > last) continue;
+      for (const entry of Object.values(day)) addEntry(sum, entry);
+    }
+    return sum;
+  }
+
+  today(now = new Date()): CostEntry {
+    return this.total(now, now);
+  }
+
+  thisWeek(now = new Date()): CostEntry {
+    return this.total(startOfWeek(now), now);
+  }
+
+  /**
+   * Totals per project over everything kept, most expensive first
+   */
+  byProject(): [string, CostEntry][] {
+    const projects = new Map<string, CostEntry>();
+    for (const day of Object.values(this.ledger)) {
+      for (const [project, entry] of Object.entries(day)) {
+        if (!projects.has(project)) projects.set(project, emptyEntry());
+        addEntry(projects.get(project)!, entry);
+      }
+    }
+    return [...projects.entries()].sort((a, b) => b[1].costUsd - a[1].costUsd);
+  }
+
+  private prune(now: Date): void {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+    const oldest = dayKey(cutoff);
+    for (const key of Object.keys(this.ledger)) {
+      if (key < oldest) delete this.ledger[key];
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.ledger, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      console.error("Failed to save cost ledger:", e);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week, in local time
+
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Give up looking for a match after this long (e.g. "0 0 30 2 *" never fires)
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, names: string[] | null, offset: number): number {
+  const index = names ? names.indexOf(text.slice(0, 3).toLowerCase()) : -1;
+  if (index >= 0) return index + offset;
+  return /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null, offset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [min, max];
+    } else {
+      const [start, end] = range.split("-");
+      from = parseValue(start, names, offset);
+      // "5/15" means from 5 to the end
+      to = end !== undefined ? parseValue(end, names, offset) : stepText !== undefined ? max : from;
+    }
+    if (isNaN(from) || isNaN(to) || isNaN(step) || step < 1 || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron field "${field}" (expected values ${min}-${max})`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expressions have 5 fields (minute hour day month weekday), got "${expression}"`);
+  }
+  const [minute, hour, day, month, weekday] = parts;
+  const weekdays = parseField(weekday, 0, 7, DAY_NAMES);
+  // 7 is Sunday too
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes: parseField(minute, 0, 59, null),
+    hours: parseField(hour, 0, 23, null),
+    days: parseField(day, 1, 31, null),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    daysRestricted: day !== "*",
+    weekdaysRestricted: weekday !== "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function dayMatches(fields: CronFields, date: Date): boolean {
+  const day = fields.days.has(date.getDate());
+  const weekday = fields.weekdays.has(date.getDay());
+  if (fields.daysRestricted && fields.weekdaysRestricted) return day || weekday;
+  return day && weekday;
+}
+
+/**
+ * First time strictly after `after` matching the expression, or null if there is none
+ */
+export function nextCronTime(expression: string | CronFields, after: number): number | null {
+  const fields = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Jump a month, day or hour at a time where whole units can't match
+  while (date.getTime() - after < SEARCH_LIMIT_MS) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!dayMatches(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
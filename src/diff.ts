@@ -0,0 +1,183 @@
+// Unified diffs for Edit/Write tool calls
+
+export interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+// Beyond this many edits the Myers trace gets expensive; fall back to replace-all
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Line diff using Myers' algorithm
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // Before each step d, the part of v that step reads (diagonals -d-1..d+1), so memory grows with d², not d·(n+m)
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [...a.map((text) => ({ type: "-" as const, text })), ...b.map((text) => ({ type: "+" as const, text }))];
+    }
+    trace.push(Int32Array.from(v.slice(offset - d - 1, offset + d + 2)));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && prev[k + d] < prev[k + d + 2]) ? k + 1 : k - 1;
+    const prevX = prev[prevK + d + 1];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: " ", text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: "+", text: b[y - 1] });
+      } else {
+        result.push({ type: "-", text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Render a unified diff with the given number of context lines.
+ * Returns "" when nothing changed.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string | null,
+  newText: string,
+  context = 3
+): string {
+  const lines = diffLines(splitLines(oldText ?? ""), splitLines(newText));
+  if (!lines.some((line) => line.type !== " ")) return "";
+
+  // Line numbers (1-based) in the old and new file at each diff line
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    positions.push({ oldLine, newLine });
+    if (line.type !== "+") oldLine++;
+    if (line.type !== "-") newLine++;
+  }
+
+  // Group changes that are within 2 * context lines of each other
+  const hunks: [number, number][] = [];
+  lines.forEach((line, i) => {
+    if (line.type === " ") return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const output = [`--- ${oldText === null ? "/dev/null" : `a/${filePath}`}`, `+++ b/${filePath}`];
+  for (const [start, end] of hunks) {
+    const slice = lines.slice(start, end);
+    const oldCount = slice.filter((l) => l.type !== "+").length;
+    const newCount = slice.filter((l) => l.type !== "-").length;
+    const oldStart = oldCount === 0 ? positions[start].oldLine - 1 : positions[start].oldLine;
+    const newStart = newCount === 0 ? positions[start].newLine - 1 : positions[start].newLine;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of slice) {
+      output.push(line.type + line.text);
+    }
+  }
+
+  return output.join("\n");
+}
+
+interface EditInput {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+function applyEdit(content: string, edit: EditInput): string | null {
+  if (typeof edit.old_string !== "string" || typeof edit.new_string !== "string") return null;
+  if (!content.includes(edit.old_string)) return null;
+  return edit.replace_all
+    ? content.split(edit.old_string).join(edit.new_string)
+    : content.replace(edit.old_string, () => edit.new_string as string);
+}
+
+/**
+ * Work out the before/after text of an Edit, MultiEdit or Write call.
+ * `current` is the file content before the tool runs (null if missing).
+ * When the edit can't be placed in the file, only the edited snippet is compared.
+ */
+export function previewToolChange(
+  tool: string,
+  input: Record<string, unknown>,
+  current: string | null
+): { oldText: string | null; newText: string } | null {
+  switch (tool) {
+    case "Write":
+      return typeof input.content === "string" ? { oldText: current, newText: input.content } : null;
+
+    case "Edit": {
+      const edited = current !== null ? applyEdit(current, input) : null;
+      if (edited !== null) return { oldText: current, newText: edited };
+      if (typeof input.old_string !== "string" || typeof input.new_string !== "string") return null;
+      return { oldText: input.old_string, newText: input.new_string };
+    }
+
+    case "MultiEdit": {
+      const edits = Array.isArray(input.edits) ? (input.edits as EditInput[]) : [];
+      let content = current;
+      for (const edit of edits) {
+        content = content !== null ? applyEdit(content, edit) : null;
+      }
+      if (content !== null && current !== null) return { oldText: current, newText: content };
+      return {
+        oldText: edits.map((e) => String(e.old_string ?? "")).join("\n"),
+        newText: edits.map((e) => String(e.new_string ?? "")).join("\n"),
+      };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,146 @@
+// Setup checks: `vibegram doctor`
+import { execFile } from "child_process";
+import * as fs from "fs";
+import { startDirectory, type ResolvedConfig } from "./config";
+import { isValidSecretToken } from "./messenger/webhook";
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+// Things the checks reach outside for, swappable in tests
+export interface DoctorProbes {
+  // First line of `<command> --version`, or null when it can't be run
+  commandVersion(command: string): Promise<string | null>;
+  // The bot's username; throws when the token is rejected
+  botUsername(token: string): Promise<string>;
+}
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+const STATUS_ICONS: Record<CheckStatus, string> = { ok: "✅", warn: "⚠️ ", fail: "❌" };
+
+export const systemProbes: DoctorProbes = {
+  commandVersion(command) {
+    return new Promise((resolve) => {
+      execFile(command, ["--version"], { timeout: PROBE_TIMEOUT_MS }, (error, stdout, stderr) => {
+        if (error && (error as NodeJS.ErrnoException).code === "ENOENT") {
+          resolve(null);
+          return;
+        }
+        resolve((stdout || stderr).trim().split("\n")[0] || command);
+      });
+    });
+  },
+
+  async botUsername(token) {
+    const response = await fetch(`https://api.telegram.org/bot${token}/getMe`, {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    const body = (await response.json()) as { ok: boolean; description?: string; result?: { username: string } };
+    if (!body.ok || !body.result) throw new Error(body.description || `HTTP ${response.status}`);
+    return body.result.username;
+  },
+};
+
+function isWritableDir(dir: string): boolean {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.accessSync(dir, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check config, Telegram, the agent CLI and optional tools
+ */
+export async function runChecks(resolved: ResolvedConfig, probes: DoctorProbes = systemProbes): Promise<CheckResult[]> {
+  const { config } = resolved;
+  const results: CheckResult[] = [];
+  const add = (name: string, status: CheckStatus, detail: string) => results.push({ name, status, detail });
+
+  if (resolved.sources.length) {
+    add("Config", "ok", resolved.sources.join(" < "));
+  } else {
+    add("Config", "fail", "nothing found, run `vibegram config init`");
+  }
+  for (const warning of resolved.warnings) {
+    add("Config", "warn", warning);
+  }
+
+  if (!config.token) {
+    add("Telegram token", "fail", "not set (token or TELEGRAM_BOT_TOKEN)");
+  } else {
+    try {
+      add("Telegram token", "ok", `@${await probes.botUsername(config.token)}`);
+    } catch (e) {
+      add("Telegram token", "fail", `rejected: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  if (config.allowedUserId || config.users?.length) {
+    const count = (config.users?.length || 0) + (config.allowedUserId ? 1 : 0);
+    add("Allowed users", "ok", config.allowedUserId ? `owner ${config.allowedUserId}` : `${count} users`);
+  } else {
+    add("Allowed users", "fail", "not set (allowedUserId or TELEGRAM_ALLOWED_USER_ID)");
+  }
+
+  const projectDir = startDirectory(config);
+  const isDir = fs.existsSync(projectDir) && fs.statSync(projectDir).isDirectory();
+  add("Project root", isDir ? "ok" : "fail", isDir ? projectDir : `${projectDir} is not a directory`);
+
+  add(
+    "State directory",
+    isWritableDir(resolved.configDir) ? "ok" : "fail",
+    isWritableDir(resolved.configDir) ? resolved.configDir : `${resolved.configDir} is not writable`
+  );
+
+  const agent = config.agent || "claude";
+  const agentVersion = await probes.commandVersion(agent);
+  add(`Agent (${agent})`, agentVersion ? "ok" : "fail", agentVersion || `\`${agent}\` not found on PATH`);
+
+  const gitVersion = await probes.commandVersion("git");
+  if (gitVersion) {
+    add("git", "ok", gitVersion);
+  } else {
+    add("git", "warn", "not found; checkpoints fall back to file copies and patches can't be applied");
+  }
+
+  if (config.voice?.command) {
+    add("Voice", "ok", `custom command: ${config.voice.command.split(" ")[0]}`);
+  } else {
+    const whisper = config.voice?.whisperBinary || "whisper-cli";
+    const missing: string[] = [];
+    if (!(await probes.commandVersion(whisper))) missing.push(whisper);
+    if (!(await probes.commandVersion("ffmpeg"))) missing.push("ffmpeg");
+    if (missing.length) {
+      add("Voice", "warn", `${missing.join(", ")} not found; voice messages won't work`);
+    } else {
+      add("Voice", "ok", `${whisper} + ffmpeg`);
+    }
+  }
+
+  if (config.webhook?.url) {
+    const problems: string[] = [];
+    if (!config.webhook.url.startsWith("https://")) problems.push("Telegram requires an https:// URL");
+    if (config.webhook.secretToken && !isValidSecretToken(config.webhook.secretToken)) {
+      problems.push("secret token may only use A-Z, a-z, 0-9, _ and -");
+    }
+    add("Webhook", problems.length ? "fail" : "ok", problems.length ? problems.join("; ") : config.webhook.url);
+  } else {
+    add("Updates", "ok", "long polling");
+  }
+
+  return results;
+}
+
+export function formatChecks(results: CheckResult[]): string {
+  const width = Math.max(...results.map((r) => r.name.length));
+  return results.map((r) => `${STATUS_ICONS[r.status]} ${r.name.padEnd(width)}  ${r.detail}`).join("\n");
+}
@@ -0,0 +1,92 @@
+// Reading Claude Code's session store (~/.claude/projects/<projectKey>/*.jsonl)
+import * as fs from "fs";
+import * as path from "path";
+
+export interface SessionInfo {
+  id: string;
+  path: string;
+  mtime: Date;
+  summary: string | null;
+  firstPrompt: string | null;
+  messageCount: number;
+}
+
+/**
+ * Directory where Claude Code keeps the sessions for a working directory
+ */
+export function claudeProjectDir(cwd: string, home: string): string {
+  const projectKey = cwd.replace(/\//g, "-");
+  return path.join(home, ".claude", "projects", projectKey);
+}
+
+/**
+ * Pull the plain text out of a user message, skipping tool results
+ */
+export function userText(content: unknown): string | null {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return null;
+  for (const part of content) {
+    if (part?.type === "text" && typeof part.text === "string") return part.text;
+  }
+  return null;
+}
+
+/**
+ * Parse one session file into its summary, first prompt and message count
+ */
+export function readSessionFile(filePath: string): Omit<SessionInfo, "id" | "path" | "mtime"> {
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n").filter((l) => l.trim());
+  let summary: string | null = null;
+  let firstPrompt: string | null = null;
+  let messageCount = 0;
+
+  for (const line of lines) {
+    let obj;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (obj.summary) summary = obj.summary;
+    if (obj.type !== "user" && obj.type !== "assistant") continue;
+
+    const text = obj.type === "user" && !obj.isMeta ? userText(obj.message?.content) : null;
+    if (obj.type === "assistant" || text) messageCount++;
+    if (text && !firstPrompt) firstPrompt = text.trim();
+  }
+
+  return { summary, firstPrompt, messageCount };
+}
+
+/**
+ * List non-empty sessions for a working directory, newest first
+ */
+export function listSessions(cwd: string, home: string, limit = 50): SessionInfo[] {
+  try {
+    const sessionDir = claudeProjectDir(cwd, home);
+    if (!fs.existsSync(sessionDir)) return [];
+
+    return fs
+      .readdirSync(sessionDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => ({ name: f, path: path.join(sessionDir, f), stat: fs.statSync(path.join(sessionDir, f)) }))
+      .filter((f) => f.stat.size > 0)
+      .sort((a, b) => b.stat.mtime.getTime() - a.stat.mtime.getTime())
+      .slice(0, limit)
+      .map((f) => ({
+        id: f.name.replace(/\.jsonl$/, ""),
+        path: f.path,
+        mtime: f.stat.mtime,
+        ...readSessionFile(f.path),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Summary of the most recent session, if Claude wrote one
+ */
+export function getLastSessionSummary(cwd: string, home: string): string | null {
+  return listSessions(cwd, home, 1)[0]?.summary ?? null;
+}
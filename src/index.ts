@@ -1,107 +1,224 @@
-import { createBot } from "./bot";
+#!/usr/bin/env bun
+// vibegram: run the bot and manage its config
+// Runs headless on any server; the desktop app starts it with no arguments.
 import * as fs from "fs";
-import * as path from "path";
 import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import {
+  FLAG_KEYS,
+  checkConfig,
+  defaultConfigDir,
+  getConfigValue,
+  loadConfigFile,
+  parseConfigValue,
+  redactConfig,
+  resolveConfig,
+  setConfigValue,
+  writeConfigFile,
+  type PartialConfig,
+} from "./config";
+import { formatChecks, runChecks } from "./doctor";
+import { serve } from "./serve";
+
+interface ParsedArgs {
+  positional: string[];
+  // --name value / --name=value
+  flags: Record<string, string>;
+  // Flags without a value
+  switches: Set<string>;
+}
+
+const SWITCHES = new Set(["terminal", "force", "help"]);
+const VALUE_FLAGS = new Set(["config", ...Object.keys(FLAG_KEYS)]);
 
-// Config directory for Electron app
-const configDir = path.join(os.homedir(), "Library", "Application Support", "Vibegram");
-const configPath = path.join(configDir, "config.json");
+function printUsage(): void {
+  console.log(`
+Usage: vibegram [command] [options]
 
-interface Config {
-  token: string;
-  allowedUserId: number;
-  projectRoot: string;
-  agent?: "claude" | "opencode";
-  streamMode?: "compact" | "full";
+Commands:
+  serve                     Run the bot (default)
+  config init               Create a config file
+  config get [key]          Show the resolved config, or one key (e.g. budget.dailyUsd)
+  config set <key> <value>  Set a key in the config file (values are parsed as JSON when possible)
+  doctor                    Check the setup
+
+Options:
+  --config <path>           Config file to use instead of searching for one
+  --terminal                Chat in this terminal instead of Telegram
+  --token <token>           Telegram bot token
+  --user <id>               Telegram user ID of the owner
+  --projects-root <path>    Directory sessions start in
+  --project <name>          Project inside the projects root to start in
+  --agent <name>            claude, opencode or aider
+  --stream-mode <mode>      compact or full
+  --permission-mode <mode>  default, acceptEdits or bypassPermissions
+  --webhook-url <url>       Receive updates by webhook at this public URL
+  --host <address>          Webhook listen address (default 127.0.0.1)
+  --port <port>             Webhook listen port (default 8080)
+  --force                   Let config init overwrite an existing file
+  -h, --help                Show this help
+
+Config is layered, later sources winning: config file (~/.vibegram.json, then
+${path.join(defaultConfigDir(), "config.json")}${process.platform === "linux" ? ", then $XDG_CONFIG_DIRS" : ""}), .env, environment variables, flags.
+`);
 }
 
-function loadConfig(): Config | null {
-  // First try config.json (Electron app)
-  if (fs.existsSync(configPath)) {
-    try {
-      return JSON.parse(fs.readFileSync(configPath, "utf-8"));
-    } catch {
-      // Fall through to .env
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {}, switches: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") {
+      parsed.switches.add("help");
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      parsed.positional.push(arg);
+      continue;
     }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (SWITCHES.has(name)) {
+      parsed.switches.add(name);
+    } else if (VALUE_FLAGS.has(name)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new Error(`--${name} needs a value`);
+      parsed.flags[name] = value;
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+  return parsed;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function ask(rl: readline.Interface, question: string): Promise<string> {
+  return new Promise((resolve) => rl.question(question, (answer) => resolve(answer.trim())));
+}
+
+async function configInit(args: ParsedArgs): Promise<number> {
+  const target = path.resolve(args.flags.config || path.join(defaultConfigDir(), "config.json"));
+  if (fs.existsSync(target) && !args.switches.has("force")) {
+    console.error(`${target} already exists. Use --force to overwrite it, or \`vibegram config set\` to change it.`);
+    return 1;
   }
 
-  // Fall back to .env (local dev)
-  const envPath = path.join(process.cwd(), ".env");
-  if (fs.existsSync(envPath)) {
-    const envFile = fs.readFileSync(envPath, "utf-8");
-    const envVars: Record<string, string> = {};
-    for (const line of envFile.split("\n")) {
-      const [key, ...rest] = line.split("=");
-      if (key && rest.length) {
-        envVars[key.trim()] = rest.join("=").trim();
+  // Start from flags and env, then ask for whatever is still missing
+  const { config: given } = resolveConfig({ configPath: undefined, flags: args.flags });
+  const config: PartialConfig = {
+    token: given.token,
+    allowedUserId: given.allowedUserId,
+    projectRoot: given.projectRoot || os.homedir(),
+    ...(given.agent && { agent: given.agent }),
+    ...(given.webhook && { webhook: given.webhook }),
+  };
+
+  if ((!config.token || !config.allowedUserId) && process.stdin.isTTY) {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      if (!config.token) config.token = await ask(rl, "Bot token (from @BotFather): ");
+      if (!config.allowedUserId) {
+        config.allowedUserId = Number(await ask(rl, "Your Telegram user ID (from @userinfobot): "));
       }
-    }
-    const token = envVars.TELEGRAM_BOT_TOKEN || process.env.TELEGRAM_BOT_TOKEN;
-    const allowedUserId = envVars.TELEGRAM_ALLOWED_USER_ID || process.env.TELEGRAM_ALLOWED_USER_ID;
-    if (token && allowedUserId) {
-      return {
-        token,
-        allowedUserId: parseInt(allowedUserId, 10),
-        projectRoot: process.env.HOME || "/",
-      };
+      const root = await ask(rl, `Projects root [${config.projectRoot}]: `);
+      if (root) config.projectRoot = path.resolve(root.replace(/^~(?=\/|$)/, os.homedir()));
+    } finally {
+      rl.close();
     }
   }
 
-  // Try environment variables directly
-  if (process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_ALLOWED_USER_ID) {
-    return {
-      token: process.env.TELEGRAM_BOT_TOKEN,
-      allowedUserId: parseInt(process.env.TELEGRAM_ALLOWED_USER_ID, 10),
-      projectRoot: process.env.HOME || "/",
-    };
+  if (!config.token || !config.allowedUserId) {
+    console.error("A bot token and user ID are required (--token and --user when not interactive).");
+    return 1;
   }
+  checkConfig(config, "the values given");
 
-  return null;
+  writeConfigFile(target, config);
+  console.log(`Wrote ${target}`);
+  console.log("Check the setup with `vibegram doctor`, then start the bot with `vibegram serve`.");
+  return 0;
 }
 
-const config = loadConfig();
-
-if (!config) {
-  console.error("CONFIG_NOT_FOUND");
-  process.exit(1);
+function configGet(args: ParsedArgs, key: string | undefined): number {
+  const resolved = resolveConfig({ configPath: args.flags.config, flags: args.flags });
+  resolved.warnings.forEach((warning) => console.warn(`Warning: ${warning}`));
+  if (!key) {
+    console.log(`# ${resolved.sources.length ? resolved.sources.join(" < ") : "no config found"}`);
+    console.log(JSON.stringify(redactConfig(resolved.config), null, 2));
+    return 0;
+  }
+  const value = getConfigValue(resolved.config, key);
+  if (value === undefined) {
+    console.error(`${key} is not set`);
+    return 1;
+  }
+  console.log(formatValue(value));
+  return 0;
 }
 
-if (!config.token) {
-  console.error("TELEGRAM_BOT_TOKEN is required");
-  process.exit(1);
+function configSet(args: ParsedArgs, key: string | undefined, raw: string | undefined): number {
+  if (!key || raw === undefined) {
+    console.error("Usage: vibegram config set <key> <value>");
+    return 1;
+  }
+  const before = resolveConfig({ configPath: args.flags.config });
+  const target = before.filePath || path.join(defaultConfigDir(), "config.json");
+  const fileConfig = fs.existsSync(target) ? loadConfigFile(target).config : {};
+  const value = parseConfigValue(raw);
+  setConfigValue(fileConfig, key, value);
+  // Reject bad values before they reach the file; warn about typos in the key
+  checkConfig(fileConfig, target)
+    .filter((warning) => warning.includes(`${target}: ${key}:`))
+    .forEach((warning) => console.warn(`Warning: ${warning}`));
+  writeConfigFile(target, fileConfig);
+  console.log(`Set ${key} in ${target}`);
+
+  const effective = getConfigValue(resolveConfig({ configPath: args.flags.config, flags: args.flags }).config, key);
+  if (JSON.stringify(effective) !== JSON.stringify(value)) {
+    console.warn(`Note: ${key} is overridden by the environment or flags (effective value: ${formatValue(effective)})`);
+  }
+  return 0;
 }
 
-if (!config.allowedUserId) {
-  console.error("TELEGRAM_ALLOWED_USER_ID is required");
-  process.exit(1);
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (args.switches.has("help")) {
+    printUsage();
+    return 0;
+  }
+
+  const [command = "serve", subcommand, ...rest] = args.positional;
+  switch (command) {
+    case "serve":
+      return serve(resolveConfig({ configPath: args.flags.config, flags: args.flags }), {
+        terminal: args.switches.has("terminal"),
+      });
+
+    case "config":
+      if (subcommand === "init") return configInit(args);
+      if (subcommand === "get") return configGet(args, rest[0]);
+      if (subcommand === "set") return configSet(args, rest[0], rest[1]);
+      console.error("Usage: vibegram config init|get|set");
+      return 1;
+
+    case "doctor": {
+      const results = await runChecks(resolveConfig({ configPath: args.flags.config, flags: args.flags }));
+      console.log(formatChecks(results));
+      return results.some((r) => r.status === "fail") ? 1 : 0;
+    }
+
+    default:
+      console.error(`Unknown command "${command}"`);
+      printUsage();
+      return 1;
+  }
 }
 
-const bot = createBot({
-  token: config.token,
-  allowedUserId: config.allowedUserId,
-  projectRoot: config.projectRoot,
-  agent: config.agent,
-  streamMode: config.streamMode,
-});
-
-console.log("Starting Vibegram...");
-console.log(`Agent: ${config.agent || "claude"}`);
-console.log(`Allowed user: ${config.allowedUserId}`);
-console.log(`Project root: ${config.projectRoot}`);
-
-// Set up bot commands menu
-bot.api.setMyCommands([
-  { command: "start", description: "Welcome & help" },
-  { command: "new", description: "Start new conversation" },
-  { command: "stop", description: "Stop current task" },
-  { command: "resume", description: "Resume previous session" },
-  { command: "status", description: "Show current status" },
-  { command: "cd", description: "Change directory" },
-]).then(() => {
-  bot.start({
-    onStart: (botInfo) => {
-      console.log(`Bot started: @${botInfo.username}`);
-      console.log("Commands menu registered");
-    },
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error(`Error: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
   });
-});
@@ -0,0 +1,78 @@
+// Background `!&` shell commands: listed with /jobs, followed with /tail, stopped with /kill
+import * as path from "path";
+import { ShellRun } from "./shell";
+
+export interface BackgroundJob {
+  id: number;
+  userId: number;
+  command: string;
+  cwd: string;
+  run: ShellRun;
+}
+
+/**
+ * Jobs run without a timeout until they exit or are killed. Finished jobs are
+ * dropped from the list; ids are not reused while the bot runs.
+ */
+export class JobManager {
+  private jobs = new Map<number, BackgroundJob>();
+  private nextId = 1;
+  private logDir: string;
+  private inlineMaxBytes?: number;
+
+  constructor(logDir: string, inlineMaxBytes?: number) {
+    this.logDir = logDir;
+    this.inlineMaxBytes = inlineMaxBytes;
+  }
+
+  start(userId: number, command: string, cwd: string): BackgroundJob {
+    const id = this.nextId++;
+    const run = new ShellRun(command, {
+      cwd,
+      timeoutMs: 0,
+      inlineMaxBytes: this.inlineMaxBytes,
+      outputFile: path.join(this.logDir, `job-${id}-${Date.now()}.log`),
+    });
+    const job = { id, userId, command, cwd, run };
+    this.jobs.set(id, job);
+    run.done.then(() => this.jobs.delete(id));
+    return job;
+  }
+
+  get(id: number): BackgroundJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): BackgroundJob[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Returns false if there is no such running job
+   */
+  kill(id: number): boolean {
+    return this.jobs.get(id)?.run.kill() ?? false;
+  }
+
+  /**
+   * Kill every job and wait for them to exit
+   */
+  async stopAll(): Promise<void> {
+    const running = this.list();
+    running.forEach((job) => job.run.kill());
+    await Promise.all(running.map((job) => job.run.done));
+  }
+}
+
+/**
+ * Short duration, e.g. "45s", "12m", "3h 5m", "2d 4h"
+ */
+export function formatUptime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
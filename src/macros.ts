@@ -0,0 +1,111 @@
+// Saved prompt templates: /macro, /macros and /m
+import { execFile } from "child_process";
+
+export interface MacroEntry {
+  name: string;
+  // Prompt with {placeholders}; {cwd} and {branch} are filled in automatically
+  template: string;
+}
+
+// Telegram command names, so macros can go in the command menu
+export const MACRO_NAME_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][\w-]*)\}/g;
+const BUILTIN_PLACEHOLDERS = new Set(["cwd", "branch"]);
+
+/**
+ * Placeholders the caller has to fill, in order of first use
+ */
+export function macroParameters(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!BUILTIN_PLACEHOLDERS.has(match[1]) && !names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+export function macroUsage(macro: MacroEntry): string {
+  return [`/m ${macro.name}`, ...macroParameters(macro.template).map((name) => `<${name}>`)].join(" ");
+}
+
+/**
+ * Split arguments on whitespace; "double quotes" keep spaces together
+ */
+export function splitArguments(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|(\S+)/g)].map((m) => m[1] ?? m[2]);
+}
+
+/**
+ * Fill in a template. Each parameter takes one argument and the last takes the
+ * rest of the text; without parameters, any text is appended to the prompt.
+ * Throws naming the first missing parameter.
+ */
+export function expandMacro(
+  macro: MacroEntry,
+  argsText: string,
+  context: { cwd: string; branch: string | null }
+): string {
+  const parameters = macroParameters(macro.template);
+  const args = splitArguments(argsText);
+  const values: Record<string, string> = {};
+  parameters.forEach((name, i) => {
+    const value = i === parameters.length - 1 ? args.slice(i).join(" ") : args[i];
+    if (!value) throw new Error(`Missing <${name}>. Usage: ${macroUsage(macro)}`);
+    values[name] = value;
+  });
+
+  if (macro.template.includes("{branch}") && context.branch === null) {
+    throw new Error(`/${macro.name} uses {branch}, but ${context.cwd} is not a git repository`);
+  }
+  values.cwd = context.cwd;
+  values.branch = context.branch || "";
+
+  const prompt = macro.template.replace(PLACEHOLDER_PATTERN, (whole, name: string) => values[name] ?? whole);
+  const extra = parameters.length === 0 ? argsText.trim() : "";
+  return extra ? `${prompt}\n\n${extra}` : prompt;
+}
+
+/**
+ * Checked-out branch in dir, or null outside a git repository
+ */
+export function currentBranch(dir: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile("git", ["rev-parse", "--abbrev-ref", "HEAD"], { cwd: dir }, (error, stdout) => {
+      resolve(error ? null : stdout.trim());
+    });
+  });
+}
+
+export class MacroRegistry {
+  private macros = new Map<string, MacroEntry>();
+  private onChange?: (macros: MacroEntry[]) => void;
+
+  constructor(macros: MacroEntry[], onChange?: (macros: MacroEntry[]) => void) {
+    for (const macro of macros) {
+      this.macros.set(macro.name, macro);
+    }
+    this.onChange = onChange;
+  }
+
+  get(name: string): MacroEntry | undefined {
+    return this.macros.get(name.toLowerCase());
+  }
+
+  list(): MacroEntry[] {
+    return [...this.macros.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add a macro, or replace the one with the same name
+   */
+  set(macro: MacroEntry): void {
+    this.macros.set(macro.name, macro);
+    this.onChange?.(this.list());
+  }
+
+  remove(name: string): boolean {
+    const removed = this.macros.delete(name.toLowerCase());
+    if (removed) this.onChange?.(this.list());
+    return removed;
+  }
+}
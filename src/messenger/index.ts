@@ -0,0 +1,5 @@
+export * from "./types";
+export { Router, ChatContext, type CommandContext, type MatchContext, type MessageContext } from "./router";
+export { TelegramMessenger, type TelegramOptions } from "./telegram";
+export { type WebhookConfig } from "./webhook";
+export { TerminalMessenger, type TerminalOptions } from "./terminal";
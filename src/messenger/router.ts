@@ -0,0 +1,178 @@
+// Routing updates to command, button and message handlers
+import type {
+  ChatUser,
+  FileOptions,
+  IncomingAction,
+  IncomingMessage,
+  MessageOptions,
+  Messenger,
+  OutgoingFile,
+  Update,
+  Keyboard,
+} from "./types";
+
+export interface SentMessage {
+  messageId: number;
+}
+
+/**
+ * One incoming update plus helpers to answer in its chat
+ */
+export class ChatContext<M = unknown> {
+  readonly messenger: Messenger;
+  readonly chatId: number;
+  readonly from: ChatUser;
+  readonly message?: IncomingMessage;
+  readonly action?: IncomingAction;
+  // Command arguments, or the regex match for actions and hears
+  match: M;
+
+  constructor(messenger: Messenger, update: Update, match: M) {
+    this.messenger = messenger;
+    this.chatId = update.chatId;
+    this.from = update.from;
+    this.message = update.message;
+    this.action = update.action;
+    this.match = match;
+  }
+
+  async reply(text: string, options?: MessageOptions): Promise<SentMessage> {
+    return { messageId: await this.messenger.send(this.chatId, text, options) };
+  }
+
+  editMessage(messageId: number, text: string, options?: MessageOptions): Promise<void> {
+    return this.messenger.edit(this.chatId, messageId, text, options);
+  }
+
+  /**
+   * Edit the message whose button was pressed
+   */
+  edit(text: string, options?: MessageOptions): Promise<void> {
+    if (!this.action) return Promise.reject(new Error("No message to edit"));
+    return this.editMessage(this.action.messageId, text, options);
+  }
+
+  editKeyboard(keyboard?: Keyboard): Promise<void> {
+    if (!this.action) return Promise.reject(new Error("No message to edit"));
+    return this.messenger.editKeyboard(this.chatId, this.action.messageId, keyboard);
+  }
+
+  /**
+   * Acknowledge the button press; a no-op for plain messages
+   */
+  async answer(text?: string): Promise<void> {
+    if (this.action) await this.messenger.answerAction(this.action.id, text);
+  }
+
+  async replyWithFile(file: OutgoingFile, options?: FileOptions): Promise<SentMessage> {
+    return { messageId: await this.messenger.sendFile(this.chatId, file, options) };
+  }
+
+  downloadFile(fileId: string, destPath: string): Promise<void> {
+    return this.messenger.downloadFile(fileId, destPath);
+  }
+}
+
+export type CommandContext = ChatContext<string>;
+export type MatchContext = ChatContext<RegExpMatchArray>;
+export type MessageContext = ChatContext<undefined> & { message: IncomingMessage };
+
+export type Middleware = (ctx: ChatContext<unknown>, next: () => Promise<void>) => Promise<void>;
+type MessageKind = "text" | "photo" | "voice" | "audio" | "document";
+
+interface Route {
+  // Returns the match when the route applies to the update
+  test: (update: Update) => unknown;
+  handler: (ctx: ChatContext<never>) => unknown;
+}
+
+const COMMAND_PATTERN = /^\/([A-Za-z0-9_]+)(?:@\S+)?(?:\s+([\s\S]*))?$/;
+
+/**
+ * Dispatches each update to the first matching route, in registration order.
+ * Text that isn't a registered command falls through to later routes.
+ */
+export class Router {
+  private middleware: Middleware[] = [];
+  private routes: Route[] = [];
+  private commandNames = new Set<string>();
+
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  command(name: string, handler: (ctx: CommandContext) => unknown): void {
+    this.commandNames.add(name);
+    this.routes.push({
+      test: (update) => {
+        const match = update.message?.text?.match(COMMAND_PATTERN);
+        return match && match[1] === name ? (match[2] ?? "").trim() : null;
+      },
+      handler,
+    });
+  }
+
+  hasCommand(name: string): boolean {
+    return this.commandNames.has(name);
+  }
+
+  /**
+   * Button presses whose data equals or matches pattern
+   */
+  action(pattern: string | RegExp, handler: (ctx: MatchContext) => unknown): void {
+    this.routes.push({
+      test: (update) => {
+        const data = update.action?.data;
+        if (data === undefined) return null;
+        if (typeof pattern === "string") return data === pattern ? [data] : null;
+        return data.match(pattern);
+      },
+      handler,
+    });
+  }
+
+  /**
+   * Text messages matching pattern
+   */
+  hears(pattern: RegExp, handler: (ctx: MatchContext) => unknown): void {
+    this.routes.push({
+      test: (update) => update.message?.text?.match(pattern) ?? null,
+      handler,
+    });
+  }
+
+  on(kinds: MessageKind | MessageKind[], handler: (ctx: MessageContext) => unknown): void {
+    const list = Array.isArray(kinds) ? kinds : [kinds];
+    this.routes.push({
+      test: (update) => (update.message && list.some((kind) => update.message![kind] !== undefined) ? true : null),
+      handler: handler as (ctx: ChatContext<never>) => unknown,
+    });
+  }
+
+  async handle(messenger: Messenger, update: Update): Promise<void> {
+    const run = async (ctx: ChatContext<unknown>) => {
+      for (const route of this.routes) {
+        const match = route.test(update);
+        if (match === null || match === undefined) continue;
+        ctx.match = match === true ? undefined : match;
+        await route.handler(ctx as ChatContext<never>);
+        return;
+      }
+    };
+
+    const ctx = new ChatContext<unknown>(messenger, update, undefined);
+    const dispatch = async (i: number): Promise<void> => {
+      if (i < this.middleware.length) {
+        await this.middleware[i](ctx, () => dispatch(i + 1));
+      } else {
+        await run(ctx);
+      }
+    };
+
+    try {
+      await dispatch(0);
+    } catch (e) {
+      console.error("Error handling update:", e);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// Telegram transport via grammY
+import { Bot, InlineKeyboard, InputFile, webhookCallback, type Context } from "grammy";
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import type * as http from "http";
+import * as https from "https";
+import { Outbox } from "../outbox";
+import { TELEGRAM_MESSAGE_LIMIT } from "../render";
+import type {
+  BotCommand,
+  FileOptions,
+  Keyboard,
+  MessageOptions,
+  Messenger,
+  OutgoingFile,
+  Update,
+  UpdateHandler,
+} from "./types";
+import {
+  createWebhookServer,
+  isValidSecretToken,
+  listen,
+  DEFAULT_WEBHOOK_HOST,
+  DEFAULT_WEBHOOK_PORT,
+  type WebhookConfig,
+} from "./webhook";
+
+export interface TelegramOptions {
+  // Receive updates by webhook instead of long polling
+  webhook?: WebhookConfig;
+}
+
+const PARSE_MODES = { markdown: "Markdown", html: "HTML" } as const;
+
+function toInlineKeyboard(keyboard: Keyboard | undefined): InlineKeyboard | undefined {
+  const rows = keyboard?.rows;
+  if (!rows?.length) return undefined;
+  return InlineKeyboard.from(rows.map((row) => row.map((b) => InlineKeyboard.text(b.label, b.data))));
+}
+
+function toTelegramOptions(options: MessageOptions = {}) {
+  return {
+    parse_mode: options.format && options.format !== "plain" ? PARSE_MODES[options.format] : undefined,
+    reply_markup: toInlineKeyboard(options.keyboard),
+  };
+}
+
+/**
+ * The parts of a grammY update the bot logic uses
+ */
+function toUpdate(ctx: Context): Update | null {
+  if (!ctx.from || !ctx.chat) return null;
+  const from = { id: ctx.from.id, username: ctx.from.username };
+
+  if (ctx.callbackQuery?.data !== undefined) {
+    const message = ctx.callbackQuery.message;
+    if (!message) return null;
+    return {
+      chatId: ctx.chat.id,
+      from,
+      action: {
+        id: ctx.callbackQuery.id,
+        data: ctx.callbackQuery.data,
+        messageId: message.message_id,
+        messageText: "text" in message ? message.text : undefined,
+      },
+    };
+  }
+
+  const msg = ctx.message;
+  if (!msg) return null;
+  // Telegram sends several sizes of a photo, largest last
+  const photo = msg.photo?.[msg.photo.length - 1];
+  return {
+    chatId: ctx.chat.id,
+    from,
+    message: {
+      id: msg.message_id,
+      text: msg.text,
+      caption: msg.caption,
+      photo: photo && { fileId: photo.file_id, size: photo.file_size },
+      voice: msg.voice && { fileId: msg.voice.file_id, mimeType: msg.voice.mime_type, size: msg.voice.file_size },
+      audio: msg.audio && {
+        fileId: msg.audio.file_id,
+        fileName: msg.audio.file_name,
+        mimeType: msg.audio.mime_type,
+        size: msg.audio.file_size,
+      },
+      document: msg.document && {
+        fileId: msg.document.file_id,
+        fileName: msg.document.file_name,
+        mimeType: msg.document.mime_type,
+        size: msg.document.file_size,
+      },
+    },
+  };
+}
+
+export class TelegramMessenger implements Messenger {
+  readonly type = "telegram" as const;
+  readonly messageLimit = TELEGRAM_MESSAGE_LIMIT;
+  private token: string;
+  private bot: Bot;
+  private webhook?: WebhookConfig;
+  private server: http.Server | null = null;
+
+  constructor(token: string, options: TelegramOptions = {}) {
+    this.token = token;
+    this.webhook = options.webhook;
+    this.bot = new Bot(token);
+    // Every send and edit goes through a per-chat queue to stay under flood limits
+    this.bot.api.config.use(new Outbox().transformer());
+  }
+
+  async send(chatId: number, text: string, options?: MessageOptions): Promise<number> {
+    const msg = await this.bot.api.sendMessage(chatId, text, toTelegramOptions(options));
+    return msg.message_id;
+  }
+
+  async edit(chatId: number, messageId: number, text: string, options?: MessageOptions): Promise<void> {
+    try {
+      await this.bot.api.editMessageText(chatId, messageId, text, toTelegramOptions(options));
+    } catch (e) {
+      if (!String(e).includes("message is not modified")) throw e;
+    }
+  }
+
+  async editKeyboard(chatId: number, messageId: number, keyboard?: Keyboard): Promise<void> {
+    await this.bot.api.editMessageReplyMarkup(chatId, messageId, { reply_markup: toInlineKeyboard(keyboard) });
+  }
+
+  async sendFile(chatId: number, file: OutgoingFile, options: FileOptions = {}): Promise<number> {
+    const input = new InputFile(file.data ?? file.path!, file.filename);
+    const msg = options.photo
+      ? await this.bot.api.sendPhoto(chatId, input, { caption: options.caption })
+      : await this.bot.api.sendDocument(chatId, input, { caption: options.caption });
+    return msg.message_id;
+  }
+
+  async downloadFile(fileId: string, destPath: string): Promise<void> {
+    const file = await this.bot.api.getFile(fileId);
+    const fileUrl = `https://api.telegram.org/file/bot${this.token}/${file.file_path}`;
+
+    await new Promise<void>((resolve, reject) => {
+      const fileStream = fs.createWriteStream(destPath);
+      https.get(fileUrl, (response) => {
+        response.pipe(fileStream);
+        fileStream.on("finish", () => {
+          fileStream.close();
+          resolve();
+        });
+      }).on("error", reject);
+    });
+  }
+
+  async answerAction(actionId: string, text?: string): Promise<void> {
+    await this.bot.api.answerCallbackQuery(actionId, text ? { text } : undefined);
+  }
+
+  async setCommands(commands: BotCommand[]): Promise<void> {
+    await this.bot.api.setMyCommands(commands);
+  }
+
+  async start(handler: UpdateHandler): Promise<void> {
+    this.bot.on(["message", "callback_query:data"], async (ctx) => {
+      const update = toUpdate(ctx);
+      if (update) await handler(update);
+    });
+    if (this.webhook) {
+      await this.startWebhook(this.webhook);
+      return;
+    }
+    await this.bot.start({
+      onStart: (botInfo) => {
+        console.log(`Bot started: @${botInfo.username}`);
+      },
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      await this.bot.stop();
+      return;
+    }
+    this.server = null;
+    await this.bot.api.deleteWebhook().catch((e) => console.error("Failed to delete webhook:", e));
+    server.close();
+    server.closeAllConnections();
+  }
+
+  /**
+   * Serve the webhook and register it with Telegram. Resolves once stop() closes the server.
+   */
+  private async startWebhook(config: WebhookConfig): Promise<void> {
+    const secretToken = config.secretToken || randomBytes(32).toString("hex");
+    if (!isValidSecretToken(secretToken)) {
+      throw new Error("Webhook secret token may only contain A-Z, a-z, 0-9, _ and - (up to 256 characters)");
+    }
+
+    await this.bot.init();
+    // Long handlers (transcription, checkpoints) keep running after Telegram gets its 200
+    const callback = webhookCallback(this.bot, "http", { onTimeout: "return", secretToken });
+    const server = createWebhookServer(config, callback);
+    await listen(server, config);
+    this.server = server;
+    const closed = new Promise<void>((resolve) => server.once("close", () => resolve()));
+
+    try {
+      await this.bot.api.setWebhook(config.url, {
+        secret_token: secretToken,
+        allowed_updates: ["message", "callback_query"],
+      });
+    } catch (e) {
+      this.server = null;
+      server.close();
+      throw e;
+    }
+
+    const address = `${config.host || DEFAULT_WEBHOOK_HOST}:${config.port ?? DEFAULT_WEBHOOK_PORT}`;
+    console.log(`Bot started: @${this.bot.botInfo.username} (webhook ${config.url}, listening on ${address})`);
+    await closed;
+  }
+}
@@ -0,0 +1,208 @@
+// Local terminal transport: the whole bot over stdin/stdout, no network needed
+//
+// Each line typed is a message from the local user. Buttons are numbered as
+// they are shown and pressed by typing #<n>. @<path> [caption] sends a local
+// file as if it had been uploaded (images as photos, .ogg/.mp3/... as audio).
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { htmlToPlainText } from "../render";
+import { sanitizeFilename, uniquePath } from "../uploads";
+import type {
+  BotCommand,
+  FileOptions,
+  IncomingMessage,
+  Keyboard,
+  MessageOptions,
+  Messenger,
+  OutgoingFile,
+  Update,
+  UpdateHandler,
+} from "./types";
+
+export interface TerminalOptions {
+  // The local user; must be in the allowlist like any other
+  userId: number;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  // Where files sent by the bot are written
+  downloadDir?: string;
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp)$/i;
+const AUDIO_EXTENSIONS = /\.(ogg|oga|opus|mp3|m4a|wav|flac)$/i;
+// No real limit, but keep responses split into readable chunks
+const TERMINAL_MESSAGE_LIMIT = 16384;
+
+function toPlainText(text: string, options: MessageOptions = {}): string {
+  if (options.format === "html") return htmlToPlainText(text);
+  if (options.format === "markdown") return text.replace(/[*`]/g, "");
+  return text;
+}
+
+export class TerminalMessenger implements Messenger {
+  readonly type = "terminal" as const;
+  readonly messageLimit = TERMINAL_MESSAGE_LIMIT;
+  private userId: number;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private downloadDir: string;
+  private lineReader: readline.Interface | null = null;
+  private nextMessageId = 1;
+  private nextButton = 1;
+  private nextActionId = 1;
+  // Button number -> the message it belongs to and its data
+  private buttons = new Map<number, { messageId: number; data: string }>();
+  // Last text shown per message, so unchanged edits print nothing
+  private texts = new Map<number, string>();
+  private commands: BotCommand[] = [];
+
+  constructor(options: TerminalOptions) {
+    this.userId = options.userId;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.downloadDir = options.downloadDir ?? path.join(os.tmpdir(), "vibegram", "terminal");
+  }
+
+  async send(_chatId: number, text: string, options?: MessageOptions): Promise<number> {
+    const id = this.nextMessageId++;
+    this.show(id, toPlainText(text, options), options?.keyboard, "");
+    return id;
+  }
+
+  async edit(_chatId: number, messageId: number, text: string, options?: MessageOptions): Promise<void> {
+    const plain = toPlainText(text, options);
+    if (this.texts.get(messageId) === plain && !options?.keyboard) return;
+    this.dropButtons(messageId);
+    this.show(messageId, plain, options?.keyboard, "✎ ");
+  }
+
+  async editKeyboard(_chatId: number, messageId: number, keyboard?: Keyboard): Promise<void> {
+    this.dropButtons(messageId);
+    if (keyboard?.rows.length) {
+      this.write(`[${messageId}] ✎ (buttons)`);
+      this.showButtons(messageId, keyboard);
+    }
+  }
+
+  async sendFile(_chatId: number, file: OutgoingFile, options: FileOptions = {}): Promise<number> {
+    let filePath = file.path!;
+    if (file.data) {
+      fs.mkdirSync(this.downloadDir, { recursive: true });
+      filePath = uniquePath(this.downloadDir, sanitizeFilename(file.filename));
+      fs.writeFileSync(filePath, file.data);
+    }
+    const id = this.nextMessageId++;
+    this.write(`[${id}] 📎 ${filePath}${options.caption ? ` - ${options.caption}` : ""}`);
+    return id;
+  }
+
+  async downloadFile(fileId: string, destPath: string): Promise<void> {
+    // Terminal "uploads" are local paths already
+    fs.copyFileSync(fileId, destPath);
+  }
+
+  async answerAction(_actionId: string, text?: string): Promise<void> {
+    if (text) this.write(`    ↳ ${text}`);
+  }
+
+  async setCommands(commands: BotCommand[]): Promise<void> {
+    this.commands = commands;
+  }
+
+  async start(handler: UpdateHandler): Promise<void> {
+    this.lineReader = readline.createInterface({ input: this.input, terminal: false });
+    this.write(
+      `Vibegram terminal. Type a message, #<n> to press a button, @<path> [caption] to send a file.` +
+        (this.commands.length ? `\nCommands: ${this.commands.map((c) => `/${c.command}`).join(" ")}` : "")
+    );
+    // Handled one at a time, like Telegram polling
+    for await (const line of this.lineReader) {
+      const update = this.parse(line);
+      if (update) await handler(update);
+    }
+    this.lineReader = null;
+  }
+
+  async stop(): Promise<void> {
+    this.lineReader?.close();
+  }
+
+  private parse(line: string): Update | null {
+    const text = line.trim();
+    if (!text) return null;
+    const from = { id: this.userId, username: os.userInfo().username };
+
+    const press = text.match(/^#(\d+)$/);
+    if (press) {
+      const button = this.buttons.get(parseInt(press[1], 10));
+      if (!button) {
+        this.write(`No button #${press[1]}`);
+        return null;
+      }
+      return {
+        chatId: this.userId,
+        from,
+        action: {
+          id: String(this.nextActionId++),
+          data: button.data,
+          messageId: button.messageId,
+          messageText: this.texts.get(button.messageId),
+        },
+      };
+    }
+
+    const message: IncomingMessage = { id: this.nextMessageId++ };
+    const attach = text.match(/^@(\S+)(?:\s+([\s\S]+))?$/);
+    if (attach) {
+      const filePath = path.resolve(attach[1].replace(/^~(?=\/|$)/, os.homedir()));
+      let size: number;
+      try {
+        size = fs.statSync(filePath).size;
+      } catch {
+        this.write(`Not found: ${filePath}`);
+        return null;
+      }
+      const file = { fileId: filePath, fileName: path.basename(filePath), size };
+      if (IMAGE_EXTENSIONS.test(filePath)) {
+        message.photo = file;
+      } else if (AUDIO_EXTENSIONS.test(filePath)) {
+        message.audio = file;
+      } else {
+        message.document = file;
+      }
+      message.caption = attach[2];
+    } else {
+      message.text = text;
+    }
+    return { chatId: this.userId, from, message };
+  }
+
+  private show(messageId: number, text: string, keyboard: Keyboard | undefined, marker: string): void {
+    this.texts.set(messageId, text);
+    this.write(`[${messageId}] ${marker}${text}`);
+    if (keyboard?.rows.length) this.showButtons(messageId, keyboard);
+  }
+
+  private showButtons(messageId: number, keyboard: Keyboard): void {
+    for (const row of keyboard.rows) {
+      const labels = row.map((button) => {
+        const n = this.nextButton++;
+        this.buttons.set(n, { messageId, data: button.data });
+        return `#${n} ${button.label}`;
+      });
+      this.write(`    ${labels.join("   ")}`);
+    }
+  }
+
+  private dropButtons(messageId: number): void {
+    for (const [n, button] of this.buttons) {
+      if (button.messageId === messageId) this.buttons.delete(n);
+    }
+  }
+
+  private write(text: string): void {
+    this.output.write(text + "\n");
+  }
+}
@@ -0,0 +1,126 @@
+// Abstract messenger interface
+// The bot logic talks to chats through this, so Telegram can be swapped
+// for a terminal, Discord, Slack, etc.
+
+export type MessengerType = "telegram" | "terminal";
+
+// How message text should be interpreted
+export type TextFormat = "plain" | "markdown" | "html";
+
+export interface Button {
+  label: string;
+  // Returned in the action when the button is pressed
+  data: string;
+}
+
+/**
+ * Rows of buttons attached to a message
+ */
+export class Keyboard {
+  private rowList: Button[][] = [[]];
+
+  text(label: string, data: string): this {
+    this.rowList[this.rowList.length - 1].push({ label, data });
+    return this;
+  }
+
+  row(): this {
+    if (this.rowList[this.rowList.length - 1].length > 0) {
+      this.rowList.push([]);
+    }
+    return this;
+  }
+
+  // Non-empty rows
+  get rows(): Button[][] {
+    return this.rowList.filter((row) => row.length > 0);
+  }
+}
+
+export interface MessageOptions {
+  format?: TextFormat;
+  keyboard?: Keyboard;
+}
+
+export interface OutgoingFile {
+  // A file on disk, or contents to send under filename
+  path?: string;
+  data?: Buffer;
+  filename?: string;
+}
+
+export interface FileOptions {
+  caption?: string;
+  // Show inline as an image rather than as a document
+  photo?: boolean;
+}
+
+// Incoming updates
+export interface ChatUser {
+  id: number;
+  username?: string;
+}
+
+export interface IncomingFile {
+  // Transport-specific handle for downloadFile
+  fileId: string;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface IncomingMessage {
+  id: number;
+  text?: string;
+  caption?: string;
+  photo?: IncomingFile;
+  voice?: IncomingFile;
+  audio?: IncomingFile;
+  document?: IncomingFile;
+}
+
+// A button press
+export interface IncomingAction {
+  // Transport-specific id for answerAction
+  id: string;
+  data: string;
+  // The message the button belongs to
+  messageId: number;
+  messageText?: string;
+}
+
+export interface Update {
+  chatId: number;
+  from: ChatUser;
+  message?: IncomingMessage;
+  action?: IncomingAction;
+}
+
+export type UpdateHandler = (update: Update) => Promise<void>;
+
+export interface BotCommand {
+  command: string;
+  description: string;
+}
+
+export interface Messenger {
+  readonly type: MessengerType;
+  // Longest text a single message can hold
+  readonly messageLimit: number;
+
+  // Returns the new message id
+  send(chatId: number, text: string, options?: MessageOptions): Promise<number>;
+  // Resolves without error when the text is unchanged
+  edit(chatId: number, messageId: number, text: string, options?: MessageOptions): Promise<void>;
+  // Replace a message's buttons; without a keyboard they are removed
+  editKeyboard(chatId: number, messageId: number, keyboard?: Keyboard): Promise<void>;
+  sendFile(chatId: number, file: OutgoingFile, options?: FileOptions): Promise<number>;
+  downloadFile(fileId: string, destPath: string): Promise<void>;
+  // Acknowledge a button press, optionally with a short notice
+  answerAction(actionId: string, text?: string): Promise<void>;
+  setCommands(commands: BotCommand[]): Promise<void>;
+
+  // Deliver updates to handler until stop() is called or the transport closes
+  start(handler: UpdateHandler): Promise<void>;
+  stop(): Promise<void>;
+}
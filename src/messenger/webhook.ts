@@ -0,0 +1,75 @@
+// HTTP server that receives Telegram updates by webhook
+import * as http from "http";
+
+export interface WebhookConfig {
+  // Public URL Telegram posts updates to, e.g. https://bot.example.com/telegram
+  url: string;
+  // Local address to listen on, usually behind a reverse proxy
+  host?: string;
+  port?: number;
+  // Path updates arrive on locally (default: the path of url)
+  path?: string;
+  // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token; generated per start when unset
+  secretToken?: string;
+  healthPath?: string;
+}
+
+export const DEFAULT_WEBHOOK_HOST = "127.0.0.1";
+export const DEFAULT_WEBHOOK_PORT = 8080;
+export const DEFAULT_HEALTH_PATH = "/healthz";
+
+/**
+ * Local path updates are posted to
+ */
+export function webhookPath(config: WebhookConfig): string {
+  if (config.path) return config.path.startsWith("/") ? config.path : `/${config.path}`;
+  return new URL(config.url).pathname || "/";
+}
+
+/**
+ * Telegram only accepts 1-256 characters from A-Z, a-z, 0-9, _ and -
+ */
+export function isValidSecretToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{1,256}$/.test(token);
+}
+
+/**
+ * Server routing POSTs on the webhook path to onUpdate and answering
+ * GETs on the health path. Everything else is a 404.
+ */
+export function createWebhookServer(
+  config: WebhookConfig,
+  onUpdate: (req: http.IncomingMessage, res: http.ServerResponse) => unknown
+): http.Server {
+  const updatePath = webhookPath(config);
+  const healthPath = config.healthPath || DEFAULT_HEALTH_PATH;
+
+  return http.createServer((req, res) => {
+    const url = (req.url || "/").split("?")[0];
+    if (req.method === "GET" && url === healthPath) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", uptimeSeconds: Math.round(process.uptime()) }));
+      return;
+    }
+    if (req.method === "POST" && url === updatePath) {
+      Promise.resolve(onUpdate(req, res)).catch((e) => {
+        console.error("Webhook update failed:", e);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+}
+
+export function listen(server: http.Server, config: WebhookConfig): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port ?? DEFAULT_WEBHOOK_PORT, config.host || DEFAULT_WEBHOOK_HOST, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,229 @@
+// Per-chat queue for outbound Telegram calls
+//
+// Agents can emit dozens of events per second and each one edits a message.
+// Calls are queued per chat and run one at a time in order. Pending edits to the
+// same message are merged (last write wins), intermediate edits are throttled,
+// and 429 responses pause the chat for retry_after before trying again.
+import { AsyncLocalStorage } from "async_hooks";
+import type { Transformer } from "grammy";
+
+export type Priority = "high" | "normal" | "low";
+
+const PRIORITY_ORDER: Record<Priority, number> = { high: 0, normal: 1, low: 2 };
+
+// The parts of a Bot API response the queue looks at
+export interface ApiResult {
+  ok: boolean;
+  error_code?: number;
+  description?: string;
+  parameters?: { retry_after?: number };
+}
+
+export interface OutboxOptions {
+  // Minimum gap between low-priority edits in one chat
+  lowIntervalMs?: number;
+  // How many times a call is retried after 429s
+  maxRetries?: number;
+}
+
+interface Job {
+  key?: string;
+  priority: Priority;
+  seq: number;
+  attempts: number;
+  run: () => Promise<ApiResult>;
+  waiters: { resolve: (result: ApiResult) => void; reject: (error: unknown) => void }[];
+}
+
+interface ChatQueue {
+  jobs: Job[];
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  pausedUntil: number;
+  lastLowAt: number;
+}
+
+const DEFAULT_LOW_INTERVAL_MS = 1000;
+const DEFAULT_MAX_RETRIES = 5;
+// Edit texts remembered to skip "message is not modified" round trips
+const MAX_REMEMBERED_EDITS = 500;
+
+const urgency = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run fn with every Telegram call it makes queued ahead of other traffic.
+ * Meant for final status edits; sends should stay normal so messages keep their order.
+ */
+export function urgent<T>(fn: () => Promise<T>): Promise<T> {
+  return urgency.run(true, fn);
+}
+
+export class Outbox {
+  private queues = new Map<string, ChatQueue>();
+  private seq = 0;
+  private lowIntervalMs: number;
+  private maxRetries: number;
+  private lastEdits = new Map<string, string>();
+
+  constructor(options: OutboxOptions = {}) {
+    this.lowIntervalMs = options.lowIntervalMs ?? DEFAULT_LOW_INTERVAL_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Queue a call for a chat. A pending job with the same key is replaced
+   * in place, and both callers get the result of the newer call.
+   */
+  enqueue<R extends ApiResult>(
+    chatId: string | number,
+    run: () => Promise<R>,
+    options: { key?: string; priority?: Priority } = {}
+  ): Promise<R> {
+    const id = String(chatId);
+    let queue = this.queues.get(id);
+    if (!queue) {
+      queue = { jobs: [], running: false, timer: null, pausedUntil: 0, lastLowAt: 0 };
+      this.queues.set(id, queue);
+    }
+    const priority = options.priority ?? (urgency.getStore() ? "high" : "normal");
+
+    return new Promise<R>((resolve, reject) => {
+      const waiter = { resolve: resolve as (result: ApiResult) => void, reject };
+      const existing = options.key ? queue!.jobs.find((job) => job.key === options.key) : undefined;
+      if (existing) {
+        existing.run = run;
+        existing.waiters.push(waiter);
+        if (PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.priority]) {
+          existing.priority = priority;
+        }
+      } else {
+        queue!.jobs.push({ key: options.key, priority, seq: this.seq++, attempts: 0, run, waiters: [waiter] });
+      }
+      this.schedule(id);
+    });
+  }
+
+  /**
+   * Calls still waiting in a chat's queue
+   */
+  pending(chatId: string | number): number {
+    return this.queues.get(String(chatId))?.jobs.length ?? 0;
+  }
+
+  /**
+   * grammY API transformer that routes every chat-bound call through the queue
+   */
+  transformer(): Transformer {
+    return (prev, method, payload, signal) => {
+      const params = payload as Record<string, unknown>;
+      const chatId = params.chat_id as string | number | undefined;
+      if (chatId === undefined || method === "sendChatAction") {
+        return prev(method, payload, signal);
+      }
+
+      const isEdit = method.startsWith("editMessage");
+      const messageId = params.message_id as number | undefined;
+      const key = isEdit && messageId ? `${method}:${messageId}` : undefined;
+      const priority: Priority = urgency.getStore() ? "high" : isEdit ? "low" : "normal";
+
+      const run = async () => {
+        const editKey = method === "editMessageText" ? `${chatId}:${messageId}` : null;
+        const snapshot = editKey ? JSON.stringify([params.text, params.parse_mode, params.reply_markup]) : "";
+        if (editKey && this.lastEdits.get(editKey) === snapshot) {
+          return { ok: true as const, result: true };
+        }
+
+        const result = await prev(method, payload, signal);
+        if (result.ok && editKey) {
+          this.rememberEdit(editKey, snapshot);
+        }
+        if (!result.ok && result.error_code !== 429 && !/message is not modified/.test(result.description)) {
+          console.error(`[outbox] ${method} failed: ${result.description}`);
+        }
+        return result;
+      };
+
+      return this.enqueue(chatId, run, { key, priority }) as ReturnType<typeof prev>;
+    };
+  }
+
+  private rememberEdit(key: string, snapshot: string): void {
+    this.lastEdits.delete(key);
+    this.lastEdits.set(key, snapshot);
+    if (this.lastEdits.size > MAX_REMEMBERED_EDITS) {
+      const oldest = this.lastEdits.keys().next().value;
+      if (oldest) this.lastEdits.delete(oldest);
+    }
+  }
+
+  private next(queue: ChatQueue): Job | undefined {
+    let best: Job | undefined;
+    for (const job of queue.jobs) {
+      if (
+        !best ||
+        PRIORITY_ORDER[job.priority] < PRIORITY_ORDER[best.priority] ||
+        (job.priority === best.priority && job.seq < best.seq)
+      ) {
+        best = job;
+      }
+    }
+    return best;
+  }
+
+  private schedule(id: string): void {
+    const queue = this.queues.get(id);
+    if (!queue || queue.running) return;
+    if (queue.timer) {
+      // Something new arrived while waiting; it may be allowed to go sooner
+      clearTimeout(queue.timer);
+      queue.timer = null;
+    }
+
+    const job = this.next(queue);
+    if (!job) return;
+
+    const now = Date.now();
+    let wait = queue.pausedUntil - now;
+    if (job.priority === "low") {
+      wait = Math.max(wait, queue.lastLowAt + this.lowIntervalMs - now);
+    }
+    if (wait > 0) {
+      queue.timer = setTimeout(() => {
+        queue.timer = null;
+        this.schedule(id);
+      }, wait);
+      return;
+    }
+
+    queue.jobs.splice(queue.jobs.indexOf(job), 1);
+    queue.running = true;
+    if (job.priority === "low") queue.lastLowAt = now;
+    this.execute(id, queue, job);
+  }
+
+  private async execute(id: string, queue: ChatQueue, job: Job): Promise<void> {
+    try {
+      const result = await job.run();
+      const retryAfter = result.ok ? undefined : result.parameters?.retry_after;
+      if (result.error_code === 429 && retryAfter !== undefined && job.attempts < this.maxRetries) {
+        console.warn(`[outbox] Rate limited in chat ${id}, retrying in ${retryAfter}s`);
+        queue.pausedUntil = Date.now() + retryAfter * 1000;
+        job.attempts++;
+        // A newer edit for the same message may have been queued meanwhile
+        const newer = job.key ? queue.jobs.find((j) => j.key === job.key) : undefined;
+        if (newer) {
+          newer.waiters.push(...job.waiters);
+        } else {
+          queue.jobs.push(job);
+        }
+      } else {
+        for (const waiter of job.waiters) waiter.resolve(result);
+      }
+    } catch (e) {
+      for (const waiter of job.waiters) waiter.reject(e);
+    } finally {
+      queue.running = false;
+      this.schedule(id);
+    }
+  }
+}
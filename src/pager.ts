@@ -0,0 +1,143 @@
+// Long output kept on disk and shown a page at a time
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { escapeHtml } from "./render";
+
+export interface PagedDocument {
+  id: string;
+  title: string;
+  createdAt: number;
+  content: string;
+}
+
+export interface SearchMatch {
+  // 1-based line number in the document
+  line: number;
+  page: number;
+  text: string;
+}
+
+// Escaped characters per page, leaving room for the header and <pre> tags
+export const DEFAULT_PAGE_SIZE = 3500;
+const MAX_DOCUMENTS_PER_USER = 50;
+
+/**
+ * Split content into pages at line boundaries. Sizes are measured after
+ * HTML escaping so a page always fits in one message; overlong lines are cut.
+ */
+export function paginate(content: string, pageSize = DEFAULT_PAGE_SIZE): string[] {
+  const pages: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const push = (line: string) => {
+    const length = escapeHtml(line).length + 1;
+    if (size + length > pageSize && current.length) {
+      pages.push(current.join("\n"));
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += length;
+  };
+
+  for (const line of content.split("\n")) {
+    if (escapeHtml(line).length < pageSize) {
+      push(line);
+      continue;
+    }
+    // Worst case every character escapes to 6
+    const step = Math.max(1, Math.floor(pageSize / 6));
+    for (let i = 0; i < line.length; i += step) {
+      push(line.slice(i, i + step));
+    }
+  }
+  if (current.length) pages.push(current.join("\n"));
+  return pages.length ? pages : [""];
+}
+
+/**
+ * Lines containing query (case-insensitive), with the page each is on
+ */
+export function searchDocument(content: string, query: string, pageSize = DEFAULT_PAGE_SIZE): SearchMatch[] {
+  const needle = query.toLowerCase();
+  const matches: SearchMatch[] = [];
+  let line = 1;
+  paginate(content, pageSize).forEach((page, index) => {
+    for (const text of page.split("\n")) {
+      if (text.toLowerCase().includes(needle)) {
+        matches.push({ line, page: index, text });
+      }
+      line++;
+    }
+  });
+  return matches;
+}
+
+/**
+ * Documents stored per user under dir/<userId>/<id>.json.
+ * Lookups only ever look in the requesting user's directory.
+ */
+export class PageStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private userDir(userId: number): string {
+    return path.join(this.dir, String(userId));
+  }
+
+  save(userId: number, title: string, content: string): PagedDocument {
+    const doc: PagedDocument = {
+      id: randomBytes(4).toString("hex"),
+      title,
+      createdAt: Date.now(),
+      content,
+    };
+    try {
+      const dir = this.userDir(userId);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, `${doc.id}.json`), JSON.stringify(doc));
+      this.prune(userId);
+    } catch (e) {
+      console.error("Failed to save page document:", e);
+    }
+    return doc;
+  }
+
+  get(userId: number, id: string): PagedDocument | null {
+    if (!/^[0-9a-f]+$/.test(id)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.userDir(userId), `${id}.json`), "utf-8")) as PagedDocument;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The user's most recent document
+   */
+  latest(userId: number): PagedDocument | null {
+    const [newest] = this.list(userId);
+    return newest ? this.get(userId, newest.id) : null;
+  }
+
+  private list(userId: number): { id: string; mtime: number }[] {
+    const dir = this.userDir(userId);
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => ({ id: f.replace(/\.json$/, ""), mtime: fs.statSync(path.join(dir, f)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+  }
+
+  private prune(userId: number): void {
+    for (const old of this.list(userId).slice(MAX_DOCUMENTS_PER_USER)) {
+      fs.rmSync(path.join(this.userDir(userId), `${old.id}.json`), { force: true });
+    }
+  }
+}
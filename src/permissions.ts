@@ -0,0 +1,61 @@
+// Pending tool permission prompts awaiting an answer from the chat
+import type { PermissionDecision, PermissionRequest } from "./agent";
+
+export const DEFAULT_PERMISSION_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingPermission {
+  request: PermissionRequest;
+  resolve: (decision: PermissionDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class PermissionBridge {
+  private pending = new Map<string, PendingPermission>();
+  private nextId = 1;
+
+  /**
+   * Register a prompt. The returned promise settles when answered,
+   * or with a deny once the timeout elapses.
+   */
+  request(
+    request: PermissionRequest,
+    timeoutMs: number = DEFAULT_PERMISSION_TIMEOUT_MS
+  ): { id: string; decision: Promise<PermissionDecision> } {
+    const id = (this.nextId++).toString(36);
+    const decision = new Promise<PermissionDecision>((resolve) => {
+      const timer = setTimeout(() => {
+        this.answer(id, {
+          behavior: "deny",
+          message: `No answer within ${Math.round(timeoutMs / 1000)}s, tool call denied`,
+        });
+      }, timeoutMs);
+      this.pending.set(id, { request, resolve, timer });
+    });
+    return { id, decision };
+  }
+
+  /**
+   * Answer a pending prompt. Returns false if it already settled.
+   */
+  answer(id: string, decision: PermissionDecision): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    entry.resolve(decision);
+    return true;
+  }
+
+  get(id: string): PermissionRequest | undefined {
+    return this.pending.get(id)?.request;
+  }
+
+  /**
+   * Deny every pending prompt, e.g. when the agent is stopped
+   */
+  denyAll(message: string): void {
+    for (const id of [...this.pending.keys()]) {
+      this.answer(id, { behavior: "deny", message });
+    }
+  }
+}
@@ -0,0 +1,190 @@
+// Finding projects under the configured roots for /projects
+import * as fs from "fs";
+import * as path from "path";
+
+export interface ProjectInfo {
+  path: string;
+  name: string;
+  // Root it was found under, to tell same-named projects apart
+  root: string;
+  git: boolean;
+}
+
+// Pinned projects and when each project was last opened, per user
+export interface ProjectPrefs {
+  pinned: string[];
+  recent: Record<string, number>;
+}
+
+// A directory containing one of these is a project; its subdirectories are still scanned for nested ones
+export const PROJECT_MARKERS = [
+  ".git",
+  "package.json",
+  "pyproject.toml",
+  "setup.py",
+  "Cargo.toml",
+  "go.mod",
+  "pom.xml",
+  "build.gradle",
+  "Gemfile",
+  "composer.json",
+  "deno.json",
+  "Makefile",
+];
+
+const SKIPPED_DIRS = new Set(["node_modules", "vendor", "dist", "build", "target", "venv", "__pycache__"]);
+
+// Roots are scanned this many levels deep, e.g. ~/projects/<org>/<repo>
+const SCAN_DEPTH = 2;
+
+function isProject(dir: string): boolean {
+  return PROJECT_MARKERS.some((marker) => fs.existsSync(path.join(dir, marker)));
+}
+
+/**
+ * Projects in and under each root. Missing roots are skipped.
+ */
+export function findProjects(roots: string[], depth = SCAN_DEPTH): ProjectInfo[] {
+  const found = new Map<string, ProjectInfo>();
+
+  const visit = (dir: string, root: string, level: number) => {
+    if (found.has(dir)) return;
+    if (isProject(dir)) {
+      found.set(dir, { path: dir, name: path.basename(dir), root, git: fs.existsSync(path.join(dir, ".git")) });
+    }
+    if (level >= depth) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name)) {
+        visit(path.join(dir, entry.name), root, level + 1);
+      }
+    }
+  };
+
+  for (const root of roots) {
+    const dir = path.resolve(root);
+    if (fs.existsSync(dir) && fs.statSync(dir).isDirectory()) visit(dir, dir, 0);
+  }
+  return [...found.values()];
+}
+
+/**
+ * How well query matches name as a subsequence, higher is better; null if it doesn't.
+ * Consecutive letters and letters at word starts score extra.
+ */
+export function fuzzyScore(query: string, name: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  const text = name.toLowerCase();
+  if (!q) return 0;
+  if (text === q) return 1000;
+
+  let score = text.startsWith(q) ? 100 : text.includes(q) ? 50 : 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const index = text.indexOf(char, from);
+    if (index < 0) return null;
+    if (index === previous + 1) score += 5;
+    if (index === 0 || /[^a-z0-9]/.test(text[index - 1])) score += 3;
+    score -= index - from;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Pinned projects first (in pin order), then most recently used, then by name
+ */
+export function sortProjects(projects: ProjectInfo[], prefs: ProjectPrefs): ProjectInfo[] {
+  const pinRank = (p: ProjectInfo) => {
+    const index = prefs.pinned.indexOf(p.path);
+    return index < 0 ? Infinity : index;
+  };
+  return [...projects].sort(
+    (a, b) =>
+      pinRank(a) - pinRank(b) ||
+      (prefs.recent[b.path] || 0) - (prefs.recent[a.path] || 0) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Projects matching query, best match first; ties keep the given order
+ */
+export function searchProjects(projects: ProjectInfo[], query: string): ProjectInfo[] {
+  return projects
+    .map((project, index) => ({ project, index, score: fuzzyScore(query, project.name) }))
+    .filter((match): match is { project: ProjectInfo; index: number; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((match) => match.project);
+}
+
+export class ProjectStore {
+  private filePath: string | null;
+  private prefs = new Map<number, ProjectPrefs>();
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    if (!filePath || !fs.existsSync(filePath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<string, ProjectPrefs>;
+      for (const [userId, prefs] of Object.entries(data)) {
+        if (prefs && Array.isArray(prefs.pinned)) {
+          this.prefs.set(Number(userId), { pinned: prefs.pinned, recent: prefs.recent || {} });
+        }
+      }
+    } catch (e) {
+      console.error("Failed to read project store:", e);
+    }
+  }
+
+  get(userId: number): ProjectPrefs {
+    return this.prefs.get(userId) || { pinned: [], recent: {} };
+  }
+
+  isPinned(userId: number, dir: string): boolean {
+    return this.get(userId).pinned.includes(dir);
+  }
+
+  /**
+   * Record that the user switched to dir
+   */
+  touch(userId: number, dir: string, now = Date.now()): void {
+    const prefs = this.get(userId);
+    this.prefs.set(userId, { ...prefs, recent: { ...prefs.recent, [dir]: now } });
+    this.save();
+  }
+
+  /**
+   * Pin or unpin dir. Returns whether it is now pinned.
+   */
+  togglePin(userId: number, dir: string): boolean {
+    const prefs = this.get(userId);
+    const pinned = prefs.pinned.includes(dir);
+    this.prefs.set(userId, {
+      ...prefs,
+      pinned: pinned ? prefs.pinned.filter((p) => p !== dir) : [...prefs.pinned, dir],
+    });
+    this.save();
+    return !pinned;
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a half-written file
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.prefs), null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (e) {
+      console.error("Failed to write project store:", e);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+// Rendering agent markdown as Telegram HTML
+//
+// Agents write CommonMark, which legacy "Markdown" mode mangles (snake_case,
+// stray backticks, unbalanced fences). HTML only needs &, < and > escaped,
+// so code and tool output can never break out of their blocks.
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+type Block = { type: "code"; language: string; code: string } | { type: "text"; text: string };
+
+// A rendered piece of a message and what joins it to the previous piece
+interface Piece {
+  html: string;
+  separator: string;
+}
+
+const LINK_SCHEMES = /^(https?:\/\/|mailto:|tg:\/\/)/i;
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Strip tags and entities, for when Telegram still refuses the HTML
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * A <pre> block with an optional language for syntax highlighting
+ */
+export function codeBlock(code: string, language?: string): string {
+  const escaped = escapeHtml(code);
+  return language
+    ? `<pre><code class="language-${escapeHtml(language)}">${escaped}</code></pre>`
+    : `<pre>${escaped}</pre>`;
+}
+
+/**
+ * Split markdown into fenced code blocks and the text between them.
+ * An unclosed fence runs to the end of the input.
+ */
+export function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.split("\n");
+  let text: string[] = [];
+  let fence: { marker: string; language: string; lines: string[] } | null = null;
+
+  const flushText = () => {
+    const joined = text.join("\n").replace(/^\n+|\n+$/g, "");
+    if (joined.trim()) blocks.push({ type: "text", text: joined });
+    text = [];
+  };
+
+  for (const line of lines) {
+    if (fence) {
+      const close = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+      if (close && close[1][0] === fence.marker[0] && close[1].length >= fence.marker.length) {
+        blocks.push({ type: "code", language: fence.language, code: fence.lines.join("\n") });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const open = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (open) {
+      flushText();
+      fence = { marker: open[1], language: open[2], lines: [] };
+      continue;
+    }
+    text.push(line);
+  }
+
+  if (fence) {
+    blocks.push({ type: "code", language: fence.language, code: fence.lines.join("\n") });
+  }
+  flushText();
+  return blocks;
+}
+
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "<b>$1</b>")
+    .replace(/(^|[^\w])__(?=\S)(.+?)(?<=\S)__(?!\w)/g, "$1<b>$2</b>")
+    .replace(/(^|[^\w*])\*(?=[^\s*])([^*]+?)(?<=[^\s*])\*(?![\w*])/g, "$1<i>$2</i>")
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]+?)(?<=[^\s_])_(?!\w)/g, "$1<i>$2</i>")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "<s>$1</s>");
+}
+
+/**
+ * Inline markdown (code spans, links, bold, italic, strikethrough) to HTML
+ */
+export function renderInline(text: string): string {
+  // Code spans and links are swapped for placeholders so emphasis rules can't reach inside them
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+  let working = text.replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code: string) =>
+    hold(`<code>${escapeHtml(code.trim() ? code.replace(/^ (.*) $/, "$1") : code)}</code>`)
+  );
+
+  working = working.replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) =>
+    LINK_SCHEMES.test(url) ? hold(`<a href="${escapeHtml(url)}">${renderEmphasis(escapeHtml(label))}</a>`) : match
+  );
+
+  return renderEmphasis(escapeHtml(working)).replace(/\u0000(\d+)\u0000/g, (_, i: string) => placeholders[Number(i)]);
+}
+
+function renderLine(line: string): string {
+  const heading = line.match(/^ {0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+  if (heading) return `<b>${renderInline(heading[1])}</b>`;
+
+  if (/^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return "──────────";
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) return `${bullet[1]}• ${renderInline(bullet[2])}`;
+
+  return renderInline(line);
+}
+
+/**
+ * Render one paragraph; consecutive "> " lines become a blockquote
+ */
+function renderParagraph(paragraph: string): string {
+  const output: string[] = [];
+  let quote: string[] = [];
+  const flushQuote = () => {
+    if (quote.length) output.push(`<blockquote>${quote.join("\n")}</blockquote>`);
+    quote = [];
+  };
+
+  for (const line of paragraph.split("\n")) {
+    const quoted = line.match(/^ {0,3}>\s?(.*)$/);
+    if (quoted) {
+      quote.push(renderLine(quoted[1]));
+    } else {
+      flushQuote();
+      output.push(renderLine(line));
+    }
+  }
+  flushQuote();
+  return output.join("\n");
+}
+
+/**
+ * Cut text into parts no longer than limit, preferring word boundaries.
+ * The parts joined back together give the original text.
+ */
+function splitText(text: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    const space = rest.lastIndexOf(" ", limit - 1);
+    const cut = space > 0 ? space + 1 : limit;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts;
+}
+
+function codePieces(code: string, language: string, limit: number): Piece[] {
+  const whole = codeBlock(code, language);
+  if (whole.length <= limit) return [{ html: whole, separator: "\n\n" }];
+
+  // Room left for the wrapper tags; escaping can grow text up to 6x (& -> &amp;)
+  const overhead = codeBlock("", language).length;
+  const budget = Math.max(1, Math.floor((limit - overhead) / 6));
+  const pieces: Piece[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    if (lines.length) pieces.push({ html: codeBlock(lines.join("\n"), language), separator: "\n" });
+    lines = [];
+  };
+
+  for (const line of code.split("\n")) {
+    for (const part of line.length > budget ? splitText(line, budget) : [line]) {
+      if (codeBlock([...lines, part].join("\n"), language).length > limit) flush();
+      lines.push(part);
+    }
+  }
+  flush();
+  if (pieces.length) pieces[0].separator = "\n\n";
+  return pieces;
+}
+
+function textPieces(text: string, limit: number): Piece[] {
+  const pieces: Piece[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (!paragraph.trim()) continue;
+    const html = renderParagraph(paragraph);
+    if (html.length <= limit) {
+      pieces.push({ html, separator: "\n\n" });
+      continue;
+    }
+    // Too long: render line by line, cutting long lines at word boundaries
+    paragraph.split("\n").forEach((line, i) => {
+      splitText(line, Math.max(1, Math.floor(limit / 6))).forEach((part, j) => {
+        const separator = j > 0 ? "" : i > 0 ? "\n" : "\n\n";
+        pieces.push({ html: renderLine(part), separator });
+      });
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Render agent markdown as Telegram HTML, split into messages of at most limit characters.
+ * Splits fall between paragraphs, lines or code lines; a split code block is
+ * closed and reopened so each message stands on its own.
+ */
+export function renderMarkdown(markdown: string, limit = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const pieces: Piece[] = [];
+  for (const block of parseBlocks(markdown)) {
+    pieces.push(...(block.type === "code" ? codePieces(block.code, block.language, limit) : textPieces(block.text, limit)));
+  }
+
+  const messages: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const joined = current ? current + piece.separator + piece.html : piece.html;
+    if (joined.length > limit && current) {
+      messages.push(current);
+      current = piece.html;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) messages.push(current);
+  return messages;
+}
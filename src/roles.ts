@@ -0,0 +1,5 @@
+// User roles, kept free of imports so the config schema can use them
+
+export type Role = "admin" | "developer" | "viewer";
+
+export const ROLES: Role[] = ["admin", "developer", "viewer"];
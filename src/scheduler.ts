@@ -0,0 +1,415 @@
+// Scheduled and recurring agent tasks: /schedule, /schedules, /unschedule
+import * as fs from "fs";
+import * as path from "path";
+import { isValidCron, nextCronTime } from "./cron";
+
+export type Schedule =
+  | { kind: "cron"; expression: string }
+  | { kind: "interval"; everyMs: number }
+  | { kind: "once"; at: number };
+
+// What to do when the owner's session is busy at run time
+export type BusyPolicy = "queue" | "skip";
+
+export type RunOutcome = "started" | "busy" | "failed";
+
+export interface ScheduleRequest {
+  schedule: Schedule;
+  // The schedule as typed, for listings
+  when: string;
+  // Working directory as typed, if given; resolved by the caller
+  cwd?: string;
+  ifBusy: BusyPolicy;
+  prompt: string;
+}
+
+export interface ScheduledJob {
+  id: number;
+  userId: number;
+  chatId: number;
+  when: string;
+  schedule: Schedule;
+  cwd: string;
+  prompt: string;
+  ifBusy: BusyPolicy;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastOutcome?: "started" | "skipped" | "failed";
+  // Due, but waiting for the session to be free
+  queued?: boolean;
+}
+
+interface ScheduleFile {
+  nextId: number;
+  jobs: ScheduledJob[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const UNIT_MS: Record<string, number> = { m: MINUTE_MS, h: 60 * MINUTE_MS, d: 24 * 60 * MINUTE_MS };
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// How often due jobs are checked for
+const TICK_MS = 15 * 1000;
+
+export const SCHEDULE_USAGE = [
+  "Usage: /schedule <when> [in <path>] [--skip]: <prompt>",
+  "",
+  "<when> is one of:",
+  "  every 30m | every 2 hours | hourly",
+  "  every day at 8:00 | every weekday at 8:00 | every mon,thu at 9am",
+  "  at 23:00 | tonight at 11pm | tomorrow at 9:00 | in 2h | on 2026-11-01 at 10:00",
+  "  a cron expression: 0 8 * * 1-5",
+  "",
+  "Jobs run in the current directory unless `in <path>` is given. If a task is",
+  "already running they wait for it to finish, or are skipped with --skip.",
+].join("\n");
+
+function unitMs(unit: string): number | undefined {
+  const match = unit.match(/^(m|mins?|minutes?|h|hrs?|hours?|d|days?)$/);
+  return match ? UNIT_MS[match[1][0]] : undefined;
+}
+
+/**
+ * "30m", "2h" or "2 hours" at tokens[i]; returns the duration and tokens used
+ */
+function parseDuration(tokens: string[], i: number): { ms: number; used: number } | null {
+  const joined = tokens[i]?.match(/^(\d+)([a-z]+)$/);
+  if (joined && unitMs(joined[2])) return { ms: parseInt(joined[1], 10) * unitMs(joined[2])!, used: 1 };
+  if (/^\d+$/.test(tokens[i] || "") && unitMs(tokens[i + 1] || "")) {
+    return { ms: parseInt(tokens[i], 10) * unitMs(tokens[i + 1])!, used: 2 };
+  }
+  return null;
+}
+
+/**
+ * "8:00", "23:30", "9am" or "11 pm" at tokens[i]
+ */
+function parseTime(tokens: string[], i: number): { hour: number; minute: number; used: number } | null {
+  const match = tokens[i]?.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!match) return null;
+  let used = 1;
+  let suffix = match[3];
+  if (!suffix && /^(am|pm)$/.test(tokens[i + 1] || "")) {
+    suffix = tokens[i + 1];
+    used = 2;
+  }
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (suffix) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (suffix === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute, used };
+}
+
+function parseWeekdays(words: string[]): number[] | null {
+  const days = new Set<number>();
+  for (const word of words) {
+    if (word === "and" || word === "") continue;
+    if (/^weekdays?$/.test(word)) [1, 2, 3, 4, 5].forEach((d) => days.add(d));
+    else if (/^weekends?$/.test(word)) [0, 6].forEach((d) => days.add(d));
+    else {
+      const day = DAY_NAMES.findIndex((name) => word.length >= 3 && name.startsWith(word.replace(/s$/, "")));
+      if (day < 0) return null;
+      days.add(day);
+    }
+  }
+  return days.size ? [...days].sort((a, b) => a - b) : null;
+}
+
+/**
+ * Parse "/schedule" arguments: a cron expression or natural schedule, an optional
+ * `in <path>` and `--skip`/`--queue`, then the prompt (optionally after a colon).
+ * Throws an Error explaining what's wrong.
+ */
+export function parseScheduleRequest(text: string, now = Date.now()): ScheduleRequest {
+  const matches = [...text.matchAll(/\S+/g)];
+  // Lowercased, with a trailing ":" (ending the schedule part) removed
+  const tokens = matches.map((m) => m[0].toLowerCase().replace(/:$/, ""));
+  const closesAt = matches.findIndex((m) => m[0].endsWith(":"));
+  const end = closesAt < 0 ? tokens.length : closesAt + 1;
+
+  let schedule: Schedule | null = null;
+  let i = 0;
+
+  const cron = matches.slice(0, 5).map((m) => m[0].replace(/:$/, "")).join(" ");
+  if (/^[\d*]/.test(tokens[0] || "") && end >= 5 && isValidCron(cron)) {
+    schedule = { kind: "cron", expression: cron };
+    i = 5;
+  }
+
+  const atTime = (start: number) => {
+    if (tokens[start] !== "at") throw new Error(`Add a time, e.g. "${tokens.slice(0, start).join(" ")} at 9:00"`);
+    const time = parseTime(tokens, start + 1);
+    if (!time) throw new Error(`Couldn't read the time "${tokens[start + 1] || ""}"; use 8:00, 23:30 or 9am`);
+    i = start + 1 + time.used;
+    return time;
+  };
+
+  const daily = (days: number[] | null, start: number): Schedule => {
+    const { hour, minute } = atTime(start);
+    return { kind: "cron", expression: `${minute} ${hour} * * ${days ? days.join(",") : "*"}` };
+  };
+
+  const head = tokens[0];
+  if (schedule) {
+    // Already a cron expression
+  } else if (head === "hourly") {
+    schedule = { kind: "interval", everyMs: UNIT_MS.h };
+    i = 1;
+  } else if (head === "daily") {
+    schedule = daily(null, 1);
+  } else if (head === "weekdays" || head === "weekends") {
+    schedule = daily(parseWeekdays([head]), 1);
+  } else if (head === "every") {
+    const duration = parseDuration(tokens, 1);
+    if (duration) {
+      schedule = { kind: "interval", everyMs: duration.ms };
+      i = 1 + duration.used;
+    } else if (tokens[1] === "minute" || tokens[1] === "hour") {
+      schedule = { kind: "interval", everyMs: UNIT_MS[tokens[1][0]] };
+      i = 2;
+    } else if (tokens[1] === "day") {
+      schedule = daily(null, 2);
+    } else {
+      // every mon,wed and fri at 9
+      const at = tokens.indexOf("at", 1);
+      const days = at > 1 ? parseWeekdays(tokens.slice(1, at).flatMap((t) => t.split(","))) : null;
+      if (!days) throw new Error(`Couldn't read "every ${tokens[1] || ""}"`);
+      schedule = daily(days, at);
+    }
+  } else if (head === "in") {
+    const duration = parseDuration(tokens, 1);
+    if (!duration) throw new Error(`Couldn't read "in ${tokens[1] || ""}"; use e.g. "in 30m" or "in 2 hours"`);
+    schedule = { kind: "once", at: now + duration.ms };
+    i = 1 + duration.used;
+  } else if (head === "at" || head === "today" || head === "tonight" || head === "tomorrow" || head === "on") {
+    const date = new Date(now);
+    let start = head === "at" ? 0 : 1;
+    if (head === "tomorrow") date.setDate(date.getDate() + 1);
+    if (head === "on") {
+      const day = tokens[1]?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (!day) throw new Error(`Couldn't read the date "${tokens[1] || ""}"; use YYYY-MM-DD`);
+      date.setFullYear(parseInt(day[1], 10), parseInt(day[2], 10) - 1, parseInt(day[3], 10));
+      start = 2;
+    }
+    const { hour, minute } = atTime(start);
+    date.setHours(hour, minute, 0, 0);
+    // A bare "at 8:00" that has passed today means tomorrow
+    if (head === "at" && date.getTime() <= now) date.setDate(date.getDate() + 1);
+    if (date.getTime() <= now) throw new Error(`${formatRunTime(date.getTime(), now)} has already passed`);
+    schedule = { kind: "once", at: date.getTime() };
+  }
+
+  if (!schedule) throw new Error(SCHEDULE_USAGE);
+  if (i > end) throw new Error(`Put the colon after the whole schedule`);
+  if (schedule.kind === "interval" && schedule.everyMs < MINUTE_MS) {
+    throw new Error("Jobs can run at most once a minute");
+  }
+  const whenEnd = matches[i - 1].index! + matches[i - 1][0].length;
+  const when = text.slice(matches[0].index!, whenEnd).replace(/:$/, "");
+
+  let cwd: string | undefined;
+  let ifBusy: BusyPolicy = "queue";
+  while (i < end) {
+    if (tokens[i] === "in" && i + 1 < end && /^[~/.]/.test(tokens[i + 1])) {
+      cwd = matches[i + 1][0].replace(/:$/, "");
+      i += 2;
+    } else if (tokens[i] === "--skip" || tokens[i] === "--queue") {
+      ifBusy = tokens[i] === "--skip" ? "skip" : "queue";
+      i += 1;
+    } else {
+      break;
+    }
+  }
+
+  if (closesAt >= 0 && i < end) {
+    const unread = text.slice(matches[i].index!, matches[closesAt].index! + matches[closesAt][0].length - 1);
+    throw new Error(`Couldn't read "${unread}"; paths start with ~, / or .`);
+  }
+
+  const promptStart = i < matches.length ? matches[i].index! : text.length;
+  const prompt = text.slice(promptStart).replace(/^(:|--)\s*/, "").trim();
+  if (!prompt) throw new Error("Add the prompt to run after the schedule");
+
+  return { schedule, when, cwd, ifBusy, prompt };
+}
+
+/**
+ * Next run strictly after `after`, or null when the schedule is done
+ */
+export function nextRunTime(schedule: Schedule, after: number): number | null {
+  switch (schedule.kind) {
+    case "cron":
+      return nextCronTime(schedule.expression, after);
+    case "interval":
+      return after + schedule.everyMs;
+    case "once":
+      return schedule.at > after ? schedule.at : null;
+  }
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * "today 08:00", "tomorrow 23:00" or "Mon 3 Nov 09:00"
+ */
+export function formatRunTime(time: number, now = Date.now()): string {
+  const date = new Date(time);
+  const clock = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(date) - startOfDay(new Date(now))) / UNIT_MS.d);
+  if (days === 0) return `today ${clock}`;
+  if (days === 1) return `tomorrow ${clock}`;
+  const day = DAY_NAMES[date.getDay()].slice(0, 3);
+  const weekday = day[0].toUpperCase() + day.slice(1);
+  return `${weekday} ${date.getDate()} ${MONTH_NAMES[date.getMonth()]} ${clock}`;
+}
+
+/**
+ * Keeps jobs on disk and runs them when due. Runs missed while the bot was down
+ * happen once at startup.
+ */
+export class Scheduler {
+  private filePath: string | null;
+  private run: (job: ScheduledJob) => Promise<RunOutcome>;
+  private now: () => number;
+  private jobs: ScheduledJob[] = [];
+  private nextId = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(
+    filePath: string | null,
+    run: (job: ScheduledJob) => Promise<RunOutcome>,
+    now: () => number = Date.now
+  ) {
+    this.filePath = filePath;
+    this.run = run;
+    this.now = now;
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as ScheduleFile;
+      this.jobs = Array.isArray(data.jobs) ? data.jobs : [];
+      this.nextId = Math.max(data.nextId || 1, ...this.jobs.map((job) => job.id + 1));
+    } catch (e) {
+      console.error("Failed to read schedules:", e);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      const data: ScheduleFile = { nextId: this.nextId, jobs: this.jobs };
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (e) {
+      console.error("Failed to write schedules:", e);
+    }
+  }
+
+  add(userId: number, chatId: number, request: ScheduleRequest & { cwd: string }): ScheduledJob {
+    const now = this.now();
+    const nextRunAt = nextRunTime(request.schedule, now);
+    if (nextRunAt === null) throw new Error("That schedule never runs");
+    const job: ScheduledJob = {
+      id: this.nextId++,
+      userId,
+      chatId,
+      when: request.when,
+      schedule: request.schedule,
+      cwd: request.cwd,
+      prompt: request.prompt,
+      ifBusy: request.ifBusy,
+      createdAt: now,
+      nextRunAt,
+    };
+    this.jobs.push(job);
+    this.save();
+    return job;
+  }
+
+  get(id: number): ScheduledJob | undefined {
+    return this.jobs.find((job) => job.id === id);
+  }
+
+  /**
+   * Jobs by next run, optionally only one user's
+   */
+  list(userId?: number): ScheduledJob[] {
+    return this.jobs
+      .filter((job) => userId === undefined || job.userId === userId)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+  }
+
+  remove(id: number): ScheduledJob | undefined {
+    const job = this.get(id);
+    if (job) {
+      this.jobs = this.jobs.filter((j) => j !== job);
+      this.save();
+    }
+    return job;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Run every due job once. Queued jobs stay due until their session is free.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const due = this.jobs.filter((job) => job.nextRunAt <= this.now());
+      for (const job of due) {
+        let outcome: RunOutcome;
+        try {
+          outcome = await this.run(job);
+        } catch (e) {
+          console.error(`Scheduled job #${job.id} failed:`, e);
+          outcome = "failed";
+        }
+        // Removed while it was starting
+        if (!this.jobs.includes(job)) continue;
+
+        if (outcome === "busy" && job.ifBusy === "queue") {
+          job.queued = true;
+          continue;
+        }
+        job.queued = false;
+        job.lastRunAt = this.now();
+        job.lastOutcome = outcome === "busy" ? "skipped" : outcome;
+        const next = nextRunTime(job.schedule, this.now());
+        if (next === null) {
+          this.jobs = this.jobs.filter((j) => j !== job);
+        } else {
+          job.nextRunAt = next;
+        }
+      }
+      if (due.length) this.save();
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+// Config file schema and migrations
+// Shared by the bot, the CLI and the app's settings window (bundled as app/config-schema.cjs),
+// so keep this free of Node-only imports.
+import { AGENT_TYPES } from "./agent/types";
+import { ROLES } from "./roles";
+
+// Bump when the file format changes, and add a migration below
+export const CONFIG_VERSION = 1;
+
+export type FieldType = "string" | "number" | "integer" | "boolean" | "object" | "array";
+
+export interface FieldSchema {
+  type: FieldType;
+  // Allowed values for strings
+  values?: readonly string[];
+  pattern?: RegExp;
+  // What pattern means, for error messages
+  patternHint?: string;
+  min?: number;
+  max?: number;
+  // Object fields
+  fields?: Record<string, FieldSchema>;
+  required?: string[];
+  // Array elements
+  items?: FieldSchema;
+}
+
+export interface ConfigIssue {
+  // Dotted path, e.g. "budget.dailyUsd" or "users[2].role"
+  key: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  errors: ConfigIssue[];
+  // Unknown keys; they're kept but ignored
+  warnings: ConfigIssue[];
+}
+
+export interface MigrationResult {
+  config: Record<string, unknown>;
+  // Version the file was at; 0 for files written before versioning
+  from: number;
+  changed: boolean;
+}
+
+const string: FieldSchema = { type: "string" };
+
+export const CONFIG_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    version: { type: "integer", min: 0 },
+    token: { type: "string", pattern: /^\d+:[A-Za-z0-9_-]+$/, patternHint: "a bot token like 123456789:ABCdef..." },
+    allowedUserId: { type: "integer", min: 1 },
+    users: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "role"],
+        fields: {
+          id: { type: "integer", min: 1 },
+          role: { type: "string", values: ROLES },
+          name: string,
+          projects: { type: "array", items: string },
+        },
+      },
+    },
+    macros: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "template"],
+        fields: {
+          name: { type: "string", pattern: /^[a-z][a-z0-9_]{0,31}$/, patternHint: "1-32 of a-z, 0-9 and _" },
+          template: string,
+        },
+      },
+    },
+    projectRoot: string,
+    defaultProject: string,
+    projectRoots: { type: "array", items: string },
+    agent: { type: "string", values: AGENT_TYPES },
+    streamMode: { type: "string", values: ["compact", "full"] },
+    permissionMode: { type: "string", values: ["default", "acceptEdits", "bypassPermissions"] },
+    permissionTimeoutMs: { type: "integer", min: 1000 },
+    voice: {
+      type: "object",
+      fields: { command: string, whisperBinary: string, whisperModel: string, language: string, confirm: { type: "boolean" } },
+    },
+    uploads: {
+      type: "object",
+      fields: { dir: string, maxBytes: { type: "integer", min: 1 }, inlineMaxBytes: { type: "integer", min: 0 } },
+    },
+    checkpoints: { type: "boolean" },
+    budget: {
+      type: "object",
+      fields: {
+        dailyUsd: { type: "number", min: 0 },
+        taskUsd: { type: "number", min: 0 },
+        warnAt: { type: "number", min: 0, max: 1 },
+      },
+    },
+    shell: {
+      type: "object",
+      fields: {
+        timeoutMs: { type: "integer", min: 1000 },
+        inlineMaxBytes: { type: "integer", min: 100 },
+        confirm: { type: "array", items: string },
+        deny: { type: "array", items: string },
+      },
+    },
+    audit: {
+      type: "object",
+      fields: { maxBytes: { type: "integer", min: 1024 }, keep: { type: "integer", min: 0 } },
+    },
+    webhook: {
+      type: "object",
+      required: ["url"],
+      fields: {
+        url: { type: "string", pattern: /^https?:\/\//, patternHint: "an http(s):// URL" },
+        host: string,
+        port: { type: "integer", min: 0, max: 65535 },
+        path: string,
+        secretToken: { type: "string", pattern: /^[A-Za-z0-9_-]{1,256}$/, patternHint: "1-256 of A-Z, a-z, 0-9, _ and -" },
+        healthPath: string,
+      },
+    },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinKey(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function expectation(schema: FieldSchema): string {
+  if (schema.values) return `one of ${schema.values.join(", ")}`;
+  if (schema.patternHint) return schema.patternHint;
+  const article = schema.type === "integer" || schema.type === "object" || schema.type === "array" ? "an" : "a";
+  let text = `${article} ${schema.type === "boolean" ? "boolean (true/false)" : schema.type}`;
+  if (schema.min !== undefined && schema.max !== undefined) text += ` from ${schema.min} to ${schema.max}`;
+  else if (schema.min !== undefined) text += ` >= ${schema.min}`;
+  return text;
+}
+
+function typeMatches(schema: FieldSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      return typeof value === schema.type;
+  }
+}
+
+function check(schema: FieldSchema, value: unknown, key: string, result: ValidationResult): void {
+  const fail = () => {
+    result.errors.push({ key, message: `expected ${expectation(schema)}, got ${JSON.stringify(value)}` });
+  };
+
+  if (!typeMatches(schema, value)) return fail();
+  if (typeof value === "number") {
+    if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) return fail();
+  }
+  if (typeof value === "string") {
+    if ((schema.values && !schema.values.includes(value)) || (schema.pattern && !schema.pattern.test(value))) return fail();
+  }
+
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, i) => check(schema.items!, item, `${key}[${i}]`, result));
+  }
+
+  if (schema.fields && isPlainObject(value)) {
+    for (const field of schema.required || []) {
+      if (value[field] === undefined) result.errors.push({ key: joinKey(key, field), message: "is required" });
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const child = schema.fields[field];
+      if (child) {
+        check(child, fieldValue, joinKey(key, field), result);
+        continue;
+      }
+      const similar = Object.keys(schema.fields).find((known) => known.toLowerCase() === field.toLowerCase());
+      result.warnings.push({
+        key: joinKey(key, field),
+        message: similar ? `unknown key (did you mean "${similar}"?)` : "unknown key, ignored",
+      });
+    }
+  }
+}
+
+/**
+ * Check a config object against the schema. Only present keys are checked;
+ * whether the token and user are required depends on how the bot is run.
+ */
+export function validateConfig(config: unknown): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
+  check(CONFIG_SCHEMA, config, "", result);
+  return result;
+}
+
+/**
+ * Schema for a dotted key like "budget.dailyUsd", or undefined if there is no such key
+ */
+export function fieldSchema(key: string): FieldSchema | undefined {
+  let schema: FieldSchema | undefined = CONFIG_SCHEMA;
+  for (const part of key.split(".")) {
+    schema = schema?.fields?.[part];
+  }
+  return schema;
+}
+
+/**
+ * Convert a string from the environment or the command line to the key's type
+ */
+export function coerceConfigValue(key: string, raw: string): unknown {
+  const schema = fieldSchema(key);
+  if (schema?.type === "number" || schema?.type === "integer") {
+    const value = Number(raw.trim());
+    return raw.trim() === "" || isNaN(value) ? raw : value;
+  }
+  if (schema?.type === "boolean") {
+    if (/^(true|1|yes|on)$/i.test(raw)) return true;
+    if (/^(false|0|no|off)$/i.test(raw)) return false;
+  }
+  return raw;
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues.map((issue) => `${issue.key}: ${issue.message}`).join("\n");
+}
+
+// Number-like strings, as older settings windows and hand edits sometimes saved ids
+function toInteger(value: unknown): unknown {
+  return typeof value === "string" && /^\s*\d+\s*$/.test(value) ? parseInt(value, 10) : value;
+}
+
+// MIGRATIONS[n] upgrades a config from version n to n + 1, in place
+const MIGRATIONS: Array<(config: Record<string, unknown>) => void> = [
+  // 0 -> 1: unversioned files. Ids saved as strings become numbers, and empty
+  // values left by the settings window are dropped so defaults apply.
+  (config) => {
+    for (const [key, value] of Object.entries(config)) {
+      if (value === "" || value === null) delete config[key];
+    }
+    if (config.allowedUserId !== undefined) config.allowedUserId = toInteger(config.allowedUserId);
+    if (Array.isArray(config.users)) {
+      for (const user of config.users) {
+        if (isPlainObject(user)) user.id = toInteger(user.id);
+      }
+    }
+  },
+];
+
+/**
+ * Upgrade a config object to CONFIG_VERSION. Throws for files from a newer version.
+ */
+export function migrateConfig(raw: unknown): MigrationResult {
+  if (!isPlainObject(raw)) throw new Error("Config must be a JSON object");
+  const from = raw.version === undefined ? 0 : raw.version;
+  if (!Number.isInteger(from) || (from as number) < 0) {
+    throw new Error(`version: expected an integer >= 0, got ${JSON.stringify(raw.version)}`);
+  }
+  if ((from as number) > CONFIG_VERSION) {
+    throw new Error(`Config version ${from} is newer than this Vibegram supports (${CONFIG_VERSION}); please update`);
+  }
+  if (from === CONFIG_VERSION) return { config: raw, from, changed: false };
+
+  const config = JSON.parse(JSON.stringify(raw)) as Record<string, unknown>;
+  delete config.version;
+  for (let version = from as number; version < CONFIG_VERSION; version++) {
+    MIGRATIONS[version](config);
+  }
+  // Version first, for readability
+  return { config: { version: CONFIG_VERSION, ...config }, from: from as number, changed: true };
+}
@@ -0,0 +1,159 @@
+// Running the bot: `vibegram serve`
+import { createBot } from "./bot";
+import {
+  projectRoots,
+  readConfigFile,
+  startDirectory,
+  writeConfigFile,
+  type Config,
+  type ResolvedConfig,
+} from "./config";
+import { TelegramMessenger, TerminalMessenger, type BotCommand, type Messenger } from "./messenger";
+import * as fs from "fs";
+
+export interface ServeOptions {
+  // Run in this terminal instead of Telegram, for offline use
+  terminal?: boolean;
+}
+
+// Default local user when there's no config to take the owner id from
+const LOCAL_USER_ID = 1;
+
+export const BOT_COMMANDS: BotCommand[] = [
+  { command: "start", description: "Welcome & help" },
+  { command: "new", description: "Start new conversation" },
+  { command: "stop", description: "Stop current task" },
+  { command: "resume", description: "Resume previous session" },
+  { command: "sessions", description: "Browse past sessions" },
+  { command: "export", description: "Save a session as HTML or Markdown" },
+  { command: "status", description: "Show current status" },
+  { command: "cost", description: "Spend today, this week and per project" },
+  { command: "find", description: "Search the last long output" },
+  { command: "projects", description: "Switch project" },
+  { command: "cd", description: "Change directory" },
+  { command: "get", description: "Send a file from the project" },
+  { command: "undo", description: "Revert the last turn" },
+  { command: "checkpoints", description: "Roll back to an earlier turn" },
+  { command: "mode", description: "Compact or full display" },
+  { command: "permissions", description: "Tool approval mode" },
+  { command: "schedule", description: "Run a prompt on a schedule" },
+  { command: "schedules", description: "List scheduled jobs" },
+  { command: "unschedule", description: "Remove a scheduled job" },
+  { command: "macros", description: "Saved prompts" },
+  { command: "macro", description: "Add or remove a saved prompt" },
+  { command: "m", description: "Run a saved prompt" },
+  { command: "jobs", description: "List background jobs" },
+  { command: "tail", description: "Follow a background job's output" },
+  { command: "kill", description: "Stop a background job" },
+  { command: "audit", description: "Search the audit log" },
+  { command: "users", description: "Manage allowed users" },
+];
+
+/**
+ * Write changes to one config key (users, macros) back to the config file. Env-based configs can't be updated.
+ */
+function configSaver<K extends "users" | "macros">(
+  filePath: string | null,
+  key: K
+): (value: NonNullable<Config[K]>) => boolean {
+  return (value) => {
+    if (!filePath || !fs.existsSync(filePath)) return false;
+    try {
+      writeConfigFile(filePath, { ...readConfigFile(filePath), [key]: value });
+      return true;
+    } catch (e) {
+      console.error(`Failed to save ${key}:`, e);
+      return false;
+    }
+  };
+}
+
+/**
+ * Start the bot and keep it running until it's stopped. Returns the exit code.
+ */
+export async function serve(resolved: ResolvedConfig, options: ServeOptions = {}): Promise<number> {
+  const config = { ...resolved.config };
+  if (options.terminal && !config.projectRoot) {
+    config.projectRoot = process.cwd();
+  }
+  if (options.terminal && !config.allowedUserId && !config.users?.length) {
+    config.allowedUserId = LOCAL_USER_ID;
+  }
+
+  if (!resolved.filePath && !config.token && !options.terminal) {
+    console.error("CONFIG_NOT_FOUND");
+    console.error("Run `vibegram config init` or set TELEGRAM_BOT_TOKEN and TELEGRAM_ALLOWED_USER_ID.");
+    return 1;
+  }
+  if (!config.token && !options.terminal) {
+    console.error("TELEGRAM_BOT_TOKEN is required");
+    return 1;
+  }
+  if (!config.allowedUserId && !config.users?.length) {
+    console.error("TELEGRAM_ALLOWED_USER_ID is required");
+    return 1;
+  }
+
+  let messenger: Messenger;
+  if (options.terminal) {
+    // Keep stdout for the conversation; logs go to stderr
+    console.log = console.error;
+    messenger = new TerminalMessenger({ userId: config.allowedUserId || config.users![0].id });
+  } else {
+    messenger = new TelegramMessenger(config.token!, { webhook: config.webhook });
+  }
+
+  let projectRoot = startDirectory(config);
+  if (config.defaultProject && !fs.existsSync(projectRoot)) {
+    console.warn(`Default project ${projectRoot} doesn't exist, starting in the projects root`);
+    projectRoot = startDirectory({ ...config, defaultProject: undefined });
+  }
+  const bot = createBot(
+    {
+      allowedUserId: config.allowedUserId,
+      users: config.users,
+      onUsersChange: configSaver(resolved.filePath, "users"),
+      macros: config.macros,
+      onMacrosChange: configSaver(resolved.filePath, "macros"),
+      commands: BOT_COMMANDS,
+      projectRoot,
+      projectRoots: projectRoots(config),
+      configDir: resolved.configDir,
+      agent: config.agent,
+      streamMode: config.streamMode,
+      permissionMode: config.permissionMode,
+      permissionTimeoutMs: config.permissionTimeoutMs,
+      voice: config.voice,
+      uploads: config.uploads,
+      checkpoints: config.checkpoints,
+      budget: config.budget,
+      shell: config.shell,
+      audit: config.audit,
+    },
+    messenger
+  );
+
+  console.log("Starting Vibegram...");
+  console.log(`Config: ${resolved.sources.length ? resolved.sources.join(" < ") : "defaults"}`);
+  resolved.warnings.forEach((warning) => console.warn(`Config warning: ${warning}`));
+  console.log(`Transport: ${messenger.type}${config.webhook && !options.terminal ? " (webhook)" : ""}`);
+  console.log(`Agent: ${config.agent || "claude"}`);
+  console.log(`Allowed user: ${config.allowedUserId}`);
+  if (config.users?.length) {
+    console.log(`Additional users: ${config.users.length}`);
+  }
+  console.log(`Project root: ${projectRoot}`);
+
+  // Stop cleanly so a webhook is removed again
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      console.log(`${signal} received, stopping...`);
+      bot.stop().finally(() => process.exit(0));
+    });
+  }
+
+  await messenger.setCommands(bot.commands());
+  console.log("Commands menu registered");
+  await bot.start();
+  return 0;
+}
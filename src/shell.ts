@@ -0,0 +1,228 @@
+// `!` shell commands: destructive-pattern checks, timeouts, kill and captured output
+import { spawn, type ChildProcess } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface ShellConfig {
+  // Stop commands still running after this long (default 5 minutes)
+  timeoutMs?: number;
+  // Output up to this size is shown in the chat; larger output is also sent as a file
+  inlineMaxBytes?: number;
+  // Regular expressions for commands that need a "Run anyway?" confirmation, added to the built-in ones
+  confirm?: string[];
+  // Regular expressions for commands that are never run, added to the built-in ones
+  deny?: string[];
+}
+
+export const DEFAULT_SHELL_TIMEOUT_MS = 5 * 60 * 1000;
+export const DEFAULT_SHELL_INLINE_BYTES = 3500;
+
+// Time between SIGTERM and SIGKILL when stopping a command
+const KILL_GRACE_MS = 3000;
+
+export const DEFAULT_CONFIRM_PATTERNS = [
+  String.raw`\brm\s+(-\w*[rRf]|--recursive|--force)`,
+  String.raw`\bgit\s+push\b.*\s(-f|--force(-with-lease)?)\b`,
+  String.raw`\bgit\s+reset\s+--hard\b`,
+  String.raw`\bgit\s+clean\s+-\w*f`,
+  String.raw`\bgit\s+(checkout|restore)\s+(--\s+)?\.(\s|$)`,
+  String.raw`\bgit\s+branch\s+-D\b`,
+  String.raw`\b(chmod|chown)\s+-\w*R`,
+  String.raw`\bfind\b.*\s-delete\b`,
+  String.raw`\b(dd|shred|wipefs|mkfs(\.\w+)?)\s`,
+  String.raw`\b(shutdown|reboot|halt|poweroff)\b`,
+  String.raw`\bkill(all)?\s+-(9|KILL)\b`,
+  String.raw`\b(drop|DROP)\s+(table|database|TABLE|DATABASE)\b`,
+  String.raw`\bdocker\s+(system|volume|image)\s+prune\b`,
+  String.raw`>\s*/dev/(sd|disk|nvme)`,
+];
+
+export const DEFAULT_DENY_PATTERNS = [
+  // Deleting the filesystem root or the home directory
+  String.raw`\brm\s+(-\S+\s+)*(/|/\*|~|~/|~/\*|\$HOME/?)(\s|$)`,
+  // Fork bomb
+  String.raw`:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}`,
+];
+
+export interface ShellRules {
+  confirm: RegExp[];
+  deny: RegExp[];
+}
+
+export type ShellVerdict = { action: "run" } | { action: "confirm" | "deny"; match: string };
+
+export interface ShellResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  // Stopped with kill()
+  killed: boolean;
+  durationMs: number;
+  // Combined stdout and stderr, or its last inlineMaxBytes when larger
+  output: string;
+  outputBytes: number;
+  // The full output when it was larger than inlineMaxBytes; the caller removes it
+  outputFile: string | null;
+  // Set when the command could not be started
+  error?: string;
+}
+
+export interface ShellRunOptions {
+  cwd: string;
+  // 0 for no timeout
+  timeoutMs?: number;
+  inlineMaxBytes?: number;
+  // Where large output is written
+  outputFile: string;
+}
+
+/**
+ * Built-in patterns plus the configured ones. Throws naming the first invalid pattern.
+ */
+export function compileShellRules(config: ShellConfig = {}): ShellRules {
+  const compile = (patterns: string[]) =>
+    patterns.map((pattern) => {
+      try {
+        return new RegExp(pattern);
+      } catch (e) {
+        throw new Error(`Invalid shell pattern "${pattern}": ${e instanceof Error ? e.message : e}`);
+      }
+    });
+  return {
+    confirm: compile([...DEFAULT_CONFIRM_PATTERNS, ...(config.confirm || [])]),
+    deny: compile([...DEFAULT_DENY_PATTERNS, ...(config.deny || [])]),
+  };
+}
+
+/**
+ * Whether a command can run straight away, needs confirming or is refused, with the text that matched
+ */
+export function checkCommand(command: string, rules: ShellRules): ShellVerdict {
+  for (const [action, patterns] of [
+    ["deny", rules.deny],
+    ["confirm", rules.confirm],
+  ] as const) {
+    for (const pattern of patterns) {
+      const match = command.match(pattern);
+      if (match) return { action, match: match[0].trim() || pattern.source };
+    }
+  }
+  return { action: "run" };
+}
+
+/**
+ * A running shell command. Output goes to outputFile as it arrives; the file is
+ * removed again when the output turns out to fit in a message.
+ */
+export class ShellRun {
+  readonly command: string;
+  readonly cwd: string;
+  readonly startedAt = Date.now();
+  readonly done: Promise<ShellResult>;
+  private child: ChildProcess | null = null;
+  private tail = Buffer.alloc(0);
+  private finished = false;
+  private killed = false;
+  private timedOut = false;
+
+  constructor(command: string, options: ShellRunOptions) {
+    this.command = command;
+    this.cwd = options.cwd;
+    this.done = this.run(options);
+  }
+
+  get running(): boolean {
+    return !this.finished;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  // The last inlineMaxBytes of output so far
+  get recentOutput(): string {
+    return this.tail.toString("utf-8");
+  }
+
+  /**
+   * Stop the command and anything it started. Returns false if it already finished.
+   */
+  kill(): boolean {
+    if (this.finished) return false;
+    this.killed = true;
+    this.signal("SIGTERM");
+    return true;
+  }
+
+  private signal(signal: NodeJS.Signals): void {
+    const pid = this.child?.pid;
+    if (!pid) return;
+    try {
+      // The command runs in its own process group, so children go too
+      process.kill(-pid, signal);
+    } catch {
+      this.child?.kill(signal);
+    }
+    if (signal === "SIGTERM") {
+      setTimeout(() => !this.finished && this.signal("SIGKILL"), KILL_GRACE_MS).unref();
+    }
+  }
+
+  private run(options: ShellRunOptions): Promise<ShellResult> {
+    const inlineMaxBytes = options.inlineMaxBytes ?? DEFAULT_SHELL_INLINE_BYTES;
+    let outputBytes = 0;
+    fs.mkdirSync(path.dirname(options.outputFile), { recursive: true });
+    const file = fs.createWriteStream(options.outputFile);
+
+    return new Promise((resolve) => {
+      const finish = (exitCode: number | null, signal: NodeJS.Signals | null, error?: string) => {
+        if (this.finished) return;
+        this.finished = true;
+        if (timer) clearTimeout(timer);
+        file.end(() => {
+          const large = outputBytes > inlineMaxBytes;
+          if (!large) fs.rmSync(options.outputFile, { force: true });
+          resolve({
+            exitCode,
+            signal,
+            timedOut: this.timedOut,
+            killed: this.killed,
+            durationMs: Date.now() - this.startedAt,
+            output: this.recentOutput,
+            outputBytes,
+            outputFile: large ? options.outputFile : null,
+            error,
+          });
+        });
+      };
+
+      const timeoutMs = options.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS;
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              this.timedOut = true;
+              this.signal("SIGTERM");
+            }, timeoutMs)
+          : null;
+
+      const child = spawn(this.command, {
+        cwd: options.cwd,
+        shell: true,
+        detached: process.platform !== "win32",
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      this.child = child;
+
+      const onData = (chunk: Buffer) => {
+        outputBytes += chunk.length;
+        file.write(chunk);
+        const tail = Buffer.concat([this.tail, chunk]);
+        this.tail = tail.length > inlineMaxBytes ? tail.subarray(tail.length - inlineMaxBytes) : tail;
+      };
+      child.stdout!.on("data", onData);
+      child.stderr!.on("data", onData);
+      child.on("error", (e) => finish(null, null, e.message));
+      child.on("close", (code, signal) => finish(code, signal));
+    });
+  }
+}
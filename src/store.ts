@@ -0,0 +1,59 @@
+// On-disk session state so chats survive bot restarts
+import * as fs from "fs";
+import * as path from "path";
+import type { AgentType, PermissionMode } from "./agent";
+
+export interface PersistedSession {
+  cwd: string;
+  sessionId: string | null;
+  agentType: AgentType;
+  streamMode: "compact" | "full";
+  permissionMode: PermissionMode;
+  chatId: number | null;
+  statusMsgId: number | null;
+  outputMsgId: number | null;
+  responseMsgId: number | null;
+  wasProcessing: boolean;
+  // Spend of the current task, so a restart doesn't give it a fresh budget
+  taskCostUsd?: number;
+}
+
+export class SessionStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read saved sessions, keyed by Telegram user ID
+   */
+  load(): Map<number, PersistedSession> {
+    const sessions = new Map<number, PersistedSession>();
+    if (!fs.existsSync(this.filePath)) return sessions;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Record<string, PersistedSession>;
+      for (const [userId, session] of Object.entries(data)) {
+        if (session && typeof session.cwd === "string") {
+          sessions.set(Number(userId), session);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to read session store:", e);
+    }
+    return sessions;
+  }
+
+  save(sessions: Map<number, PersistedSession>): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a half-written file
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(sessions), null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (e) {
+      console.error("Failed to write session store:", e);
+    }
+  }
+}
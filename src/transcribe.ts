@@ -0,0 +1,123 @@
+// Speech-to-text for voice messages
+import { execFile, exec } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface Transcriber {
+  transcribe(audioPath: string): Promise<string>;
+}
+
+export interface VoiceConfig {
+  // Shell command that prints the transcript, e.g. "whisper-ctranslate2 {input} ..."
+  // When unset, whisper.cpp is used
+  command?: string;
+  whisperBinary?: string;
+  whisperModel?: string;
+  language?: string;
+  // Ask before sending the transcript to the agent
+  confirm?: boolean;
+}
+
+const TRANSCRIBE_TIMEOUT_MS = 2 * 60 * 1000;
+
+function run(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Quote a value for use in a POSIX shell command
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs whisper.cpp locally. Telegram voice notes are OGG/Opus,
+ * so they're converted to 16kHz WAV with ffmpeg first.
+ */
+export class WhisperCppTranscriber implements Transcriber {
+  private binary: string;
+  private model: string;
+  private language?: string;
+
+  constructor(options: { binary?: string; model?: string; language?: string } = {}) {
+    this.binary = options.binary || "whisper-cli";
+    this.model =
+      options.model ||
+      process.env.WHISPER_MODEL ||
+      path.join(os.homedir(), ".cache", "whisper.cpp", "ggml-base.bin");
+    this.language = options.language;
+  }
+
+  async transcribe(audioPath: string): Promise<string> {
+    if (!fs.existsSync(this.model)) {
+      throw new Error(`Whisper model not found at ${this.model}. Set voice.whisperModel in config.`);
+    }
+
+    const wavPath = `${audioPath}.wav`;
+    try {
+      await run("ffmpeg", ["-y", "-loglevel", "error", "-i", audioPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath]);
+
+      const args = ["-m", this.model, "-f", wavPath, "-nt", "-np"];
+      if (this.language) {
+        args.push("-l", this.language);
+      }
+      const output = await run(this.binary, args);
+      return output
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(" ");
+    } finally {
+      fs.rmSync(wavPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Runs any offline command; {input} is replaced with the audio file path
+ * and stdout is taken as the transcript.
+ */
+export class CommandTranscriber implements Transcriber {
+  private template: string;
+
+  constructor(template: string) {
+    this.template = template;
+  }
+
+  transcribe(audioPath: string): Promise<string> {
+    const command = this.template.includes("{input}")
+      ? this.template.replace(/\{input\}/g, shellQuote(audioPath))
+      : `${this.template} ${shellQuote(audioPath)}`;
+
+    return new Promise((resolve, reject) => {
+      exec(command, { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout.trim());
+        }
+      });
+    });
+  }
+}
+
+export function createTranscriber(config: VoiceConfig = {}): Transcriber {
+  if (config.command) {
+    return new CommandTranscriber(config.command);
+  }
+  return new WhisperCppTranscriber({
+    binary: config.whisperBinary,
+    model: config.whisperModel,
+    language: config.language,
+  });
+}
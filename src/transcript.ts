@@ -0,0 +1,355 @@
+// Session transcripts for /export, recorded from agent events or read from Claude Code's session files
+import * as fs from "fs";
+import * as path from "path";
+import type { AgentType, NormalizedEvent } from "./agent/types";
+import { formatUsd } from "./costs";
+import { userText } from "./history";
+import { escapeHtml, renderMarkdown } from "./render";
+import { stripThinkingTags } from "./utils";
+
+export type ExportFormat = "md" | "html";
+
+export interface ToolItem {
+  type: "tool";
+  tool: string;
+  input: Record<string, unknown>;
+  output?: string;
+  isError?: boolean;
+}
+
+export type TranscriptItem = { type: "text"; text: string } | ToolItem | { type: "error"; text: string };
+
+export interface TranscriptTurn {
+  prompt: string;
+  // ISO time the prompt was sent
+  time: string;
+  items: TranscriptItem[];
+  durationMs?: number;
+  costUsd?: number;
+}
+
+export interface Transcript {
+  title: string | null;
+  cwd: string;
+  agent: AgentType;
+  sessionId: string | null;
+  turns: TranscriptTurn[];
+}
+
+// Tool inputs and outputs longer than this are cut
+const CONTENT_LIMIT = 20_000;
+
+function clip(text: string): string {
+  return text.length > CONTENT_LIMIT ? `${text.slice(0, CONTENT_LIMIT)}\n... (${text.length} chars)` : text;
+}
+
+export function startTurn(transcript: Transcript, prompt: string, now = Date.now()): void {
+  transcript.turns.push({ prompt: prompt.trim(), time: new Date(now).toISOString(), items: [] });
+}
+
+/**
+ * Add an agent event to the last turn. Outputs go to the oldest tool call still without one.
+ */
+export function recordEvent(transcript: Transcript, event: NormalizedEvent): void {
+  const turn = transcript.turns[transcript.turns.length - 1];
+  if (event.type === "init") transcript.sessionId = event.sessionId;
+  if (!turn) return;
+
+  switch (event.type) {
+    case "tool_use":
+      turn.items.push({ type: "tool", tool: event.tool, input: event.input || {} });
+      break;
+    case "tool_output": {
+      const tool = turn.items.find((item): item is ToolItem => item.type === "tool" && item.output === undefined);
+      if (tool) {
+        tool.output = clip(event.output);
+        tool.isError = event.isError;
+      }
+      break;
+    }
+    case "text": {
+      const text = stripThinkingTags(event.content);
+      if (text) turn.items.push({ type: "text", text });
+      break;
+    }
+    case "error":
+      turn.items.push({ type: "error", text: event.content });
+      break;
+    case "done":
+      if (event.durationMs !== undefined) turn.durationMs = event.durationMs;
+      if (event.costUsd !== undefined) turn.costUsd = (turn.costUsd ?? 0) + event.costUsd;
+      if (event.isError && event.content) turn.items.push({ type: "error", text: event.content });
+      break;
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => {
+      if (part?.type === "text" && typeof part.text === "string") return part.text;
+      return part?.type ? `[${part.type}]` : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Parse a Claude Code session file. Cost is not stored there; turn durations
+ * run from the prompt to the last entry before the next one.
+ */
+export function readClaudeTranscript(filePath: string): Transcript {
+  const transcript: Transcript = {
+    title: null,
+    cwd: "",
+    agent: "claude",
+    sessionId: path.basename(filePath, ".jsonl"),
+    turns: [],
+  };
+  const tools = new Map<string, ToolItem>();
+  let turn: TranscriptTurn | null = null;
+  let lastTime = NaN;
+  const finishTurn = () => {
+    if (turn && !isNaN(lastTime)) turn.durationMs = Math.max(0, lastTime - Date.parse(turn.time));
+  };
+
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    let obj;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (obj.summary) transcript.title = obj.summary;
+    if ((obj.type !== "user" && obj.type !== "assistant") || obj.isMeta || obj.isSidechain) continue;
+    if (!transcript.cwd && typeof obj.cwd === "string") transcript.cwd = obj.cwd;
+    const content = obj.message?.content;
+
+    if (obj.type === "user") {
+      const text = userText(content);
+      if (text?.trim()) {
+        finishTurn();
+        turn = { prompt: text.trim(), time: obj.timestamp || "", items: [] };
+        transcript.turns.push(turn);
+      }
+      for (const part of Array.isArray(content) ? content : []) {
+        const tool = part?.type === "tool_result" ? tools.get(part.tool_use_id) : undefined;
+        if (tool) {
+          tool.output = clip(toolResultText(part.content));
+          tool.isError = part.is_error === true;
+        }
+      }
+    } else if (turn) {
+      for (const part of Array.isArray(content) ? content : []) {
+        if (part?.type === "text" && typeof part.text === "string" && part.text.trim()) {
+          turn.items.push({ type: "text", text: stripThinkingTags(part.text) });
+        } else if (part?.type === "tool_use") {
+          const tool: ToolItem = { type: "tool", tool: String(part.name), input: part.input || {} };
+          turn.items.push(tool);
+          tools.set(part.id, tool);
+        }
+      }
+    }
+    if (turn && obj.timestamp) lastTime = Date.parse(obj.timestamp);
+  }
+  finishTurn();
+  return transcript;
+}
+
+/**
+ * Copy duration and cost from the bot's recording onto the turns of a session
+ * file with the same prompts. The file has the full history but no cost.
+ */
+export function addTimings(transcript: Transcript, recorded: Transcript): void {
+  let end = transcript.turns.length;
+  for (let r = recorded.turns.length - 1; r >= 0; r--) {
+    const source = recorded.turns[r];
+    let i = end - 1;
+    while (i >= 0 && transcript.turns[i].prompt !== source.prompt) i--;
+    if (i < 0) continue;
+    if (source.durationMs !== undefined) transcript.turns[i].durationMs = source.durationMs;
+    if (source.costUsd !== undefined) transcript.turns[i].costUsd = source.costUsd;
+    end = i;
+  }
+}
+
+export function transcriptTitle(transcript: Transcript): string {
+  const title = transcript.title || transcript.turns[0]?.prompt.replace(/\s+/g, " ") || "Session";
+  return title.length > 80 ? `${title.slice(0, 80)}...` : title;
+}
+
+/**
+ * e.g. "session-2026-10-19-1a2b3c4d.html"
+ */
+export function transcriptFilename(transcript: Transcript, format: ExportFormat, now = new Date()): string {
+  const first = Date.parse(transcript.turns[0]?.time ?? "");
+  const day = (isNaN(first) ? now : new Date(first)).toISOString().slice(0, 10);
+  const id = transcript.sessionId && transcript.sessionId !== "continue" ? `-${transcript.sessionId.slice(0, 8)}` : "";
+  return `session-${day}${id}.${format}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// "2026-10-19 14:02 · 45.1s · $0.12"
+function turnDetails(turn: TranscriptTurn): string {
+  return [
+    formatTime(turn.time),
+    turn.durationMs !== undefined ? formatDuration(turn.durationMs) : "",
+    turn.costUsd !== undefined ? formatUsd(turn.costUsd) : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function summaryLines(transcript: Transcript): string[] {
+  const durations = transcript.turns.map((t) => t.durationMs).filter((ms): ms is number => ms !== undefined);
+  const costs = transcript.turns.map((t) => t.costUsd).filter((usd): usd is number => usd !== undefined);
+  const totals = [
+    `${transcript.turns.length} prompt${transcript.turns.length === 1 ? "" : "s"}`,
+    durations.length ? formatDuration(durations.reduce((a, b) => a + b, 0)) : "",
+    costs.length ? formatUsd(costs.reduce((a, b) => a + b, 0)) : "",
+  ].filter(Boolean);
+  return [
+    transcript.cwd ? `Project: ${transcript.cwd}` : "",
+    `Agent: ${transcript.agent}${transcript.sessionId ? ` · session ${transcript.sessionId}` : ""}`,
+    transcript.turns.length ? `Started: ${formatTime(transcript.turns[0].time)}` : "",
+    totals.join(" · "),
+  ].filter(Boolean);
+}
+
+// The main argument of a tool call, e.g. the command for Bash
+function toolSubject(input: Record<string, unknown>): string {
+  const main = input.command ?? input.file_path ?? input.pattern ?? input.url ?? input.description;
+  return typeof main === "string" ? main.split("\n")[0].slice(0, 120) : "";
+}
+
+function toolInput(input: Record<string, unknown>): string {
+  return clip(JSON.stringify(input, null, 2));
+}
+
+// A fence longer than any backtick run in text
+function fence(text: string, language = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const out = [`# ${transcriptTitle(transcript)}`, "", ...summaryLines(transcript).map((line) => `- ${line}`)];
+
+  transcript.turns.forEach((turn, i) => {
+    out.push("", "---", "", `## ${i + 1}. ${turnDetails(turn)}`.trimEnd(), "");
+    out.push(...turn.prompt.split("\n").map((line) => `> ${line}`.trimEnd()));
+    for (const item of turn.items) {
+      out.push("");
+      if (item.type === "text") {
+        out.push(item.text);
+      } else if (item.type === "error") {
+        out.push(`**❌ Error:** ${item.text}`);
+      } else {
+        const subject = toolSubject(item.input);
+        out.push(`**🔧 ${item.tool}**${subject ? ` \`${subject.replace(/`/g, "'")}\`` : ""}`, "");
+        out.push(fence(toolInput(item.input), "json"));
+        if (item.output !== undefined) {
+          const label = item.isError ? "Error output" : "Output";
+          out.push("", "<details>", `<summary>${label}</summary>`, "", fence(item.output || "(empty)"));
+          out.push("", "</details>");
+        }
+      }
+    }
+  });
+  return out.join("\n") + "\n";
+}
+
+const HTML_STYLE = `
+body { margin: 0; font: 15px/1.5 -apple-system, "Segoe UI", sans-serif; color: #1f2328; background: #fff; }
+main { max-width: 860px; margin: 0 auto; padding: 24px 16px 48px; }
+h1 { font-size: 1.5em; margin: 0 0 8px; }
+h2 { font-size: 0.9em; color: #59636e; margin: 32px 0 8px; border-top: 1px solid #d1d9e0; padding-top: 16px; }
+ul.meta { color: #59636e; padding-left: 20px; margin: 0; }
+.prompt { white-space: pre-wrap; background: #ddf4ff; border-radius: 8px; padding: 10px 14px; }
+.response { white-space: pre-wrap; margin: 12px 0; }
+.tool { margin: 12px 0; border: 1px solid #d1d9e0; border-radius: 8px; padding: 8px 12px; }
+.tool-name { font-weight: 600; }
+.error { color: #cf222e; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 8px 10px; overflow-x: auto; font-size: 13px; margin: 6px 0; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+summary { cursor: pointer; color: #59636e; }
+blockquote { margin: 0; padding-left: 12px; border-left: 3px solid #d1d9e0; color: #59636e; }
+@media (prefers-color-scheme: dark) {
+  body { color: #e6edf3; background: #0d1117; }
+  h2, ul.meta, summary, blockquote { color: #9198a1; }
+  h2, .tool, blockquote { border-color: #3d444d; }
+  .prompt { background: #1f2d3d; }
+  pre { background: #151b23; }
+  .error { color: #ff7b72; }
+}
+`.trim();
+
+/**
+ * One HTML file with inline styles, readable offline. Tool outputs are collapsed.
+ */
+export function transcriptToHtml(transcript: Transcript): string {
+  const title = escapeHtml(transcriptTitle(transcript));
+  const body = [`<h1>${title}</h1>`, `<ul class="meta">`];
+  body.push(...summaryLines(transcript).map((line) => `<li>${escapeHtml(line)}</li>`), `</ul>`);
+
+  transcript.turns.forEach((turn, i) => {
+    body.push(`<h2>${i + 1}. ${escapeHtml(turnDetails(turn))}</h2>`);
+    body.push(`<div class="prompt">${escapeHtml(turn.prompt)}</div>`);
+    for (const item of turn.items) {
+      if (item.type === "text") {
+        body.push(`<div class="response">${renderMarkdown(item.text, Infinity).join("")}</div>`);
+      } else if (item.type === "error") {
+        body.push(`<p class="error">❌ ${escapeHtml(item.text)}</p>`);
+      } else {
+        const subject = toolSubject(item.input);
+        const code = subject ? ` <code>${escapeHtml(subject)}</code>` : "";
+        body.push(
+          `<div class="tool">`,
+          `<div class="tool-name">🔧 ${escapeHtml(item.tool)}${code}</div>`,
+          `<pre><code>${escapeHtml(toolInput(item.input))}</code></pre>`
+        );
+        if (item.output !== undefined) {
+          const label = item.isError ? `<span class="error">Error output</span>` : "Output";
+          body.push(`<details><summary>${label}</summary><pre>${escapeHtml(item.output || "(empty)")}</pre></details>`);
+        }
+        body.push(`</div>`);
+      }
+    }
+  });
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${title}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    `</head>`,
+    `<body>`,
+    `<main>`,
+    ...body,
+    `</main>`,
+    `</body>`,
+    `</html>`,
+    ``,
+  ].join("\n");
+}
@@ -30,6 +30,12 @@ export interface AssistantEvent {
     role: "assistant";
     content: (ToolUseContent | TextContent)[];
     stop_reason: string | null;
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
   };
   session_id: string;
 }
@@ -63,6 +69,26 @@ export interface ResultEvent {
   result: string;
   session_id: string;
   total_cost_usd: number;
+  num_turns?: number;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+// Sent when the CLI runs with --permission-prompt-tool stdio and needs
+// approval for a tool call. Answered with a control_response on stdin.
+export interface ControlRequestEvent {
+  type: "control_request";
+  request_id: string;
+  request: {
+    subtype: "can_use_tool";
+    tool_name: string;
+    input: Record<string, unknown>;
+    tool_use_id?: string;
+  };
 }
 
 export type ClaudeEvent =
@@ -70,6 +96,7 @@ export type ClaudeEvent =
   | AssistantEvent
   | UserEvent
   | ResultEvent
+  | ControlRequestEvent
   | { type: string; [key: string]: unknown }; // fallback for unknown events
 
 // Session state
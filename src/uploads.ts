@@ -0,0 +1,72 @@
+// Saving documents sent from Telegram into the working directory
+import * as fs from "fs";
+import * as path from "path";
+
+export interface UploadConfig {
+  // Where files are saved, relative to the session cwd (default: the cwd itself)
+  dir?: string;
+  maxBytes?: number;
+  // Largest text file that can be inlined into the prompt
+  inlineMaxBytes?: number;
+}
+
+// Telegram bots can't download files over 20MB
+export const DEFAULT_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+export const DEFAULT_INLINE_MAX_BYTES = 64 * 1024;
+
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "log", "csv", "tsv", "json", "jsonl", "yaml", "yml", "toml", "ini", "env", "xml", "html", "css",
+  "js", "jsx", "ts", "tsx", "mjs", "cjs", "py", "rb", "go", "rs", "java", "kt", "swift", "c", "h", "cpp", "hpp",
+  "cs", "php", "sh", "bash", "zsh", "sql", "graphql", "patch", "diff", "conf", "cfg", "lock",
+]);
+
+/**
+ * Make an uploaded filename safe to write: no directories, no hidden files,
+ * only portable characters.
+ */
+export function sanitizeFilename(name: string | undefined): string {
+  const base = (name || "").split(/[\\/]/).pop() || "";
+  const cleaned = base
+    .replace(/[^\w.\-]+/g, "_")
+    .replace(/^[.\-_]+/, "")
+    .slice(0, 100);
+  return cleaned || "upload";
+}
+
+/**
+ * Pick a path in dir that doesn't exist yet, adding -1, -2... before the extension
+ */
+export function uniquePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  let candidate = path.join(dir, filename);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(dir, `${stem}-${i}${ext}`);
+  }
+  return candidate;
+}
+
+export function isPatchFile(filename: string): boolean {
+  return /\.(patch|diff)$/i.test(filename);
+}
+
+export function isTextFile(filename: string, mimeType?: string): boolean {
+  if (mimeType && (mimeType.startsWith("text/") || /json|xml|yaml|javascript/.test(mimeType))) {
+    return true;
+  }
+  const ext = path.extname(filename).slice(1).toLowerCase();
+  return TEXT_EXTENSIONS.has(ext);
+}
+
+/**
+ * Prompt sent to the agent for an uploaded file.
+ * With content, the file is inlined in a fenced block.
+ */
+export function buildUploadPrompt(savedPath: string, caption?: string, content?: string): string {
+  const request = caption?.trim() || "I uploaded a file. Take a look.";
+  if (content === undefined) {
+    return `${request}\n\n(File saved at ${savedPath})`;
+  }
+  const fence = content.includes("```") ? "````" : "```";
+  return `${request}\n\nFile ${savedPath}:\n${fence}\n${content}\n${fence}`;
+}
@@ -0,0 +1,92 @@
+// Allowed Telegram users and their roles
+import * as fs from "fs";
+import * as path from "path";
+import type { Role } from "./roles";
+
+export interface UserEntry {
+  id: number;
+  role: Role;
+  name?: string;
+  // Project directories a developer may work in
+  projects?: string[];
+}
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  developer: 1,
+  admin: 2,
+};
+
+/**
+ * Check whether a user's role is at least the given one
+ */
+export function hasRole(user: UserEntry, min: Role): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[min];
+}
+
+/**
+ * Check whether a user may work in a directory.
+ * Admins go anywhere, developers stay inside their assigned projects.
+ */
+export function canAccessPath(user: UserEntry, target: string): boolean {
+  if (user.role === "admin") return true;
+  if (user.role !== "developer") return false;
+  // Compare real paths so a symlink inside a project can't lead out of it
+  const real = realPath(target);
+  return (user.projects || []).some((project) => {
+    const root = realPath(project);
+    return real === root || real.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+  });
+}
+
+/**
+ * Resolve symlinks in p. For a path that doesn't exist yet, resolves its
+ * nearest existing parent and keeps the rest as given.
+ */
+function realPath(p: string): string {
+  const resolved = path.resolve(p);
+  try {
+    return fs.realpathSync(resolved);
+  } catch {
+    const parent = path.dirname(resolved);
+    return parent === resolved ? resolved : path.join(realPath(parent), path.basename(resolved));
+  }
+}
+
+export class UserRegistry {
+  private users = new Map<number, UserEntry>();
+  private onChange?: (users: UserEntry[]) => void;
+
+  constructor(users: UserEntry[], onChange?: (users: UserEntry[]) => void) {
+    for (const user of users) {
+      this.users.set(user.id, user);
+    }
+    this.onChange = onChange;
+  }
+
+  get(id: number | undefined): UserEntry | undefined {
+    return id === undefined ? undefined : this.users.get(id);
+  }
+
+  list(): UserEntry[] {
+    return [...this.users.values()];
+  }
+
+  /**
+   * Add a user, or replace the entry if the id is already known
+   */
+  set(user: UserEntry): void {
+    this.users.set(user.id, user);
+    this.onChange?.(this.list());
+  }
+
+  remove(id: number): boolean {
+    const removed = this.users.delete(id);
+    if (removed) this.onChange?.(this.list());
+    return removed;
+  }
+
+  admins(): UserEntry[] {
+    return this.list().filter((user) => user.role === "admin");
+  }
+}
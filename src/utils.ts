@@ -30,6 +30,22 @@ export function formatToolUse(tool: ToolUseContent): string {
   }
 }
 
+/**
+ * Path of the file a tool writes to, for tools that create or modify files
+ */
+export function getToolFilePath(tool: string, input: Record<string, unknown>): string | null {
+  switch (tool) {
+    case "Write":
+    case "Edit":
+    case "MultiEdit":
+      return typeof input.file_path === "string" ? input.file_path : null;
+    case "NotebookEdit":
+      return typeof input.notebook_path === "string" ? input.notebook_path : null;
+    default:
+      return null;
+  }
+}
+
 /**
  * Strip thinking tags from assistant responses
  */
@@ -45,6 +61,21 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength) + "...";
 }
 
+/**
+ * Format how long ago a date was, e.g. "5m ago"
+ */
+export function formatRelativeTime(date: Date, now: Date): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - date.getTime()) / 1000));
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return date.toISOString().slice(0, 10);
+}
+
 /**
  * Resolve a path, handling ~ and relative paths
  */
@@ -1,7 +1,11 @@
 // Tests for agent abstraction
-import { describe, it, expect } from "bun:test";
-import { ClaudeAgent, OpenCodeAgent } from "../src/agent";
-import type { NormalizedEvent } from "../src/agent";
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ClaudeAgent, OpenCodeAgent, AiderAgent, AiderOutputParser } from "../src/agent";
+import type { AgentOptions, NormalizedEvent, PermissionMode } from "../src/agent";
+import { estimateCostUsd } from "../src/agent/claude";
 import * as fixtures from "./fixtures/events";
 
 describe("ClaudeAgent", () => {
@@ -109,6 +113,25 @@ describe("ClaudeAgent", () => {
   });
 });
 
+describe("estimateCostUsd", () => {
+  it("prices tokens by model, with cache writes and reads", () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 100_000 };
+    expect(estimateCostUsd("claude-sonnet-4-5-20250929", usage)).toBeCloseTo(4.5);
+    expect(estimateCostUsd("claude-opus-4-1-20250805", usage)).toBeCloseTo(22.5);
+    expect(estimateCostUsd("claude-opus-4-5-20251101", usage)).toBeCloseTo(7.5);
+    expect(estimateCostUsd("claude-haiku-4-5", usage)).toBeCloseTo(1.5);
+    expect(estimateCostUsd("something-new", usage)).toBeCloseTo(4.5);
+    expect(
+      estimateCostUsd("claude-sonnet-4", {
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_input_tokens: 1_000_000,
+        cache_read_input_tokens: 1_000_000,
+      })
+    ).toBeCloseTo(4.05);
+  });
+});
+
 describe("OpenCodeAgent", () => {
   it("can be instantiated", () => {
     const events: NormalizedEvent[] = [];
@@ -151,3 +174,135 @@ describe("OpenCodeAgent", () => {
     expect(agent.isRunning()).toBe(false);
   });
 });
+
+describe("AiderAgent", () => {
+  it("can be instantiated", () => {
+    const events: NormalizedEvent[] = [];
+    const agent = new AiderAgent({ cwd: "/test" }, (event) => events.push(event));
+    expect(agent.isRunning()).toBe(false);
+  });
+
+  it("keeps one history file per session", () => {
+    expect(AiderAgent.historyFileFor("/test", "abc")).toBe(
+      "/test/.aider.vibegram.abc.chat.history.md"
+    );
+  });
+
+  it("has setOnClose method", () => {
+    const agent = new AiderAgent({ cwd: "/test", sessionId: "continue" }, () => {});
+    agent.setOnClose(() => {});
+    expect(typeof agent.setOnClose).toBe("function");
+  });
+
+  describe("with a fake aider", () => {
+    let dir: string;
+    const previousPath = process.env.PATH;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-aider-"));
+      process.env.PATH = dir;
+    });
+
+    afterEach(() => {
+      process.env.PATH = previousPath;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Run one prompt and collect its events up to done
+    function run(options: Partial<AgentOptions>): Promise<NormalizedEvent[]> {
+      return new Promise((resolve) => {
+        const events: NormalizedEvent[] = [];
+        const agent = new AiderAgent({ cwd: dir, ...options }, (event) => {
+          events.push(event);
+          if (event.type === "done") resolve(events);
+        });
+        agent.start("hi");
+      });
+    }
+
+    it("only proposes edits unless edits are accepted", async () => {
+      fs.writeFileSync(path.join(dir, "aider"), '#!/bin/sh\necho "args: $*"\n', { mode: 0o755 });
+      const args = async (permissionMode: PermissionMode) => {
+        const events = await run({ permissionMode });
+        return events.find((e) => e.type === "text")?.content || "";
+      };
+      expect(await args("default")).toContain("--no-suggest-shell-commands --dry-run");
+      expect(await args("acceptEdits")).not.toContain("--dry-run");
+      expect(await args("bypassPermissions")).not.toMatch(/--dry-run|--no-suggest-shell-commands/);
+    });
+
+    it("ends with an error when aider is missing", async () => {
+      const events = await run({ permissionMode: "acceptEdits" });
+      expect(events.at(-1)).toMatchObject({
+        type: "done",
+        isError: true,
+        content: "aider is not installed or not on PATH",
+      });
+    });
+  });
+});
+
+describe("AiderOutputParser", () => {
+  function parse(output: string): NormalizedEvent[] {
+    const parser = new AiderOutputParser("s1");
+    const events = output.split("\n").flatMap((line) => parser.push(line));
+    return [...events, ...parser.flush()];
+  }
+
+  it("skips the startup banner", () => {
+    const events = parse(
+      "Aider v0.86.1\nMain model: gpt-4o with diff edit format\nGit repo: .git with 12 files\nRepo-map: using 1024 tokens"
+    );
+    expect(events).toEqual([]);
+  });
+
+  it("turns prose into a text event", () => {
+    const events = parse("I'll add the function.\nIt returns a string.");
+    expect(events).toEqual([
+      { type: "text", sessionId: "s1", content: "I'll add the function.\nIt returns a string." },
+    ]);
+  });
+
+  it("turns applied edits into tool_use", () => {
+    const events = parse(fixtures.aiderEditOutput);
+    expect(events.map((e) => e.type)).toEqual(["text", "cost", "tool_use", "tool_use"]);
+    expect(events[0]).toMatchObject({ content: "Here is the fix." });
+    expect(events[1]).toMatchObject({ costUsd: 0.01 });
+    expect(events[2]).toMatchObject({ tool: "Edit", input: { file_path: "src/app.py" } });
+    expect(events[3]).toMatchObject({ tool: "Bash" });
+  });
+
+  it("strips SEARCH/REPLACE blocks from text", () => {
+    const events = parse(fixtures.aiderEditOutput);
+    const text = events.find((e) => e.type === "text");
+    expect(text?.content).not.toContain("<<<<<<< SEARCH");
+  });
+
+  it("turns shell runs into tool_use and tool_output", () => {
+    const events = parse(fixtures.aiderShellOutput);
+    expect(events.map((e) => e.type)).toEqual(["text", "tool_use", "tool_output"]);
+    expect(events[0]).toMatchObject({ content: "Run the tests:" });
+    expect(events[1]).toMatchObject({ tool: "Bash", input: { command: "npm test" } });
+    expect(events[2]).toMatchObject({ output: "> test\nRunning 3 tests\n3 passing" });
+  });
+
+  it("keeps prose starting with Running as text", () => {
+    const events = parse("Running the tests again should now pass.\nRunning npm test is up to you.");
+    expect(events).toEqual([
+      {
+        type: "text",
+        sessionId: "s1",
+        content: "Running the tests again should now pass.\nRunning npm test is up to you.",
+      },
+    ]);
+  });
+
+  it("sums token usage and cost", () => {
+    const parser = new AiderOutputParser("s1");
+    parser.push("Tokens: 2.1k sent, 150 received. Cost: $0.01 message, $0.02 session.");
+    const events = parser.push("Tokens: 1.2M sent, 3k received. Cost: $0.50 message, $0.52 session.");
+    expect(events).toEqual([{ type: "cost", sessionId: "s1", costUsd: 0.51 }]);
+    expect(parser.usage).toEqual({ inputTokens: 1_202_100, outputTokens: 3_150 });
+    expect(parser.costUsd).toBeCloseTo(0.51);
+  });
+});
@@ -0,0 +1,113 @@
+// Tests for the audit log: recording, rotation and /audit queries
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AuditLog, formatAuditRecord, matchesAuditQuery, parseAuditQuery, type AuditRecord } from "../src/audit";
+
+// Monday 19 Oct 2026, 12:00 local time
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const record = (entry: Omit<AuditRecord, "time">, time = NOW) =>
+  ({ time: new Date(time).toISOString(), ...entry }) as AuditRecord;
+
+describe("parseAuditQuery", () => {
+  it("reads times, types and a project", () => {
+    expect(parseAuditQuery("", NOW)).toEqual({});
+    expect(parseAuditQuery("2h shell tools api", NOW)).toEqual({
+      since: NOW - 2 * HOUR,
+      types: ["shell", "tool"],
+      project: "api",
+    });
+    expect(parseAuditQuery("today", NOW).since).toBe(new Date(2026, 9, 19).getTime());
+    expect(parseAuditQuery("2026-10-01 /srv/app/", NOW)).toEqual({
+      since: new Date(2026, 9, 1).getTime(),
+      project: "/srv/app",
+    });
+    expect(() => parseAuditQuery("api web", NOW)).toThrow('Couldn\'t read "web"');
+  });
+});
+
+describe("matchesAuditQuery", () => {
+  const shell = record({ type: "shell", userId: 1, cwd: "/p/api", command: "ls", outcome: "ran" }, NOW - HOUR);
+
+  it("filters by time, type and project", () => {
+    expect(matchesAuditQuery(shell, { since: NOW - 2 * HOUR, types: ["shell"], project: "api" })).toBe(true);
+    expect(matchesAuditQuery(shell, { since: NOW - HOUR / 2 })).toBe(false);
+    expect(matchesAuditQuery(shell, { types: ["tool"] })).toBe(false);
+    expect(matchesAuditQuery(shell, { project: "API" })).toBe(true);
+    expect(matchesAuditQuery(shell, { project: "/p" })).toBe(true);
+    expect(matchesAuditQuery(shell, { project: "/p/ap" })).toBe(false);
+    expect(matchesAuditQuery(record({ type: "auth", userId: 9 }), { project: "api" })).toBe(false);
+  });
+});
+
+describe("formatAuditRecord", () => {
+  it("summarizes each type on one line", () => {
+    const at = new Date(2026, 9, 19, 14, 2).getTime();
+    const format = (entry: Omit<AuditRecord, "time">) => formatAuditRecord(record(entry, at));
+    expect(format({ type: "tool", userId: 42, cwd: "/p/api", tool: "Bash", input: { command: "npm test" } })).toBe(
+      "10-19 14:02 🔧 42 Bash: npm test · api"
+    );
+    expect(
+      format({ type: "shell", userId: 42, cwd: "/p/web", command: "npm run dev", outcome: "killed", background: true })
+    ).toBe("10-19 14:02 ⌨️ 42 killed &: npm run dev · web");
+    expect(format({ type: "agent", userId: 42, cwd: "/p", event: "stop", agent: "claude", exitCode: 0 })).toBe(
+      "10-19 14:02 🤖 42 claude stopped (exit 0) · p"
+    );
+    expect(format({ type: "auth", userId: 7, username: "eve", text: "hi\nthere" })).toBe(
+      "10-19 14:02 ⛔ 7 @eve denied: hi there"
+    );
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-audit-"));
+    file = path.join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends JSON lines and cuts long tool inputs", () => {
+    const log = new AuditLog(file);
+    log.record({ type: "message", userId: 1, cwd: "/p", kind: "text", text: "hello" }, NOW);
+    log.record({ type: "tool", userId: 1, cwd: "/p", tool: "Write", input: { content: "x".repeat(5000) } }, NOW);
+    const lines = fs.readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines[0]).toEqual({
+      time: new Date(NOW).toISOString(),
+      type: "message",
+      userId: 1,
+      cwd: "/p",
+      kind: "text",
+      text: "hello",
+    });
+    expect(lines[1].input.content).toEndWith("... (5000 chars)");
+    expect(lines[1].input.content.length).toBeLessThan(4100);
+  });
+
+  it("rotates by size and searches across rotated files", () => {
+    const log = new AuditLog(file, { maxBytes: 300, keep: 2 });
+    for (let i = 0; i < 12; i++) {
+      const cwd = i % 2 ? "/p/api" : "/p/web";
+      log.record({ type: "shell", userId: 1, cwd, command: `echo ${i}`, outcome: "ran" }, NOW + i);
+    }
+    expect(fs.existsSync(`${file}.1`)).toBe(true);
+    expect(fs.existsSync(`${file}.2`)).toBe(true);
+    expect(fs.existsSync(`${file}.3`)).toBe(false);
+    for (const f of [file, `${file}.1`, `${file}.2`]) {
+      expect(fs.statSync(f).size).toBeLessThanOrEqual(300);
+    }
+
+    const { records, total } = new AuditLog(file, { maxBytes: 300, keep: 2 }).query({ project: "api" }, 2);
+    expect(records.map((r) => (r.type === "shell" ? r.command : ""))).toEqual(["echo 9", "echo 11"]);
+    expect(total).toBeGreaterThan(2);
+    expect(total).toBeLessThan(6);
+  });
+});
@@ -0,0 +1,171 @@
+// Tests for per-turn checkpoints
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CheckpointManager, recordFileBackup } from "../src/checkpoints";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+}
+
+describe("CheckpointManager in a git repo", () => {
+  let repo: string;
+  let store: string;
+  let manager: CheckpointManager;
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-repo-"));
+    store = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-ckpt-"));
+    manager = new CheckpointManager(store);
+    git(repo, "init", "-q");
+    git(repo, "config", "user.email", "test@example.com");
+    git(repo, "config", "user.name", "Test");
+    fs.writeFileSync(path.join(repo, "a.txt"), "one\n");
+    fs.writeFileSync(path.join(repo, ".gitignore"), "ignored.txt\n");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-q", "-m", "init");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(store, { recursive: true, force: true });
+  });
+
+  it("leaves the branch and index alone", async () => {
+    fs.writeFileSync(path.join(repo, "a.txt"), "changed\n");
+    fs.writeFileSync(path.join(repo, "new.txt"), "untracked\n");
+    const head = git(repo, "rev-parse", "HEAD");
+    const status = git(repo, "status", "--porcelain");
+
+    const checkpoint = await manager.create(repo, "Refactor   the\nparser");
+
+    expect(checkpoint.kind).toBe("git");
+    expect(checkpoint.prompt).toBe("Refactor the parser");
+    expect(git(repo, "rev-parse", "HEAD")).toBe(head);
+    expect(git(repo, "status", "--porcelain")).toBe(status);
+    expect(git(repo, "for-each-ref", "refs/vibegram/checkpoints")).toContain(checkpoint.id);
+  });
+
+  it("snapshots the working tree over staged changes", async () => {
+    fs.writeFileSync(path.join(repo, "a.txt"), "staged\n");
+    git(repo, "add", "a.txt");
+    fs.writeFileSync(path.join(repo, "a.txt"), "working\n");
+    fs.rmSync(path.join(repo, ".gitignore"));
+
+    const checkpoint = await manager.create(repo, "turn");
+
+    const ref = `refs/vibegram/checkpoints/${checkpoint.id}`;
+    expect(git(repo, "show", `${ref}:a.txt`)).toBe("working");
+    expect(git(repo, "ls-tree", "--name-only", ref)).toBe("a.txt");
+    expect(git(repo, "diff", "--cached", "--name-only")).toBe("a.txt");
+    expect(git(repo, "show", ":a.txt")).toBe("staged");
+  });
+
+  it("restores edits, deletions and new files", async () => {
+    fs.writeFileSync(path.join(repo, "draft.txt"), "draft\n");
+    const checkpoint = await manager.create(repo, "first");
+
+    fs.writeFileSync(path.join(repo, "a.txt"), "two\n");
+    fs.rmSync(path.join(repo, "draft.txt"));
+    fs.mkdirSync(path.join(repo, "src"));
+    fs.writeFileSync(path.join(repo, "src", "added.ts"), "export {};\n");
+    fs.writeFileSync(path.join(repo, "ignored.txt"), "keep me\n");
+
+    const changed = await manager.restore(repo, checkpoint.id);
+
+    expect(changed.sort()).toEqual(["a.txt", "draft.txt", "src/added.ts"]);
+    expect(fs.readFileSync(path.join(repo, "a.txt"), "utf-8")).toBe("one\n");
+    expect(fs.readFileSync(path.join(repo, "draft.txt"), "utf-8")).toBe("draft\n");
+    expect(fs.existsSync(path.join(repo, "src", "added.ts"))).toBe(false);
+    expect(fs.existsSync(path.join(repo, "ignored.txt"))).toBe(true);
+    expect(git(repo, "status", "--porcelain")).toBe("?? draft.txt");
+  });
+
+  it("lists newest first and drops newer checkpoints on rollback", async () => {
+    const first = await manager.create(repo, "first");
+    fs.writeFileSync(path.join(repo, "a.txt"), "two\n");
+    const second = await manager.create(repo, "second");
+    fs.writeFileSync(path.join(repo, "a.txt"), "three\n");
+
+    expect((await manager.list(repo)).map((c) => c.prompt)).toEqual(["second", "first"]);
+
+    await manager.restore(repo, first.id);
+    expect(fs.readFileSync(path.join(repo, "a.txt"), "utf-8")).toBe("one\n");
+    expect(await manager.list(repo)).toEqual([]);
+    await expect(manager.restore(repo, second.id)).rejects.toThrow("not found");
+  });
+
+  it("finds checkpoints from a subdirectory", async () => {
+    fs.mkdirSync(path.join(repo, "sub"));
+    const checkpoint = await manager.create(path.join(repo, "sub"), "from sub");
+    const list = await manager.list(repo);
+    expect(list.map((c) => c.id)).toEqual([checkpoint.id]);
+  });
+});
+
+describe("CheckpointManager outside git", () => {
+  let dir: string;
+  let store: string;
+  let manager: CheckpointManager;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-plain-"));
+    store = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-ckpt-"));
+    manager = new CheckpointManager(store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(store, { recursive: true, force: true });
+  });
+
+  it("restores only the files backed up during the turn", async () => {
+    const notes = path.join(dir, "notes.md");
+    const created = path.join(dir, "out", "report.txt");
+    fs.writeFileSync(notes, "original\n");
+
+    const checkpoint = await manager.create(dir, "edit notes");
+    expect(checkpoint.kind).toBe("files");
+
+    recordFileBackup(checkpoint, notes);
+    fs.writeFileSync(notes, "edited\n");
+    recordFileBackup(checkpoint, notes);
+    fs.writeFileSync(notes, "edited twice\n");
+    recordFileBackup(checkpoint, created);
+    fs.mkdirSync(path.dirname(created));
+    fs.writeFileSync(created, "new\n");
+
+    const changed = await manager.restore(dir, checkpoint.id);
+
+    expect(changed.sort()).toEqual([notes, created].sort());
+    expect(fs.readFileSync(notes, "utf-8")).toBe("original\n");
+    expect(fs.existsSync(created)).toBe(false);
+    expect(await manager.list(dir)).toEqual([]);
+  });
+
+  it("rolls back across several turns to the oldest state", async () => {
+    const file = path.join(dir, "file.txt");
+    fs.writeFileSync(file, "v1\n");
+
+    const first = await manager.create(dir, "first");
+    recordFileBackup(first, file);
+    fs.writeFileSync(file, "v2\n");
+
+    const second = await manager.create(dir, "second");
+    recordFileBackup(second, file);
+    fs.writeFileSync(file, "v3\n");
+
+    expect((await manager.list(dir)).map((c) => c.prompt)).toEqual(["second", "first"]);
+    await manager.restore(dir, first.id);
+    expect(fs.readFileSync(file, "utf-8")).toBe("v1\n");
+  });
+
+  it("ignores backups for git checkpoints and missing checkpoints", () => {
+    expect(() => recordFileBackup(null, "/tmp/whatever")).not.toThrow();
+    expect(() =>
+      recordFileBackup({ id: "1", kind: "git", prompt: "", createdAt: 1, location: dir }, path.join(dir, "x"))
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,275 @@
+// Tests for layered config resolution and the doctor checks
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  configFileCandidates,
+  defaultConfigDir,
+  getConfigValue,
+  mergeConfig,
+  parseConfigValue,
+  parseDotEnv,
+  readConfigFile,
+  redactConfig,
+  resolveConfig,
+  setConfigValue,
+  projectRoots,
+  startDirectory,
+  writeConfigFile,
+  type ConfigEnvironment,
+} from "../src/config";
+import { formatChecks, runChecks, type DoctorProbes } from "../src/doctor";
+
+describe("config discovery", () => {
+  const linux: ConfigEnvironment = { platform: "linux", home: "/home/me", cwd: "/work", env: {} };
+
+  it("uses XDG directories on Linux", () => {
+    expect(defaultConfigDir(linux)).toBe("/home/me/.config/vibegram");
+    expect(defaultConfigDir({ ...linux, env: { XDG_CONFIG_HOME: "/xdg" } })).toBe("/xdg/vibegram");
+    expect(configFileCandidates({ ...linux, env: { XDG_CONFIG_DIRS: "/etc/a:/etc/b" } })).toEqual([
+      "/home/me/.vibegram.json",
+      "/home/me/.config/vibegram/config.json",
+      "/etc/a/vibegram/config.json",
+      "/etc/b/vibegram/config.json",
+    ]);
+  });
+
+  it("shares the app's folder on macOS", () => {
+    const mac: ConfigEnvironment = { ...linux, platform: "darwin", home: "/Users/me" };
+    expect(defaultConfigDir(mac)).toBe("/Users/me/Library/Application Support/Vibegram");
+    expect(configFileCandidates(mac)).toEqual([
+      "/Users/me/.vibegram.json",
+      "/Users/me/Library/Application Support/Vibegram/config.json",
+    ]);
+  });
+});
+
+describe("resolveConfig", () => {
+  let dir: string;
+  let environment: ConfigEnvironment;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-config-"));
+    const cwd = path.join(dir, "work");
+    fs.mkdirSync(cwd);
+    environment = { platform: "linux", home: dir, cwd, env: { XDG_CONFIG_DIRS: path.join(dir, "etc") } };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds nothing in an empty home", () => {
+    const resolved = resolveConfig({}, environment);
+    expect(resolved.filePath).toBeNull();
+    expect(resolved.sources).toEqual([]);
+    expect(resolved.configDir).toBe(path.join(dir, ".config", "vibegram"));
+  });
+
+  it("prefers ~/.vibegram.json over the XDG config", () => {
+    writeConfigFile(path.join(dir, ".config", "vibegram", "config.json"), { token: "1:xdg" });
+    expect(resolveConfig({}, environment).config.token).toBe("1:xdg");
+
+    writeConfigFile(path.join(dir, ".vibegram.json"), { token: "1:home" });
+    expect(resolveConfig({}, environment).config.token).toBe("1:home");
+  });
+
+  it("layers file < .env < environment < flags", () => {
+    writeConfigFile(path.join(dir, ".vibegram.json"), {
+      token: "1:file",
+      allowedUserId: 1,
+      agent: "claude",
+      budget: { dailyUsd: 10, taskUsd: 2 },
+    });
+    fs.writeFileSync(path.join(environment.cwd, ".env"), "TELEGRAM_ALLOWED_USER_ID=2\nVIBEGRAM_AGENT=aider\n");
+    environment.env.VIBEGRAM_AGENT = "opencode";
+    environment.env.VIBEGRAM_DAILY_BUDGET_USD = "5";
+
+    const resolved = resolveConfig({ flags: { "projects-root": "~/code" } }, environment);
+    expect(resolved.config).toEqual({
+      version: 1,
+      token: "1:file",
+      allowedUserId: 2,
+      agent: "opencode",
+      budget: { dailyUsd: 5, taskUsd: 2 },
+      projectRoot: path.join(dir, "code"),
+    });
+    expect(resolved.sources).toEqual([
+      path.join(dir, ".vibegram.json"),
+      path.join(environment.cwd, ".env"),
+      "environment",
+      "flags",
+    ]);
+  });
+
+  it("reads PROJECTS_ROOT and DEFAULT_PROJECT", () => {
+    environment.env.PROJECTS_ROOT = "/srv/projects";
+    environment.env.DEFAULT_PROJECT = "api";
+    const { config } = resolveConfig({}, environment);
+    expect(config.projectRoot).toBe("/srv/projects");
+    expect(startDirectory(config, dir)).toBe("/srv/projects/api");
+  });
+
+  it("keeps state next to an explicit config file", () => {
+    const file = path.join(dir, "custom", "bot.json");
+    writeConfigFile(file, { token: "1:t" });
+    const resolved = resolveConfig({ configPath: file }, environment);
+    expect(resolved.filePath).toBe(file);
+    expect(resolved.configDir).toBe(path.dirname(file));
+  });
+
+  it("rejects bad input", () => {
+    expect(() => resolveConfig({ configPath: path.join(dir, "missing.json") }, environment)).toThrow("not found");
+    fs.writeFileSync(path.join(dir, ".vibegram.json"), "{ nope");
+    expect(() => resolveConfig({}, environment)).toThrow("not valid JSON");
+    fs.rmSync(path.join(dir, ".vibegram.json"));
+    expect(() => resolveConfig({ flags: { port: "http" } }, environment)).toThrow(
+      'webhook.port: expected an integer from 0 to 65535, got "http"'
+    );
+    expect(() => resolveConfig({ flags: { agent: "gpt" } }, environment)).toThrow(
+      'Invalid config in flags:\n  agent: expected one of claude, opencode, aider, got "gpt"'
+    );
+  });
+
+  it("writes config files owner-only", () => {
+    const file = path.join(dir, ".vibegram.json");
+    writeConfigFile(file, { token: "1:secret" });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(readConfigFile(file)).toEqual({ version: 1, token: "1:secret" });
+  });
+
+  it("names the bad key in a config file", () => {
+    writeConfigFile(path.join(dir, ".vibegram.json"), { allowedUserId: 12, budget: { dailyUsd: -1 } });
+    expect(() => resolveConfig({}, environment)).toThrow("budget.dailyUsd: expected a number >= 0, got -1");
+  });
+
+  it("upgrades unversioned files in place and warns about unknown keys", () => {
+    const file = path.join(dir, ".vibegram.json");
+    fs.writeFileSync(file, JSON.stringify({ token: "1:abc", allowedUserId: "42", projectRoot: "", agnet: "aider" }));
+
+    const resolved = resolveConfig({}, environment);
+    expect(resolved.config).toEqual({ version: 1, token: "1:abc", allowedUserId: 42, agnet: "aider" } as object);
+    expect(resolved.warnings).toEqual([
+      `Upgraded ${file} from config version 0 to 1`,
+      `${file}: agnet: unknown key, ignored`,
+    ]);
+    expect(readConfigFile(file)).toEqual(resolved.config);
+    expect(JSON.parse(fs.readFileSync(`${file}.v0.bak`, "utf-8")).allowedUserId).toBe("42");
+
+    // Already current: left alone
+    expect(resolveConfig({}, environment).warnings).toEqual([`${file}: agnet: unknown key, ignored`]);
+  });
+});
+
+describe("config helpers", () => {
+  it("parses .env files", () => {
+    expect(parseDotEnv("# comment\nA=1\nB = 'two'\nC=\"x=y\"\nEMPTY=\n\nNOEQUALS")).toEqual({
+      A: "1",
+      B: "two",
+      C: "x=y",
+    });
+  });
+
+  it("gets and sets dotted keys", () => {
+    const config = { budget: { dailyUsd: 5 } };
+    expect(getConfigValue(config, "budget.dailyUsd")).toBe(5);
+    expect(getConfigValue(config, "budget.dailyUsd.x")).toBeUndefined();
+    setConfigValue(config, "webhook.port", 9000);
+    setConfigValue(config, "budget.dailyUsd", undefined);
+    expect(config).toEqual({ budget: {}, webhook: { port: 9000 } });
+  });
+
+  it("parses command line values as JSON when possible", () => {
+    expect(parseConfigValue("5")).toBe(5);
+    expect(parseConfigValue("false")).toBe(false);
+    expect(parseConfigValue('{"a":1}')).toEqual({ a: 1 });
+    expect(parseConfigValue("aider")).toBe("aider");
+  });
+
+  it("merges nested objects key by key", () => {
+    expect(mergeConfig({ budget: { dailyUsd: 1, taskUsd: 2 } }, { budget: { dailyUsd: 3 } })).toEqual({
+      budget: { dailyUsd: 3, taskUsd: 2 },
+    });
+  });
+
+  it("masks secrets", () => {
+    const config = { token: "123456:ABCDEFGHIJ", webhook: { url: "https://x", secretToken: "short" } };
+    expect(redactConfig(config)).toEqual({ token: "1234…IJ", webhook: { url: "https://x", secretToken: "***" } });
+    expect(config.token).toBe("123456:ABCDEFGHIJ");
+  });
+
+  it("starts in the home directory without a projects root", () => {
+    expect(startDirectory({}, "/home/me")).toBe("/home/me");
+    expect(startDirectory({ projectRoot: "~/code", defaultProject: "app" }, "/home/me")).toBe("/home/me/code/app");
+  });
+
+  it("scans the projects root and any extra roots", () => {
+    expect(projectRoots({}, "/home/me")).toEqual(["/home/me"]);
+    expect(projectRoots({ projectRoot: "~/code", projectRoots: ["/srv/repos", "~/code/"] }, "/home/me")).toEqual([
+      "/home/me/code",
+      "/srv/repos",
+    ]);
+  });
+});
+
+describe("runChecks", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-doctor-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const probes = (installed: string[], username: string | null): DoctorProbes => ({
+    commandVersion: async (command) => (installed.includes(command) ? `${command} 1.0` : null),
+    botUsername: async () => {
+      if (!username) throw new Error("Unauthorized");
+      return username;
+    },
+  });
+
+  it("passes a complete setup", async () => {
+    const results = await runChecks(
+      {
+        config: { token: "t", allowedUserId: 1, projectRoot: dir },
+        filePath: null,
+        configDir: path.join(dir, "state"),
+        sources: ["environment"],
+        warnings: [],
+      },
+      probes(["claude", "git", "whisper-cli", "ffmpeg"], "my_bot")
+    );
+    expect(results.every((r) => r.status === "ok")).toBe(true);
+    expect(results.find((r) => r.name === "Telegram token")?.detail).toBe("@my_bot");
+  });
+
+  it("reports what's missing", async () => {
+    const results = await runChecks(
+      {
+        config: { token: "bad", projectRoot: path.join(dir, "nope"), webhook: { url: "http://x" } },
+        filePath: null,
+        configDir: path.join(dir, "state"),
+        sources: ["flags"],
+        warnings: [],
+      },
+      probes([], null)
+    );
+    const status = Object.fromEntries(results.map((r) => [r.name, r.status]));
+    expect(status).toEqual({
+      Config: "ok",
+      "Telegram token": "fail",
+      "Allowed users": "fail",
+      "Project root": "fail",
+      "State directory": "ok",
+      "Agent (claude)": "fail",
+      git: "warn",
+      Voice: "warn",
+      Webhook: "fail",
+    });
+    expect(formatChecks(results)).toContain("❌ Telegram token   rejected: Unauthorized");
+  });
+});
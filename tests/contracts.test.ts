@@ -86,6 +86,9 @@ describe("Claude Event Contracts", () => {
       expect(typeof event.result).toBe("string");
       expect(typeof event.session_id).toBe("string");
       expect(typeof event.total_cost_usd).toBe("number");
+      expect(typeof event.num_turns).toBe("number");
+      expect(typeof event.usage?.input_tokens).toBe("number");
+      expect(typeof event.usage?.output_tokens).toBe("number");
     });
 
     it("error result has is_error true", () => {
@@ -0,0 +1,119 @@
+// Tests for cost tracking and budgets
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CostTracker, budgetStatus, dayKey, startOfWeek, formatUsd, formatTokens } from "../src/costs";
+
+const turn = { costUsd: 0.25, usage: { inputTokens: 1000, outputTokens: 200 }, numTurns: 3 };
+
+describe("CostTracker", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-costs-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("sums spend per day", () => {
+    const tracker = new CostTracker(null);
+    const monday = new Date(2026, 9, 12, 10);
+    const tuesday = new Date(2026, 9, 13, 10);
+    tracker.record("/p/a", turn, monday);
+    tracker.record("/p/a", turn, tuesday);
+    tracker.record("/p/b", { costUsd: 1 }, tuesday);
+
+    expect(tracker.today(tuesday)).toEqual({
+      costUsd: 1.25,
+      inputTokens: 1000,
+      outputTokens: 200,
+      turns: 3,
+      tasks: 2,
+    });
+    expect(tracker.thisWeek(tuesday).costUsd).toBe(1.5);
+    expect(tracker.thisWeek(new Date(2026, 9, 19)).costUsd).toBe(0);
+  });
+
+  it("totals per project, most expensive first", () => {
+    const tracker = new CostTracker(null);
+    tracker.record("/p/a", turn);
+    tracker.record("/p/b", { costUsd: 2 });
+    tracker.record("/p/a", turn);
+    const projects = tracker.byProject();
+    expect(projects.map(([p]) => p)).toEqual(["/p/b", "/p/a"]);
+    expect(projects[1][1].costUsd).toBe(0.5);
+    expect(projects[1][1].tasks).toBe(2);
+  });
+
+  it("treats turns without a reported cost as free", () => {
+    const tracker = new CostTracker(null);
+    expect(tracker.record("/p/a", {})).toBe(0);
+    expect(tracker.today().tasks).toBe(1);
+  });
+
+  it("persists to disk", () => {
+    const file = path.join(dir, "nested", "costs.json");
+    new CostTracker(file).record("/p/a", turn);
+    expect(new CostTracker(file).today().costUsd).toBe(0.25);
+  });
+
+  it("drops days older than the retention window", () => {
+    const file = path.join(dir, "costs.json");
+    const tracker = new CostTracker(file);
+    tracker.record("/p/a", turn, new Date(2026, 0, 1));
+    tracker.record("/p/a", turn, new Date(2026, 6, 1));
+    const saved = JSON.parse(fs.readFileSync(file, "utf-8"));
+    expect(Object.keys(saved)).toEqual(["2026-07-01"]);
+  });
+
+  it("starts empty when the file is corrupt", () => {
+    const file = path.join(dir, "costs.json");
+    fs.writeFileSync(file, "{nope");
+    expect(new CostTracker(file).today().costUsd).toBe(0);
+  });
+});
+
+describe("budgetStatus", () => {
+  it("is ok without a limit", () => {
+    expect(budgetStatus(0, 100, undefined)).toBe("ok");
+  });
+
+  it("warns once when crossing the threshold", () => {
+    expect(budgetStatus(0.5, 0.85, 1)).toBe("warn");
+    expect(budgetStatus(0.85, 0.9, 1)).toBe("ok");
+    expect(budgetStatus(0.1, 0.6, 1, 0.5)).toBe("warn");
+  });
+
+  it("is exceeded at the limit", () => {
+    expect(budgetStatus(0.9, 1, 1)).toBe("exceeded");
+    expect(budgetStatus(0, 5, 1)).toBe("exceeded");
+  });
+});
+
+describe("date helpers", () => {
+  it("formats local days", () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+  });
+
+  it("finds the Monday of the week", () => {
+    expect(dayKey(startOfWeek(new Date(2026, 9, 18)))).toBe("2026-10-12");
+    expect(dayKey(startOfWeek(new Date(2026, 9, 12)))).toBe("2026-10-12");
+  });
+});
+
+describe("formatting", () => {
+  it("formats dollars", () => {
+    expect(formatUsd(0)).toBe("$0.00");
+    expect(formatUsd(0.0042)).toBe("$0.0042");
+    expect(formatUsd(1.5)).toBe("$1.50");
+  });
+
+  it("formats token counts", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12_300)).toBe("12.3k");
+    expect(formatTokens(2_500_000)).toBe("2.5M");
+  });
+});
@@ -0,0 +1,124 @@
+// Tests for unified diff rendering
+import { describe, it, expect } from "bun:test";
+import { diffLines, createUnifiedDiff, previewToolChange } from "../src/diff";
+
+describe("diffLines", () => {
+  it("marks unchanged, removed and added lines", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c"])).toEqual([
+      { type: " ", text: "a" },
+      { type: "-", text: "b" },
+      { type: "+", text: "x" },
+      { type: " ", text: "c" },
+    ]);
+  });
+
+  it("handles empty inputs", () => {
+    expect(diffLines([], ["a"])).toEqual([{ type: "+", text: "a" }]);
+    expect(diffLines(["a"], [])).toEqual([{ type: "-", text: "a" }]);
+    expect(diffLines([], [])).toEqual([]);
+  });
+
+  it("replaces everything when the inputs share too little", () => {
+    const a = Array.from({ length: 2500 }, (_, i) => `a${i}`);
+    const b = Array.from({ length: 2500 }, (_, i) => `b${i}`);
+    const lines = diffLines(a, b);
+    expect(lines).toHaveLength(5000);
+    expect(lines[0]).toEqual({ type: "-", text: "a0" });
+    expect(lines[2500]).toEqual({ type: "+", text: "b0" });
+  });
+
+  it("finds changes far apart in long inputs", () => {
+    const a = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const b = [...a];
+    b[10] = "changed";
+    b.splice(19000, 1);
+    const lines = diffLines(a, b);
+    expect(lines.filter((line) => line.type !== " ")).toEqual([
+      { type: "-", text: "line 10" },
+      { type: "+", text: "changed" },
+      { type: "-", text: "line 19000" },
+    ]);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  it("returns nothing when unchanged", () => {
+    expect(createUnifiedDiff("a.txt", "same\n", "same\n")).toBe("");
+  });
+
+  it("renders a hunk with context", () => {
+    const oldText = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n");
+    const newText = ["1", "2", "3", "4", "five", "6", "7", "8"].join("\n");
+    expect(createUnifiedDiff("src/a.ts", oldText, newText)).toBe(
+      [
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = "changed 2";
+    newLines[18] = "changed 19";
+    const diff = createUnifiedDiff("f", oldLines.join("\n"), newLines.join("\n"));
+    expect(diff.match(/^@@/gm)?.length).toBe(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -16,5 +16,5 @@");
+  });
+
+  it("diffs new files against /dev/null", () => {
+    expect(createUnifiedDiff("new.ts", null, "hello\n")).toBe(
+      ["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,1 @@", "+hello"].join("\n")
+    );
+  });
+});
+
+describe("previewToolChange", () => {
+  it("applies Edit to the current file", () => {
+    expect(previewToolChange("Edit", { old_string: "foo", new_string: "bar" }, "a foo b foo")).toEqual({
+      oldText: "a foo b foo",
+      newText: "a bar b foo",
+    });
+  });
+
+  it("honors replace_all", () => {
+    const change = previewToolChange("Edit", { old_string: "foo", new_string: "bar", replace_all: true }, "foo foo");
+    expect(change?.newText).toBe("bar bar");
+  });
+
+  it("falls back to the snippet when the edit can't be placed", () => {
+    expect(previewToolChange("Edit", { old_string: "x", new_string: "y" }, null)).toEqual({
+      oldText: "x",
+      newText: "y",
+    });
+  });
+
+  it("applies MultiEdit edits in order", () => {
+    const change = previewToolChange(
+      "MultiEdit",
+      { edits: [{ old_string: "a", new_string: "b" }, { old_string: "b", new_string: "c" }] },
+      "a"
+    );
+    expect(change).toEqual({ oldText: "a", newText: "c" });
+  });
+
+  it("compares Write content with the previous contents", () => {
+    expect(previewToolChange("Write", { content: "new" }, "old")).toEqual({ oldText: "old", newText: "new" });
+    expect(previewToolChange("Write", { content: "new" }, null)).toEqual({ oldText: null, newText: "new" });
+  });
+
+  it("ignores other tools", () => {
+    expect(previewToolChange("Read", { file_path: "/a" }, "x")).toBeNull();
+  });
+});
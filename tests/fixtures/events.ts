@@ -85,6 +85,13 @@ export const successResultEvent: ResultEvent = {
   result: "Task completed successfully",
   session_id: "abc123-def456",
   total_cost_usd: 0.0123,
+  num_turns: 3,
+  usage: {
+    input_tokens: 1200,
+    output_tokens: 340,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 5000,
+  },
 };
 
 export const errorResultEvent: ResultEvent = {
@@ -146,3 +153,36 @@ export const taskToolUse: ToolUseContent = {
   name: "Task",
   input: { description: "Explore codebase" },
 };
+
+// Aider --no-pretty --no-stream stdout samples
+export const aiderEditOutput = [
+  "Aider v0.86.1",
+  "Main model: gpt-4o with diff edit format",
+  "Here is the fix.",
+  "",
+  "src/app.py",
+  "```python",
+  "<<<<<<< SEARCH",
+  "return 1",
+  "=======",
+  "return 2",
+  ">>>>>>> REPLACE",
+  "```",
+  "",
+  "Tokens: 2.1k sent, 150 received. Cost: $0.01 message, $0.02 session.",
+  "Applied edit to src/app.py",
+  "Commit 1a2b3c4 fix: return 2",
+].join("\n");
+
+export const aiderShellOutput = [
+  "Run the tests:",
+  "",
+  "npm test",
+  "Run shell command? (Y)es/(N)o/(D)on't ask again [Yes]: y",
+  "",
+  "Running npm test",
+  "> test",
+  "Running 3 tests",
+  "3 passing",
+  "Add command output to the chat? (Y)es/(N)o [Yes]: y",
+].join("\n");
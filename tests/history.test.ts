@@ -0,0 +1,78 @@
+// Tests for reading Claude Code's session store
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { claudeProjectDir, listSessions, getLastSessionSummary } from "../src/history";
+
+const cwd = "/Users/test/project";
+
+function writeSession(home: string, id: string, lines: object[], mtime: Date): void {
+  const dir = claudeProjectDir(cwd, home);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${id}.jsonl`);
+  fs.writeFileSync(filePath, lines.map((l) => JSON.stringify(l)).join("\n") + "\n");
+  fs.utimesSync(filePath, mtime, mtime);
+}
+
+describe("claudeProjectDir", () => {
+  it("maps the cwd to a project key", () => {
+    expect(claudeProjectDir(cwd, "/home/me")).toBe("/home/me/.claude/projects/-Users-test-project");
+  });
+});
+
+describe("listSessions", () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-history-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it("returns nothing without a session dir", () => {
+    expect(listSessions(cwd, home)).toEqual([]);
+    expect(getLastSessionSummary(cwd, home)).toBeNull();
+  });
+
+  it("lists sessions newest first with details", () => {
+    writeSession(
+      home,
+      "older",
+      [
+        { type: "user", message: { role: "user", content: "Fix the login bug" } },
+        { type: "assistant", message: { role: "assistant", content: [{ type: "text", text: "Done" }] } },
+        { type: "summary", summary: "Login bug fix" },
+      ],
+      new Date("2025-01-01T00:00:00Z")
+    );
+    writeSession(
+      home,
+      "newer",
+      [
+        { type: "user", isMeta: true, message: { role: "user", content: "<command-name>/clear</command-name>" } },
+        { type: "user", message: { role: "user", content: [{ type: "text", text: "Add tests" }] } },
+        { type: "assistant", message: { role: "assistant", content: [] } },
+        { type: "user", message: { role: "user", content: [{ type: "tool_result", content: "ok" }] } },
+        { type: "assistant", message: { role: "assistant", content: [] } },
+      ],
+      new Date("2025-01-02T00:00:00Z")
+    );
+
+    const sessions = listSessions(cwd, home);
+    expect(sessions.map((s) => s.id)).toEqual(["newer", "older"]);
+    expect(sessions[0]).toMatchObject({ firstPrompt: "Add tests", messageCount: 3, summary: null });
+    expect(sessions[1]).toMatchObject({ firstPrompt: "Fix the login bug", messageCount: 2, summary: "Login bug fix" });
+    expect(getLastSessionSummary(cwd, home)).toBeNull();
+  });
+
+  it("respects the limit and skips empty files", () => {
+    writeSession(home, "a", [{ type: "summary", summary: "A" }], new Date("2025-01-01T00:00:00Z"));
+    fs.writeFileSync(path.join(claudeProjectDir(cwd, home), "empty.jsonl"), "");
+
+    expect(listSessions(cwd, home, 1).map((s) => s.id)).toEqual(["a"]);
+    expect(getLastSessionSummary(cwd, home)).toBe("A");
+  });
+});
@@ -0,0 +1,62 @@
+// Tests for background jobs
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JobManager, formatUptime } from "../src/jobs";
+
+describe("JobManager", () => {
+  let dir: string;
+  let jobs: JobManager;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-jobs-"));
+    jobs = new JobManager(path.join(dir, "logs"));
+  });
+
+  afterEach(async () => {
+    await jobs.stopAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs jobs in the background and drops them when they exit", async () => {
+    const job = jobs.start(7, "echo started; sleep 0.2; echo done", dir);
+    expect(job).toMatchObject({ id: 1, userId: 7, cwd: dir });
+    expect(job.run.pid).toBeGreaterThan(0);
+    expect(jobs.list()).toEqual([job]);
+
+    const result = await job.run.done;
+    expect(result.exitCode).toBe(0);
+    expect(job.run.recentOutput).toBe("started\ndone\n");
+    expect(jobs.get(1)).toBeUndefined();
+    expect(jobs.start(7, "true", dir).id).toBe(2);
+  });
+
+  it("shows output while the job runs", async () => {
+    const job = jobs.start(7, "echo ready; sleep 30", dir);
+    for (let i = 0; i < 50 && !job.run.recentOutput; i++) await Bun.sleep(20);
+    expect(job.run.recentOutput).toBe("ready\n");
+    expect(job.run.running).toBe(true);
+  });
+
+  it("kills single jobs and all of them", async () => {
+    const first = jobs.start(7, "sleep 30", dir);
+    const second = jobs.start(7, "sleep 30 & sleep 30", dir);
+    expect(jobs.kill(first.id)).toBe(true);
+    expect((await first.run.done).killed).toBe(true);
+    expect(jobs.kill(first.id)).toBe(false);
+
+    await jobs.stopAll();
+    expect(second.run.running).toBe(false);
+    expect(jobs.list()).toEqual([]);
+  });
+});
+
+describe("formatUptime", () => {
+  it("uses the two largest units", () => {
+    expect(formatUptime(45 * 1000)).toBe("45s");
+    expect(formatUptime(12 * 60 * 1000 + 5000)).toBe("12m");
+    expect(formatUptime((3 * 60 + 5) * 60 * 1000)).toBe("3h 5m");
+    expect(formatUptime((52 * 60 + 10) * 60 * 1000)).toBe("2d 4h");
+  });
+});
@@ -0,0 +1,76 @@
+// Tests for prompt macro expansion and the macro registry
+import { describe, it, expect } from "bun:test";
+import * as os from "os";
+import {
+  currentBranch,
+  expandMacro,
+  macroParameters,
+  MacroRegistry,
+  splitArguments,
+  type MacroEntry,
+} from "../src/macros";
+
+const context = { cwd: "/p/api", branch: "main" };
+const macro = (template: string): MacroEntry => ({ name: "t", template });
+
+describe("macroParameters", () => {
+  it("lists placeholders in order, without the built-in ones", () => {
+    expect(macroParameters("diff {branch} against {base} in {cwd}, focus on {area} then {base}")).toEqual([
+      "base",
+      "area",
+    ]);
+    expect(macroParameters("review the last commit")).toEqual([]);
+  });
+});
+
+describe("splitArguments", () => {
+  it("keeps quoted arguments together", () => {
+    expect(splitArguments(' src/a.ts  "the parser" x ')).toEqual(["src/a.ts", "the parser", "x"]);
+    expect(splitArguments('""')).toEqual([""]);
+  });
+});
+
+describe("expandMacro", () => {
+  it("fills placeholders, giving the rest of the text to the last one", () => {
+    expect(expandMacro(macro("write tests for {file} covering {cases}"), "src/a.ts edge cases and errors", context)).toBe(
+      "write tests for src/a.ts covering edge cases and errors"
+    );
+    expect(expandMacro(macro("fix {file} on {branch} in {cwd}"), '"my file.ts"', context)).toBe(
+      "fix my file.ts on main in /p/api"
+    );
+  });
+
+  it("appends arguments to macros without placeholders", () => {
+    expect(expandMacro(macro("review the last commit"), "", context)).toBe("review the last commit");
+    expect(expandMacro(macro("review the last commit"), " look at auth ", context)).toBe(
+      "review the last commit\n\nlook at auth"
+    );
+  });
+
+  it("names missing arguments", () => {
+    expect(() => expandMacro(macro("compare {a} and {b}"), "x", context)).toThrow("Missing <b>. Usage: /m t <a> <b>");
+    expect(() => expandMacro(macro("rebase {branch}"), "", { cwd: "/tmp", branch: null })).toThrow(
+      "/t uses {branch}, but /tmp is not a git repository"
+    );
+  });
+});
+
+describe("currentBranch", () => {
+  it("returns null outside a repository", async () => {
+    expect(await currentBranch(os.tmpdir())).toBeNull();
+  });
+});
+
+describe("MacroRegistry", () => {
+  it("keeps macros sorted and reports changes", () => {
+    const changes: MacroEntry[][] = [];
+    const registry = new MacroRegistry([macro("x")], (list) => changes.push(list));
+    registry.set({ name: "ci", template: "fix the failing CI job" });
+    registry.set({ name: "ci", template: "fix CI" });
+    expect(registry.list().map((m) => m.name)).toEqual(["ci", "t"]);
+    expect(registry.get("CI")?.template).toBe("fix CI");
+    expect(registry.remove("nope")).toBe(false);
+    expect(registry.remove("t")).toBe(true);
+    expect(changes.map((list) => list.length)).toEqual([2, 2, 1]);
+  });
+});
@@ -0,0 +1,387 @@
+// Tests for the messenger abstraction, router and terminal transport
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PassThrough } from "stream";
+import { createBot } from "../src/bot";
+import { claudeProjectDir } from "../src/history";
+import { Keyboard, Router, TerminalMessenger, type Messenger, type Update } from "../src/messenger";
+
+const USER_ID = 42;
+
+// Feed lines to a terminal messenger and collect everything it prints
+async function runTerminal(
+  lines: string[],
+  setup: (messenger: TerminalMessenger) => { start: () => Promise<void> }
+): Promise<string> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let printed = "";
+  output.on("data", (chunk) => (printed += chunk.toString()));
+
+  const messenger = new TerminalMessenger({ userId: USER_ID, input, output });
+  const running = setup(messenger).start();
+  for (const line of lines) input.write(line + "\n");
+  input.end();
+  await running;
+  return printed;
+}
+
+describe("Keyboard", () => {
+  it("builds rows and skips empty ones", () => {
+    const keyboard = new Keyboard().row().text("A", "a").text("B", "b").row().text("C", "c").row();
+    expect(keyboard.rows).toEqual([
+      [
+        { label: "A", data: "a" },
+        { label: "B", data: "b" },
+      ],
+      [{ label: "C", data: "c" }],
+    ]);
+    expect(new Keyboard().rows).toEqual([]);
+  });
+});
+
+describe("Router", () => {
+  const messenger = { type: "terminal" } as unknown as Messenger;
+  const from = { id: USER_ID };
+
+  it("routes commands with their arguments", async () => {
+    const router = new Router();
+    const seen: string[] = [];
+    router.command("cd", (ctx) => {
+      seen.push(ctx.match);
+    });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 1, text: "/cd  ~/src " } });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 2, text: "/cd@vibegram_bot" } });
+    expect(seen).toEqual(["~/src", ""]);
+  });
+
+  it("lets unknown commands fall through to text handlers", async () => {
+    const router = new Router();
+    const seen: string[] = [];
+    router.command("new", () => {
+      seen.push("command");
+    });
+    router.on("text", (ctx) => {
+      seen.push(`text:${ctx.message.text}`);
+    });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 1, text: "/newish" } });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 2, text: "/new" } });
+    expect(seen).toEqual(["text:/newish", "command"]);
+  });
+
+  it("matches button data by string or regex", async () => {
+    const router = new Router();
+    const seen: string[] = [];
+    router.action("noop", () => {
+      seen.push("noop");
+    });
+    router.action(/^page:(\d+)$/, (ctx) => {
+      seen.push(`page ${ctx.match[1]}`);
+    });
+    const press = (data: string): Update => ({ chatId: 1, from, action: { id: "1", data, messageId: 5 } });
+    await router.handle(messenger, press("page:3"));
+    await router.handle(messenger, press("noop"));
+    await router.handle(messenger, press("other"));
+    expect(seen).toEqual(["page 3", "noop"]);
+  });
+
+  it("runs middleware in order and stops when next isn't called", async () => {
+    const router = new Router();
+    const seen: string[] = [];
+    router.use(async (ctx, next) => {
+      seen.push("first");
+      if (ctx.from.id === USER_ID) await next();
+    });
+    router.on("text", () => {
+      seen.push("handler");
+    });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 1, text: "hi" } });
+    await router.handle(messenger, { chatId: 1, from: { id: 7 }, message: { id: 2, text: "hi" } });
+    expect(seen).toEqual(["first", "handler", "first"]);
+  });
+
+  it("routes files by kind", async () => {
+    const router = new Router();
+    const seen: string[] = [];
+    router.on(["voice", "audio"], () => {
+      seen.push("audio");
+    });
+    router.on("document", () => {
+      seen.push("document");
+    });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 1, audio: { fileId: "a" } } });
+    await router.handle(messenger, { chatId: 1, from, message: { id: 2, document: { fileId: "d" } } });
+    expect(seen).toEqual(["audio", "document"]);
+  });
+});
+
+describe("TerminalMessenger", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-terminal-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("turns lines into messages, button presses and uploads", async () => {
+    const file = path.join(dir, "notes.txt");
+    fs.writeFileSync(file, "hello");
+    const updates: Update[] = [];
+
+    await runTerminal(["hello there", `@${file} read this`, "#1"], (messenger) => ({
+      start: () =>
+        messenger.start(async (update) => {
+          updates.push(update);
+          if (update.message?.text) {
+            await messenger.send(USER_ID, "Pick one", { keyboard: new Keyboard().text("Yes", "choice:yes") });
+          }
+        }),
+    }));
+
+    expect(updates[0].message?.text).toBe("hello there");
+    expect(updates[0].from.id).toBe(USER_ID);
+    expect(updates[1].message?.document).toMatchObject({ fileId: file, fileName: "notes.txt", size: 5 });
+    expect(updates[1].message?.caption).toBe("read this");
+    expect(updates[2].action).toMatchObject({ data: "choice:yes", messageText: "Pick one" });
+  });
+
+  it("prints messages as plain text with numbered buttons", async () => {
+    const printed = await runTerminal([], (messenger) => ({
+      start: async () => {
+        const id = await messenger.send(USER_ID, "<b>Bold</b> &amp; done", {
+          format: "html",
+          keyboard: new Keyboard().text("Allow", "a").text("Deny", "d"),
+        });
+        await messenger.edit(USER_ID, id, "<b>Bold</b> &amp; done", { format: "html" });
+        await messenger.edit(USER_ID, id, "Changed");
+        await messenger.start(async () => {});
+      },
+    }));
+    expect(printed).toContain("[1] Bold & done\n    #1 Allow   #2 Deny\n");
+    // The unchanged edit prints nothing
+    expect(printed.match(/Bold & done/g)).toHaveLength(1);
+    expect(printed).toContain("[1] ✎ Changed");
+  });
+
+  it("saves sent file contents to the download folder", async () => {
+    const printed = await runTerminal([], (messenger) => ({
+      start: async () => {
+        await messenger.sendFile(USER_ID, { data: Buffer.from("diff"), filename: "changes.diff" }, { caption: "All" });
+        await messenger.start(async () => {});
+      },
+    }));
+    expect(printed).toContain("📎");
+    expect(printed).toContain("- All");
+  });
+});
+
+describe("createBot over the terminal", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("runs commands and buttons offline", async () => {
+    const printed = await runTerminal(["/status", "/permissions", "#2", "/mode full"], (messenger) =>
+      createBot({ allowedUserId: USER_ID, projectRoot: os.tmpdir(), permissionMode: "default" }, messenger)
+    );
+    expect(printed).toContain(`Project: ${os.tmpdir()}`);
+    expect(printed).toContain("Tool permissions");
+    expect(printed).toContain("↳ Auto-accept edits, ask for the rest");
+    expect(printed).toContain("✓ Auto-accept edits, ask for the rest");
+    expect(printed).toContain("Display mode: full");
+  });
+
+  it("schedules, lists and removes jobs", async () => {
+    const printed = await runTerminal(
+      ["/schedule every weekday at 8:00: run the tests", "/schedules", "#1", "/schedule whenever: x"],
+      (messenger) => createBot({ allowedUserId: USER_ID, projectRoot: os.tmpdir() }, messenger)
+    );
+    expect(printed).toContain("⏰ Scheduled #1: every weekday at 8:00");
+    expect(printed).toContain("run the tests");
+    expect(printed).toContain("🗑 #1");
+    expect(printed).toContain("↳ 🗑 Removed scheduled job #1 (every weekday at 8:00).");
+    expect(printed).toContain("No scheduled jobs.");
+    expect(printed).toContain("Usage: /schedule");
+  });
+
+  it("saves macros and adds them to the commands menu", async () => {
+    let saved: unknown[] = [];
+    let commands: string[] = [];
+    const printed = await runTerminal(
+      ["/macro add tests write tests for {file}", "/macros", "/m tests", "/macro add status x", "/macro add Bad-name x"],
+      (messenger) => {
+        const bot = createBot(
+          {
+            allowedUserId: USER_ID,
+            projectRoot: os.tmpdir(),
+            commands: [{ command: "start", description: "Welcome & help" }],
+            onMacrosChange: (macros) => {
+              saved = macros;
+              commands = bot.commands().map((c) => c.command);
+              return true;
+            },
+          },
+          messenger
+        );
+        return bot;
+      }
+    );
+    expect(printed).toContain("Saved /tests. Run it with /m tests <file>");
+    expect(printed).toContain("▶ tests");
+    expect(printed).toContain("❌ Missing <file>. Usage: /m tests <file>");
+    expect(printed).toContain("❌ /status is a built-in command.");
+    expect(printed).toContain("❌ Macro names are 1-32 lowercase letters");
+    expect(saved).toEqual([{ name: "tests", template: "write tests for {file}" }]);
+    expect(commands).toEqual(["start", "tests"]);
+  });
+
+  it("picks projects from the roots and checks /cd targets", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-roots-"));
+    try {
+      fs.mkdirSync(path.join(root, "api", ".git"), { recursive: true });
+      fs.mkdirSync(path.join(root, "web"));
+      fs.writeFileSync(path.join(root, "web", "package.json"), "{}");
+      const printed = await runTerminal(["/projects we", "#1", "/status", "/cd nope"], (messenger) =>
+        createBot({ allowedUserId: USER_ID, projectRoot: root }, messenger)
+      );
+      expect(printed).toContain("📂 Projects");
+      expect(printed).not.toContain(path.join(root, "api"));
+      expect(printed).toContain(`📂 Switched to web`);
+      expect(printed).toContain(`Project: ${path.join(root, "web")}`);
+      expect(printed).toContain(`❌ Not a directory: ${path.join(root, "web", "nope")}`);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps /get inside a developer's projects through symlinks", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-get-"));
+    try {
+      fs.writeFileSync(path.join(root, "notes.txt"), "hi");
+      fs.symlinkSync("/etc", path.join(root, "x"));
+      const printed = await runTerminal(["/get notes.txt", "/get x/hostname"], (messenger) =>
+        createBot({ users: [{ id: USER_ID, role: "developer", projects: [root] }], projectRoot: root }, messenger)
+      );
+      const sent = printed.match(/📎 (\S+notes\.txt)/)![1];
+      fs.rmSync(sent, { force: true });
+      expect(printed).toContain(`⛔ ${path.join(root, "x", "hostname")} is outside your assigned projects.`);
+      expect(printed).not.toContain("hostname -");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses /undo and /rollback to viewers", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-undo-"));
+    try {
+      const printed = await runTerminal(["/undo", "/rollback 1"], (messenger) =>
+        createBot({ users: [{ id: USER_ID, role: "viewer", projects: [root] }], projectRoot: root }, messenger)
+      );
+      expect(printed.match(/⛔ Requires the developer role\./g)).toHaveLength(2);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("confirms destructive shell commands and records them", async () => {
+    const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-audit-"));
+    try {
+      const printed = await runTerminal(["!rm -rf build", "#2", "!rm -rf /", "!cd sub/..", "/audit shell"], (messenger) =>
+        createBot({ allowedUserId: USER_ID, projectRoot: configDir, configDir }, messenger)
+      );
+      expect(printed).toContain("⚠️ rm -rf build looks destructive (rm -rf).");
+      expect(printed).toContain("Cancelled.");
+      expect(printed).toContain("⛔ Not running rm -rf /: rm -rf / is blocked.");
+      const entries = fs
+        .readFileSync(path.join(configDir, "audit.jsonl"), "utf-8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(entries.filter((entry) => entry.type === "shell")).toMatchObject([
+        { type: "shell", userId: USER_ID, command: "rm -rf build", outcome: "cancelled", matched: "rm -rf" },
+        { type: "shell", userId: USER_ID, command: "rm -rf /", outcome: "denied" },
+        { type: "shell", userId: USER_ID, command: "cd sub/..", outcome: "ran", cwd: configDir },
+      ]);
+      expect(entries[0]).toMatchObject({ type: "message", kind: "text", text: "!rm -rf build", cwd: configDir });
+      expect(printed).toContain("🧾 Audit log · 3 entries");
+      expect(printed).toContain("denied: rm -rf /");
+    } finally {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    }
+  });
+
+  it("exports a past session as a document, also for viewers", async () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-export-"));
+    const previousHome = process.env.HOME;
+    process.env.HOME = home;
+    try {
+      const sessionDir = claudeProjectDir(home, home);
+      fs.mkdirSync(sessionDir, { recursive: true });
+      const lines = [
+        { type: "user", message: { content: "Fix the login bug" } },
+        { type: "assistant", message: { content: [{ type: "text", text: "Fixed." }] } },
+      ];
+      fs.writeFileSync(path.join(sessionDir, "abc123.jsonl"), lines.map((l) => JSON.stringify(l)).join("\n"));
+
+      const printed = await runTerminal(["/export md", "#1", "/export pdf"], (messenger) =>
+        createBot({ allowedUserId: USER_ID, projectRoot: home }, messenger)
+      );
+      expect(printed).toContain("Export a session");
+      expect(printed).toContain("Fix the login bug");
+      expect(printed).toContain("Usage: /export [html|md] [past]");
+      const file = printed.match(/📎 (\S+session-\S+-abc123\.md) - 📄 Fix the login bug · 1 prompt/)![1];
+      try {
+        expect(fs.readFileSync(file, "utf-8")).toContain("# Fix the login bug\n");
+      } finally {
+        fs.rmSync(file, { force: true });
+      }
+
+      // Viewers read transcripts but can't resume them
+      const viewed = await runTerminal(["/sessions", "/export html", "#1", "/new"], (messenger) =>
+        createBot({ users: [{ id: USER_ID, role: "viewer" }], projectRoot: home }, messenger)
+      );
+      expect(viewed).toContain("Sessions");
+      expect(viewed).not.toContain("▶️ 1");
+      const html = viewed.match(/📎 (\S+session-\S+-abc123\.html)/)![1];
+      fs.rmSync(html, { force: true });
+      expect(viewed).toContain("⛔ Requires the developer role.");
+    } finally {
+      process.env.HOME = previousHome;
+      fs.rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("starts, lists and kills background jobs", async () => {
+    const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-jobs-"));
+    try {
+      const printed = await runTerminal(["!&sleep 30", "/jobs", "/kill", "/tail 9"], (messenger) =>
+        createBot({ allowedUserId: USER_ID, projectRoot: configDir, configDir }, messenger)
+      );
+      expect(printed).toMatch(/🚀 Job #1 started \(PID \d+\)/);
+      expect(printed).toContain("Background jobs");
+      expect(printed).toMatch(/PID \d+ · up \ds · 📁 /);
+      expect(printed).toContain("⏹ Stopping job #1...");
+      expect(printed).toContain("No running job #9. See /jobs.");
+    } finally {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    }
+  });
+
+  it("ignores users outside the allowlist", async () => {
+    const printed = await runTerminal(["/status"], (messenger) =>
+      createBot({ allowedUserId: USER_ID + 1, projectRoot: os.tmpdir() }, messenger)
+    );
+    expect(printed).not.toContain("Status");
+  });
+});
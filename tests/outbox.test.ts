@@ -0,0 +1,151 @@
+// Tests for the outbound Telegram queue
+import { describe, it, expect } from "bun:test";
+import type { Transformer } from "grammy";
+import { Outbox, urgent } from "../src/outbox";
+
+const ok = (result: unknown = true) => ({ ok: true as const, result });
+
+describe("Outbox", () => {
+  it("runs calls for a chat one at a time in order", async () => {
+    const outbox = new Outbox();
+    const log: string[] = [];
+    const call = (name: string, delay: number) => async () => {
+      log.push(`start ${name}`);
+      await Bun.sleep(delay);
+      log.push(`end ${name}`);
+      return ok();
+    };
+    await Promise.all([outbox.enqueue(1, call("a", 10)), outbox.enqueue(1, call("b", 0))]);
+    expect(log).toEqual(["start a", "end a", "start b", "end b"]);
+  });
+
+  it("merges pending calls with the same key, last write wins", async () => {
+    const outbox = new Outbox({ lowIntervalMs: 0 });
+    const sent: string[] = [];
+    const edit = (text: string) => async () => {
+      sent.push(text);
+      return ok(text);
+    };
+    // The first send keeps the chat busy while the edits pile up
+    const first = outbox.enqueue(1, async () => {
+      await Bun.sleep(10);
+      return ok("send");
+    });
+    const a = outbox.enqueue(1, edit("one"), { key: "m1", priority: "low" });
+    const b = outbox.enqueue(1, edit("two"), { key: "m1", priority: "low" });
+    expect(outbox.pending(1)).toBe(1);
+
+    await first;
+    expect(await a).toEqual(ok("two"));
+    expect(await b).toEqual(ok("two"));
+    expect(sent).toEqual(["two"]);
+  });
+
+  it("puts urgent calls ahead of queued traffic, and sends ahead of edits", async () => {
+    const outbox = new Outbox({ lowIntervalMs: 0 });
+    const log: string[] = [];
+    const call = (name: string) => async () => {
+      log.push(name);
+      await Bun.sleep(1);
+      return ok();
+    };
+    const pending = [
+      outbox.enqueue(1, call("busy")),
+      outbox.enqueue(1, call("status"), { key: "status", priority: "low" }),
+      outbox.enqueue(1, call("reply")),
+      urgent(() => outbox.enqueue(1, call("done"))),
+    ];
+    await Promise.all(pending);
+    expect(log).toEqual(["busy", "done", "reply", "status"]);
+  });
+
+  it("throttles low-priority edits", async () => {
+    const outbox = new Outbox({ lowIntervalMs: 50 });
+    const times: number[] = [];
+    const edit = async () => {
+      times.push(Date.now());
+      return ok();
+    };
+    await outbox.enqueue(1, edit, { key: "a", priority: "low" });
+    await outbox.enqueue(1, edit, { key: "a", priority: "low" });
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+  });
+
+  it("keeps chats independent", async () => {
+    const outbox = new Outbox({ lowIntervalMs: 1000 });
+    await outbox.enqueue(1, async () => ok(), { key: "a", priority: "low" });
+    const start = Date.now();
+    await outbox.enqueue(2, async () => ok(), { key: "a", priority: "low" });
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+
+  it("waits for retry_after on 429 and retries", async () => {
+    const outbox = new Outbox();
+    let calls = 0;
+    const start = Date.now();
+    const result = await outbox.enqueue(1, async () => {
+      calls++;
+      return calls === 1
+        ? { ok: false, error_code: 429, description: "Too Many Requests", parameters: { retry_after: 0.05 } }
+        : ok("sent");
+    });
+    expect(result).toEqual(ok("sent"));
+    expect(calls).toBe(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it("gives up after the retry limit", async () => {
+    const outbox = new Outbox({ maxRetries: 1 });
+    const limited = { ok: false, error_code: 429, description: "Too Many Requests", parameters: { retry_after: 0 } };
+    let calls = 0;
+    const result = await outbox.enqueue(1, async () => {
+      calls++;
+      return limited;
+    });
+    expect(result).toEqual(limited);
+    expect(calls).toBe(2);
+  });
+
+  it("rejects when the call throws", async () => {
+    const outbox = new Outbox();
+    await expect(
+      outbox.enqueue(1, async () => {
+        throw new Error("network down");
+      })
+    ).rejects.toThrow("network down");
+    expect(await outbox.enqueue(1, async () => ok("after"))).toEqual(ok("after"));
+  });
+});
+
+describe("Outbox.transformer", () => {
+  type Prev = Parameters<Transformer>[0];
+  type Method = Parameters<Transformer>[1];
+  type Payload = Parameters<Transformer>[2];
+
+  function setup() {
+    const calls: [Method, Record<string, unknown>][] = [];
+    const prev: Prev = async (method, payload) => {
+      calls.push([method, payload]);
+      return ok({ message_id: 1 }) as Awaited<ReturnType<Prev>>;
+    };
+    const transformer = new Outbox({ lowIntervalMs: 0 }).transformer();
+    const call = (method: Method, payload: Payload) => transformer(prev, method, payload);
+    return { calls, call };
+  }
+
+  it("passes calls without a chat straight through", async () => {
+    const { calls, call } = setup();
+    await call("answerCallbackQuery", { callback_query_id: "1" });
+    expect(calls.map(([m]) => m)).toEqual(["answerCallbackQuery"]);
+  });
+
+  it("skips edits that wouldn't change the message", async () => {
+    const { calls, call } = setup();
+    const payload = { chat_id: 1, message_id: 5, text: "💭 Thinking..." };
+    await call("editMessageText", payload);
+    const result = await call("editMessageText", { ...payload });
+    await call("editMessageText", { ...payload, text: "✅ Done" });
+    expect(result.ok).toBe(true);
+    expect(calls.map(([, p]) => p.text)).toEqual(["💭 Thinking...", "✅ Done"]);
+  });
+});
@@ -0,0 +1,99 @@
+// Tests for the long output pager
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PageStore, paginate, searchDocument } from "../src/pager";
+import { escapeHtml } from "../src/render";
+
+describe("paginate", () => {
+  it("keeps short content on one page", () => {
+    expect(paginate("one\ntwo")).toEqual(["one\ntwo"]);
+    expect(paginate("")).toEqual([""]);
+  });
+
+  it("splits at line boundaries without losing lines", () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`);
+    const pages = paginate(lines.join("\n"), 100);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join("\n")).toBe(lines.join("\n"));
+    for (const page of pages) {
+      expect(page.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it("measures pages after escaping", () => {
+    const pages = paginate(Array(40).fill("<<<<<").join("\n"), 100);
+    for (const page of pages) {
+      expect(escapeHtml(page).length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it("cuts lines longer than a page", () => {
+    const pages = paginate("x".repeat(1000), 120);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join("\n").replace(/\n/g, "")).toBe("x".repeat(1000));
+  });
+});
+
+describe("searchDocument", () => {
+  it("finds lines case-insensitively with their line and page", () => {
+    const content = Array.from({ length: 50 }, (_, i) => (i === 42 ? "Error: boom" : `ok ${i}`)).join("\n");
+    const matches = searchDocument(content, "error", 60);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].line).toBe(43);
+    expect(matches[0].text).toBe("Error: boom");
+    expect(paginate(content, 60)[matches[0].page]).toContain("Error: boom");
+  });
+
+  it("returns nothing when there is no match", () => {
+    expect(searchDocument("a\nb", "zzz")).toEqual([]);
+  });
+});
+
+describe("PageStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-pages-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves and loads documents across instances", () => {
+    const doc = new PageStore(dir).save(1, "npm test", "output");
+    expect(doc.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(new PageStore(dir).get(1, doc.id)).toEqual(doc);
+  });
+
+  it("only returns a user's own documents", () => {
+    const store = new PageStore(dir);
+    const doc = store.save(1, "secret", "output");
+    expect(store.get(2, doc.id)).toBeNull();
+    expect(store.latest(2)).toBeNull();
+  });
+
+  it("rejects ids that aren't hex", () => {
+    const store = new PageStore(dir);
+    expect(store.get(1, "../1/x")).toBeNull();
+  });
+
+  it("returns the most recent document", () => {
+    const store = new PageStore(dir);
+    const older = store.save(1, "first", "a");
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(path.join(dir, "1", `${older.id}.json`), past, past);
+    const newer = store.save(1, "second", "b");
+    expect(store.latest(1)?.id).toBe(newer.id);
+  });
+
+  it("keeps at most 50 documents per user", () => {
+    const store = new PageStore(dir);
+    for (let i = 0; i < 55; i++) {
+      store.save(1, `doc ${i}`, "x");
+    }
+    expect(fs.readdirSync(path.join(dir, "1"))).toHaveLength(50);
+  });
+});
@@ -0,0 +1,49 @@
+// Tests for the tool permission bridge
+import { describe, it, expect } from "bun:test";
+import { PermissionBridge } from "../src/permissions";
+
+const bashRequest = { tool: "Bash", input: { command: "rm -rf build" } };
+
+describe("PermissionBridge", () => {
+  it("resolves with the answer", async () => {
+    const bridge = new PermissionBridge();
+    const { id, decision } = bridge.request(bashRequest);
+    expect(bridge.get(id)).toEqual(bashRequest);
+
+    expect(bridge.answer(id, { behavior: "allow" })).toBe(true);
+    expect(await decision).toEqual({ behavior: "allow" });
+    expect(bridge.get(id)).toBeUndefined();
+  });
+
+  it("ignores answers for settled prompts", async () => {
+    const bridge = new PermissionBridge();
+    const { id, decision } = bridge.request(bashRequest);
+    bridge.answer(id, { behavior: "deny", message: "no" });
+    expect(bridge.answer(id, { behavior: "allow" })).toBe(false);
+    expect(await decision).toEqual({ behavior: "deny", message: "no" });
+  });
+
+  it("denies after the timeout", async () => {
+    const bridge = new PermissionBridge();
+    const { decision } = bridge.request(bashRequest, 10);
+    const result = await decision;
+    expect(result.behavior).toBe("deny");
+  });
+
+  it("gives each prompt its own id", () => {
+    const bridge = new PermissionBridge();
+    const first = bridge.request(bashRequest);
+    const second = bridge.request(bashRequest);
+    expect(first.id).not.toBe(second.id);
+    bridge.denyAll("cleanup");
+  });
+
+  it("denyAll settles every pending prompt", async () => {
+    const bridge = new PermissionBridge();
+    const first = bridge.request(bashRequest);
+    const second = bridge.request({ tool: "Write", input: {} });
+    bridge.denyAll("Agent stopped");
+    expect(await first.decision).toEqual({ behavior: "deny", message: "Agent stopped" });
+    expect(await second.decision).toEqual({ behavior: "deny", message: "Agent stopped" });
+  });
+});
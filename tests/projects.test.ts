@@ -0,0 +1,113 @@
+// Tests for project discovery, fuzzy search and per-user project preferences
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  findProjects,
+  fuzzyScore,
+  ProjectStore,
+  searchProjects,
+  sortProjects,
+  type ProjectInfo,
+} from "../src/projects";
+
+const project = (name: string): ProjectInfo => ({ path: `/p/${name}`, name, root: "/p", git: true });
+
+describe("findProjects", () => {
+  let dir: string;
+
+  const make = (relative: string, marker?: string) => {
+    fs.mkdirSync(path.join(dir, relative), { recursive: true });
+    if (marker) fs.writeFileSync(path.join(dir, relative, marker), "");
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-projects-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds git repos and marked projects two levels deep", () => {
+    make("api/.git");
+    make("api/packages/inner", "package.json");
+    make("web", "package.json");
+    make("acme/tool", "Cargo.toml");
+    make("acme/deep/er", "go.mod");
+    make("notes");
+    make(".hidden", "package.json");
+    make("node_modules/dep", "package.json");
+
+    const found = findProjects([dir, path.join(dir, "missing")]);
+    expect(found.map((p) => path.relative(dir, p.path)).sort()).toEqual(["acme/tool", "api", "web"]);
+    expect(found.find((p) => p.name === "api")).toEqual({ path: path.join(dir, "api"), name: "api", root: dir, git: true });
+    expect(found.find((p) => p.name === "web")?.git).toBe(false);
+  });
+
+  it("lists a root that is itself a project", () => {
+    make("app", "pyproject.toml");
+    expect(findProjects([path.join(dir, "app")]).map((p) => p.name)).toEqual(["app"]);
+  });
+
+  it("keeps scanning inside projects for subprojects", () => {
+    make(".git");
+    make("services/auth", "go.mod");
+    make("services/auth/cmd", "Makefile");
+    make("web", "package.json");
+    make("web/e2e", "package.json");
+    const found = findProjects([dir]);
+    expect(found.map((p) => path.relative(dir, p.path)).sort()).toEqual(["", "services/auth", "web", "web/e2e"]);
+  });
+});
+
+describe("fuzzy search", () => {
+  it("matches subsequences, preferring exact, prefix and word-start matches", () => {
+    expect(fuzzyScore("xyz", "api")).toBeNull();
+    expect(fuzzyScore("", "api")).toBe(0);
+    expect(fuzzyScore("api", "api")).toBeGreaterThan(fuzzyScore("api", "api-gateway")!);
+    expect(fuzzyScore("api", "api-gateway")).toBeGreaterThan(fuzzyScore("api", "rapid")!);
+    expect(fuzzyScore("wa", "web-app")).toBeGreaterThan(fuzzyScore("wa", "wildcard")!);
+  });
+
+  it("orders matches by score, keeping the given order for ties", () => {
+    const projects = ["billing-api", "api", "mobile", "api-docs"].map(project);
+    expect(searchProjects(projects, "API").map((p) => p.name)).toEqual(["api", "api-docs", "billing-api"]);
+    expect(searchProjects(projects, "mbl").map((p) => p.name)).toEqual(["mobile"]);
+  });
+});
+
+describe("sortProjects", () => {
+  it("puts pinned projects first, then recently used ones", () => {
+    const projects = ["a", "b", "c", "d"].map(project);
+    const sorted = sortProjects(projects, { pinned: ["/p/d", "/p/c"], recent: { "/p/b": 2, "/p/c": 5 } });
+    expect(sorted.map((p) => p.name)).toEqual(["d", "c", "b", "a"]);
+  });
+});
+
+describe("ProjectStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-project-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps pins and recent use per user across restarts", () => {
+    const file = path.join(dir, "projects.json");
+    const first = new ProjectStore(file);
+    first.touch(1, "/p/a", 100);
+    expect(first.togglePin(1, "/p/b")).toBe(true);
+    expect(first.togglePin(1, "/p/c")).toBe(true);
+    expect(first.togglePin(1, "/p/b")).toBe(false);
+
+    const second = new ProjectStore(file);
+    expect(second.get(1)).toEqual({ pinned: ["/p/c"], recent: { "/p/a": 100 } });
+    expect(second.isPinned(1, "/p/c")).toBe(true);
+    expect(second.get(2)).toEqual({ pinned: [], recent: {} });
+  });
+});
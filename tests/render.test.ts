@@ -0,0 +1,115 @@
+// Tests for rendering agent markdown as Telegram HTML
+import { describe, it, expect } from "bun:test";
+import {
+  renderMarkdown,
+  renderInline,
+  parseBlocks,
+  codeBlock,
+  escapeHtml,
+  htmlToPlainText,
+  TELEGRAM_MESSAGE_LIMIT,
+} from "../src/render";
+
+describe("renderInline", () => {
+  it("escapes HTML", () => {
+    expect(renderInline("a < b && c > d")).toBe("a &lt; b &amp;&amp; c &gt; d");
+  });
+
+  it("renders emphasis", () => {
+    expect(renderInline("**bold** *italic* _also_ ~~gone~~")).toBe(
+      "<b>bold</b> <i>italic</i> <i>also</i> <s>gone</s>"
+    );
+  });
+
+  it("leaves snake_case and lone asterisks alone", () => {
+    expect(renderInline("call get_user_by_id with a * b")).toBe("call get_user_by_id with a * b");
+  });
+
+  it("does not format inside code spans", () => {
+    expect(renderInline("run `rm -rf **/node_modules` <now>")).toBe(
+      "run <code>rm -rf **/node_modules</code> &lt;now&gt;"
+    );
+    expect(renderInline("``a `nested` span``")).toBe("<code>a `nested` span</code>");
+  });
+
+  it("renders safe links only", () => {
+    expect(renderInline("[docs](https://example.com/a_b_c)")).toBe('<a href="https://example.com/a_b_c">docs</a>');
+    expect(renderInline("[x](javascript:alert(1))")).toBe("[x](javascript:alert(1))");
+  });
+});
+
+describe("parseBlocks", () => {
+  it("separates fenced code with its language", () => {
+    expect(parseBlocks("Intro\n```ts\nconst a = 1;\n```\nOutro")).toEqual([
+      { type: "text", text: "Intro" },
+      { type: "code", language: "ts", code: "const a = 1;" },
+      { type: "text", text: "Outro" },
+    ]);
+  });
+
+  it("needs a matching fence to close", () => {
+    const blocks = parseBlocks("````md\n```js\ninner\n```\n````");
+    expect(blocks).toEqual([{ type: "code", language: "md", code: "```js\ninner\n```" }]);
+  });
+
+  it("runs an unclosed fence to the end", () => {
+    expect(parseBlocks("```\nstill code\nmore")).toEqual([{ type: "code", language: "", code: "still code\nmore" }]);
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders headings, lists, quotes and code", () => {
+    const [html] = renderMarkdown("## Plan\n- one\n- two\n\n> note\n\n```py\nprint('<hi>')\n```");
+    expect(html).toBe(
+      "<b>Plan</b>\n• one\n• two\n\n<blockquote>note</blockquote>\n\n" +
+        '<pre><code class="language-py">print(\'&lt;hi&gt;\')</code></pre>'
+    );
+  });
+
+  it("keeps tool output inside its block", () => {
+    // A fence line with an info string can't close a block
+    const [html] = renderMarkdown("```\n$ cat x.md\n```js\n*not bold*\n");
+    expect(html).toBe("<pre>$ cat x.md\n```js\n*not bold*\n</pre>");
+    expect(codeBlock("``` </pre> *x*")).toBe("<pre>``` &lt;/pre&gt; *x*</pre>");
+  });
+
+  it("returns one message for short text", () => {
+    expect(renderMarkdown("hello")).toEqual(["hello"]);
+    expect(renderMarkdown("")).toEqual([]);
+  });
+
+  it("splits long text between paragraphs", () => {
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `${i} ${"word ".repeat(30)}`.trim());
+    const messages = renderMarkdown(paragraphs.join("\n\n"), 400);
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) expect(message.length).toBeLessThanOrEqual(400);
+    expect(messages.join("\n\n")).toBe(paragraphs.join("\n\n"));
+  });
+
+  it("closes and reopens code blocks across messages", () => {
+    const code = Array.from({ length: 200 }, (_, i) => `line ${i}`).join("\n");
+    const messages = renderMarkdown("```ts\n" + code + "\n```", 500);
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(500);
+      expect(message.startsWith('<pre><code class="language-ts">')).toBe(true);
+      expect(message.endsWith("</code></pre>")).toBe(true);
+    }
+    const lines = messages.flatMap((m) => htmlToPlainText(m).split("\n"));
+    expect(lines).toEqual(code.split("\n"));
+  });
+
+  it("cuts a single huge line", () => {
+    const messages = renderMarkdown("x".repeat(10_000));
+    expect(messages.length).toBeGreaterThan(2);
+    for (const message of messages) expect(message.length).toBeLessThanOrEqual(TELEGRAM_MESSAGE_LIMIT);
+    expect(messages.join("")).toBe("x".repeat(10_000));
+  });
+});
+
+describe("escapeHtml / htmlToPlainText", () => {
+  it("round-trips", () => {
+    const text = `<a href="x">&amp;</a>`;
+    expect(htmlToPlainText(escapeHtml(text))).toBe(text);
+  });
+});
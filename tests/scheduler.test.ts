@@ -0,0 +1,222 @@
+// Tests for cron expressions, /schedule parsing and the job scheduler
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { nextCronTime, parseCron } from "../src/cron";
+import {
+  Scheduler,
+  formatRunTime,
+  nextRunTime,
+  parseScheduleRequest,
+  type RunOutcome,
+  type ScheduledJob,
+} from "../src/scheduler";
+
+// Monday 19 Oct 2026, 12:00 local time
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute).getTime();
+
+describe("cron", () => {
+  it("parses ranges, steps, lists and names", () => {
+    const fields = parseCron("*/15 9-17 1,15 jan-mar mon-fri");
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect(fields.hours.size).toBe(9);
+    expect([...fields.days]).toEqual([1, 15]);
+    expect([...fields.months]).toEqual([1, 2, 3]);
+    expect([...fields.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+  });
+
+  it("rejects bad expressions", () => {
+    expect(() => parseCron("0 8 * *")).toThrow("5 fields");
+    expect(() => parseCron("60 8 * * *")).toThrow('Invalid cron field "60"');
+    expect(() => parseCron("0 8 * * fun")).toThrow("Invalid cron field");
+    expect(() => parseCron("*/0 8 * * *")).toThrow("Invalid cron field");
+  });
+
+  it("finds the next matching minute", () => {
+    expect(nextCronTime("0 8 * * 1-5", NOW)).toBe(at(20, 8));
+    expect(nextCronTime("30 12 * * *", NOW)).toBe(at(19, 12, 30));
+    expect(nextCronTime("0 12 * * *", NOW)).toBe(at(20, 12));
+    // Saturday
+    expect(nextCronTime("0 9 * * sat", NOW)).toBe(at(24, 9));
+    expect(nextCronTime("0 0 1 * *", NOW)).toBe(new Date(2026, 10, 1).getTime());
+    expect(nextCronTime("0 0 30 2 *", NOW)).toBeNull();
+  });
+
+  it("matches either day field when both are set", () => {
+    // The 21st (Wednesday) or a Friday, whichever comes first
+    expect(nextCronTime("0 9 21 * fri", NOW)).toBe(at(21, 9));
+    expect(nextCronTime("0 9 21 * fri", at(21, 10))).toBe(at(23, 9));
+  });
+});
+
+describe("parseScheduleRequest", () => {
+  it("reads recurring schedules with a path and prompt", () => {
+    expect(parseScheduleRequest("every weekday at 8:00 in ~/proj/api run the tests and summarize", NOW)).toEqual({
+      schedule: { kind: "cron", expression: "0 8 * * 1,2,3,4,5" },
+      when: "every weekday at 8:00",
+      cwd: "~/proj/api",
+      ifBusy: "queue",
+      prompt: "run the tests and summarize",
+    });
+    expect(parseScheduleRequest("every mon and thu at 5:30pm: standup notes", NOW).schedule).toEqual({
+      kind: "cron",
+      expression: "30 17 * * 1,4",
+    });
+    expect(parseScheduleRequest("every 30m --skip: check CI", NOW)).toMatchObject({
+      schedule: { kind: "interval", everyMs: 30 * 60 * 1000 },
+      ifBusy: "skip",
+      prompt: "check CI",
+    });
+    expect(parseScheduleRequest("hourly ping", NOW).schedule).toEqual({ kind: "interval", everyMs: 3600000 });
+  });
+
+  it("reads cron expressions", () => {
+    expect(parseScheduleRequest("0 8 * * 1-5 in /srv/app: deploy", NOW)).toMatchObject({
+      schedule: { kind: "cron", expression: "0 8 * * 1-5" },
+      cwd: "/srv/app",
+      prompt: "deploy",
+    });
+  });
+
+  it("reads one-off times", () => {
+    expect(parseScheduleRequest("tonight at 23:00: upgrade dependencies on a branch", NOW)).toMatchObject({
+      schedule: { kind: "once", at: at(19, 23) },
+      when: "tonight at 23:00",
+      prompt: "upgrade dependencies on a branch",
+    });
+    expect(parseScheduleRequest("at 9am standup", NOW).schedule).toEqual({ kind: "once", at: at(20, 9) });
+    expect(parseScheduleRequest("tomorrow at 7 pm x", NOW).schedule).toEqual({ kind: "once", at: at(20, 19) });
+    expect(parseScheduleRequest("in 2 hours x", NOW).schedule).toEqual({ kind: "once", at: at(19, 14) });
+    expect(parseScheduleRequest("on 2026-11-01 at 10:00 x", NOW).schedule).toEqual({
+      kind: "once",
+      at: new Date(2026, 10, 1, 10).getTime(),
+    });
+  });
+
+  it("keeps the prompt's formatting", () => {
+    expect(parseScheduleRequest("in 1h -- line one\n  line two", NOW).prompt).toBe("line one\n  line two");
+  });
+
+  it("explains what it couldn't read", () => {
+    expect(() => parseScheduleRequest("whenever: x", NOW)).toThrow("Usage: /schedule");
+    expect(() => parseScheduleRequest("every day do x", NOW)).toThrow('Add a time, e.g. "every day at 9:00"');
+    expect(() => parseScheduleRequest("every day at 25:00 x", NOW)).toThrow('Couldn\'t read the time "25:00"');
+    expect(() => parseScheduleRequest("today at 9:00 x", NOW)).toThrow("already passed");
+    expect(() => parseScheduleRequest("every 30s x", NOW)).toThrow("Couldn't read");
+    expect(() => parseScheduleRequest("every 0m x", NOW)).toThrow("at most once a minute");
+    expect(() => parseScheduleRequest("daily at 8 in proj: x", NOW)).toThrow('Couldn\'t read "in proj"');
+    expect(() => parseScheduleRequest("in 1h", NOW)).toThrow("Add the prompt");
+  });
+});
+
+describe("nextRunTime and formatRunTime", () => {
+  it("computes the next run per kind", () => {
+    expect(nextRunTime({ kind: "interval", everyMs: 60000 }, NOW)).toBe(NOW + 60000);
+    expect(nextRunTime({ kind: "once", at: NOW + 1 }, NOW)).toBe(NOW + 1);
+    expect(nextRunTime({ kind: "once", at: NOW }, NOW)).toBeNull();
+  });
+
+  it("formats run times relative to today", () => {
+    expect(formatRunTime(at(19, 8, 5), NOW)).toBe("today 08:05");
+    expect(formatRunTime(at(20, 23), NOW)).toBe("tomorrow 23:00");
+    expect(formatRunTime(at(23, 9), NOW)).toBe("Fri 23 Oct 09:00");
+  });
+});
+
+describe("Scheduler", () => {
+  let dir: string;
+  let now: number;
+  let outcomes: RunOutcome[];
+  let ran: number[];
+
+  const run = async (job: ScheduledJob) => {
+    ran.push(job.id);
+    return outcomes.shift() || "started";
+  };
+  const request = (when: string) => ({ ...parseScheduleRequest(when, now), cwd: "/p" });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-schedules-"));
+    now = NOW;
+    outcomes = [];
+    ran = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs due jobs and reschedules recurring ones", async () => {
+    const scheduler = new Scheduler(null, run, () => now);
+    const job = scheduler.add(1, 10, request("every 1h: x"));
+    await scheduler.tick();
+    expect(ran).toEqual([]);
+
+    now += 3600 * 1000;
+    await scheduler.tick();
+    expect(ran).toEqual([job.id]);
+    expect(job.lastOutcome).toBe("started");
+    expect(job.nextRunAt).toBe(now + 3600 * 1000);
+  });
+
+  it("drops one-off jobs after they run", async () => {
+    const scheduler = new Scheduler(null, run, () => now);
+    scheduler.add(1, 10, request("in 5m: x"));
+    now += 5 * 60 * 1000;
+    await scheduler.tick();
+    expect(ran).toEqual([1]);
+    expect(scheduler.list()).toEqual([]);
+  });
+
+  it("queues busy jobs until the session is free, or skips them", async () => {
+    const scheduler = new Scheduler(null, run, () => now);
+    const queued = scheduler.add(1, 10, request("in 1m: a"));
+    const skipped = scheduler.add(1, 10, request("every 1m --skip: b"));
+    now += 60 * 1000;
+
+    outcomes = ["busy", "busy"];
+    await scheduler.tick();
+    expect(queued.queued).toBe(true);
+    expect(scheduler.get(queued.id)).toBeDefined();
+    expect(skipped.lastOutcome).toBe("skipped");
+    expect(skipped.nextRunAt).toBe(now + 60 * 1000);
+
+    outcomes = ["started"];
+    await scheduler.tick();
+    expect(ran).toEqual([1, 2, 1]);
+    expect(scheduler.get(queued.id)).toBeUndefined();
+  });
+
+  it("counts a throwing run as failed", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const failing = async (): Promise<RunOutcome> => {
+        throw new Error("boom");
+      };
+      const scheduler = new Scheduler(null, failing, () => now);
+      const job = scheduler.add(1, 10, request("every 1m: x"));
+      now += 60 * 1000;
+      await scheduler.tick();
+      expect(job.lastOutcome).toBe("failed");
+      expect(errorSpy).toHaveBeenCalled();
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it("persists jobs and ids", () => {
+    const file = path.join(dir, "schedules.json");
+    const first = new Scheduler(file, run, () => now);
+    first.add(1, 10, request("every day at 8:00: a"));
+    first.add(2, 20, request("in 1h: b"));
+    first.remove(1);
+
+    const second = new Scheduler(file, run, () => now);
+    expect(second.list().map((job) => job.prompt)).toEqual(["b"]);
+    expect(second.list(1)).toEqual([]);
+    expect(second.add(1, 10, request("in 2h: c")).id).toBe(3);
+  });
+});
@@ -0,0 +1,95 @@
+// Tests for the config schema and migrations
+import { describe, it, expect } from "bun:test";
+import { CONFIG_VERSION, coerceConfigValue, fieldSchema, migrateConfig, validateConfig } from "../src/schema";
+
+describe("validateConfig", () => {
+  it("accepts a full config", () => {
+    const result = validateConfig({
+      version: CONFIG_VERSION,
+      token: "123456:ABC-def_9",
+      allowedUserId: 42,
+      users: [{ id: 7, role: "developer", name: "Sam", projects: ["/p/a"] }],
+      projectRoot: "/p",
+      agent: "aider",
+      streamMode: "full",
+      permissionMode: "acceptEdits",
+      voice: { language: "en", confirm: true },
+      uploads: { maxBytes: 1000 },
+      checkpoints: false,
+      budget: { dailyUsd: 5, warnAt: 0.5 },
+      webhook: { url: "https://bot.example.com/hook", port: 8443, secretToken: "s3cret" },
+    });
+    expect(result).toEqual({ errors: [], warnings: [] });
+  });
+
+  it("names the offending keys", () => {
+    const { errors } = validateConfig({
+      allowedUserId: NaN,
+      token: "nope",
+      streamMode: "verbose",
+      users: [{ id: 1, role: "owner" }, { role: "viewer" }],
+      budget: { warnAt: 2 },
+      webhook: { port: 8080 },
+    });
+    expect(errors).toEqual([
+      { key: "allowedUserId", message: "expected an integer >= 1, got null" },
+      { key: "token", message: 'expected a bot token like 123456789:ABCdef..., got "nope"' },
+      { key: "streamMode", message: 'expected one of compact, full, got "verbose"' },
+      { key: "users[0].role", message: 'expected one of admin, developer, viewer, got "owner"' },
+      { key: "users[1].id", message: "is required" },
+      { key: "budget.warnAt", message: "expected a number from 0 to 1, got 2" },
+      { key: "webhook.url", message: "is required" },
+    ]);
+  });
+
+  it("warns about unknown keys, suggesting a near match", () => {
+    const { errors, warnings } = validateConfig({ Agent: "claude", extra: 1, budget: { daily: 5 } });
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      { key: "Agent", message: 'unknown key (did you mean "agent"?)' },
+      { key: "extra", message: "unknown key, ignored" },
+      { key: "budget.daily", message: "unknown key, ignored" },
+    ]);
+  });
+
+  it("rejects a config that isn't an object", () => {
+    expect(validateConfig([]).errors).toEqual([{ key: "", message: "expected an object, got []" }]);
+  });
+});
+
+describe("coerceConfigValue", () => {
+  it("converts env and flag strings by the key's type", () => {
+    expect(fieldSchema("budget.dailyUsd")?.type).toBe("number");
+    expect(fieldSchema("budget.nope")).toBeUndefined();
+    expect(coerceConfigValue("allowedUserId", "42")).toBe(42);
+    expect(coerceConfigValue("allowedUserId", "42abc")).toBe("42abc");
+    expect(coerceConfigValue("checkpoints", "off")).toBe(false);
+    expect(coerceConfigValue("checkpoints", "yes")).toBe(true);
+    expect(coerceConfigValue("token", "123")).toBe("123");
+  });
+});
+
+describe("migrateConfig", () => {
+  it("upgrades unversioned configs", () => {
+    const raw = { token: "1:a", allowedUserId: " 42 ", projectRoot: "", users: [{ id: "7", role: "viewer" }] };
+    const result = migrateConfig(raw);
+    expect(result).toEqual({
+      config: { version: 1, token: "1:a", allowedUserId: 42, users: [{ id: 7, role: "viewer" }] },
+      from: 0,
+      changed: true,
+    });
+    // The input is left as it was
+    expect(raw.allowedUserId).toBe(" 42 ");
+  });
+
+  it("leaves current configs alone", () => {
+    const config = { version: CONFIG_VERSION, allowedUserId: 1 };
+    expect(migrateConfig(config)).toEqual({ config, from: CONFIG_VERSION, changed: false });
+  });
+
+  it("refuses configs from a newer version", () => {
+    expect(() => migrateConfig({ version: CONFIG_VERSION + 1 })).toThrow("newer than this Vibegram supports");
+    expect(() => migrateConfig({ version: "1" })).toThrow('version: expected an integer >= 0, got "1"');
+    expect(() => migrateConfig("x")).toThrow("must be a JSON object");
+  });
+});
@@ -0,0 +1,98 @@
+// Tests for the guarded `!` shell executor
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { checkCommand, compileShellRules, ShellRun } from "../src/shell";
+
+describe("checkCommand", () => {
+  const rules = compileShellRules();
+
+  it("runs ordinary commands", () => {
+    for (const command of ["ls -la", "git status", "rm notes.txt", "npm run build", "git push origin main"]) {
+      expect(checkCommand(command, rules)).toEqual({ action: "run" });
+    }
+  });
+
+  it("asks before destructive commands", () => {
+    expect(checkCommand("rm -rf build", rules)).toEqual({ action: "confirm", match: "rm -rf" });
+    expect(checkCommand("cd x && git reset --hard HEAD~1", rules)).toEqual({ action: "confirm", match: "git reset --hard" });
+    expect(checkCommand("git push -f origin main", rules).action).toBe("confirm");
+    expect(checkCommand("git push origin main --force-with-lease", rules).action).toBe("confirm");
+    expect(checkCommand("find . -name '*.log' -delete", rules).action).toBe("confirm");
+    expect(checkCommand("psql -c 'DROP TABLE users'", rules).action).toBe("confirm");
+  });
+
+  it("refuses to delete the root or home directory", () => {
+    expect(checkCommand("rm -rf /", rules).action).toBe("deny");
+    expect(checkCommand("sudo rm -rf ~/ ", rules).action).toBe("deny");
+    expect(checkCommand("rm -r -f /*", rules).action).toBe("deny");
+    expect(checkCommand("rm -rf /tmp/x", rules).action).toBe("confirm");
+  });
+
+  it("adds configured patterns to the built-in ones", () => {
+    const custom = compileShellRules({ confirm: ["\\bnpm publish\\b"], deny: ["terraform destroy"] });
+    expect(checkCommand("npm publish", custom)).toEqual({ action: "confirm", match: "npm publish" });
+    expect(checkCommand("terraform destroy -auto-approve", custom).action).toBe("deny");
+    expect(checkCommand("rm -rf dist", custom).action).toBe("confirm");
+    expect(() => compileShellRules({ deny: ["(unclosed"] })).toThrow('Invalid shell pattern "(unclosed"');
+  });
+});
+
+describe("ShellRun", () => {
+  let dir: string;
+  const outputFile = () => path.join(dir, "out", "run.log");
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-shell-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("captures output and the exit code", async () => {
+    const result = await new ShellRun("echo out; echo err >&2; pwd; exit 3", { cwd: dir, outputFile: outputFile() }).done;
+    expect(result).toMatchObject({ exitCode: 3, timedOut: false, killed: false, outputFile: null });
+    expect(result.output).toContain("out\n");
+    expect(result.output).toContain("err\n");
+    expect(result.output).toContain(fs.realpathSync(dir));
+    expect(fs.existsSync(outputFile())).toBe(false);
+  });
+
+  it("keeps large output in a file and the end of it inline", async () => {
+    const result = await new ShellRun("seq 1 2000", { cwd: dir, outputFile: outputFile(), inlineMaxBytes: 100 }).done;
+    expect(result.outputFile).toBe(outputFile());
+    expect(result.outputBytes).toBe(fs.statSync(outputFile()).size);
+    expect(fs.readFileSync(outputFile(), "utf-8").startsWith("1\n2\n")).toBe(true);
+    expect(result.output.length).toBe(100);
+    expect(result.output.endsWith("1999\n2000\n")).toBe(true);
+  });
+
+  it("stops commands that run too long, with their children", async () => {
+    const result = await new ShellRun("sleep 30 & sleep 30; echo never", {
+      cwd: dir,
+      outputFile: outputFile(),
+      timeoutMs: 200,
+    }).done;
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toBe("");
+    expect(result.durationMs).toBeLessThan(5000);
+  });
+
+  it("can be killed", async () => {
+    const run = new ShellRun("sleep 30", { cwd: dir, outputFile: outputFile() });
+    expect(run.running).toBe(true);
+    expect(run.kill()).toBe(true);
+    const result = await run.done;
+    expect(result).toMatchObject({ killed: true, timedOut: false, signal: "SIGTERM" });
+    expect(run.running).toBe(false);
+    expect(run.kill()).toBe(false);
+  });
+
+  it("reports commands that can't start", async () => {
+    const result = await new ShellRun("ls", { cwd: path.join(dir, "missing"), outputFile: outputFile() }).done;
+    expect(result.exitCode).toBeNull();
+    expect(result.error).toContain("ENOENT");
+  });
+});
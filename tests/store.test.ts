@@ -0,0 +1,51 @@
+// Tests for the on-disk session store
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SessionStore, type PersistedSession } from "../src/store";
+
+const session: PersistedSession = {
+  cwd: "/Users/test/project",
+  sessionId: "abc123-def456",
+  agentType: "claude",
+  streamMode: "compact",
+  permissionMode: "bypassPermissions",
+  chatId: 42,
+  statusMsgId: 100,
+  outputMsgId: null,
+  responseMsgId: 102,
+  wasProcessing: false,
+};
+
+describe("SessionStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns nothing when no file exists", () => {
+    const store = new SessionStore(path.join(dir, "sessions.json"));
+    expect(store.load().size).toBe(0);
+  });
+
+  it("round-trips sessions by user id", () => {
+    const store = new SessionStore(path.join(dir, "nested", "sessions.json"));
+    store.save(new Map([[42, session]]));
+
+    const loaded = store.load();
+    expect(loaded.get(42)).toEqual(session);
+  });
+
+  it("ignores a corrupt file", () => {
+    const filePath = path.join(dir, "sessions.json");
+    fs.writeFileSync(filePath, "{not json");
+    const store = new SessionStore(filePath);
+    expect(store.load().size).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+// Tests for voice transcription
+import { describe, it, expect } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CommandTranscriber, WhisperCppTranscriber, createTranscriber, shellQuote } from "../src/transcribe";
+
+describe("shellQuote", () => {
+  it("wraps values in single quotes", () => {
+    expect(shellQuote("/tmp/voice 1.ogg")).toBe("'/tmp/voice 1.ogg'");
+  });
+
+  it("escapes embedded single quotes", () => {
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
+
+describe("CommandTranscriber", () => {
+  const audioPath = path.join(os.tmpdir(), `vibegram voice ${Date.now()}.txt`);
+
+  it("substitutes {input} and returns stdout", async () => {
+    fs.writeFileSync(audioPath, "  run the tests  \n");
+    try {
+      const transcriber = new CommandTranscriber("cat {input}");
+      expect(await transcriber.transcribe(audioPath)).toBe("run the tests");
+    } finally {
+      fs.rmSync(audioPath, { force: true });
+    }
+  });
+
+  it("appends the path when there is no placeholder", async () => {
+    fs.writeFileSync(audioPath, "hello");
+    try {
+      const transcriber = new CommandTranscriber("cat");
+      expect(await transcriber.transcribe(audioPath)).toBe("hello");
+    } finally {
+      fs.rmSync(audioPath, { force: true });
+    }
+  });
+
+  it("rejects when the command fails", async () => {
+    const transcriber = new CommandTranscriber("exit 3");
+    await expect(transcriber.transcribe(audioPath)).rejects.toThrow();
+  });
+});
+
+describe("createTranscriber", () => {
+  it("uses the command when configured", () => {
+    expect(createTranscriber({ command: "cat" })).toBeInstanceOf(CommandTranscriber);
+  });
+
+  it("defaults to whisper.cpp", () => {
+    expect(createTranscriber()).toBeInstanceOf(WhisperCppTranscriber);
+  });
+
+  it("reports a missing whisper model", async () => {
+    const transcriber = new WhisperCppTranscriber({ model: "/nonexistent/model.bin" });
+    await expect(transcriber.transcribe("/tmp/voice.ogg")).rejects.toThrow("Whisper model not found");
+  });
+});
@@ -0,0 +1,156 @@
+// Tests for session transcripts and their Markdown/HTML exports
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  addTimings,
+  readClaudeTranscript,
+  recordEvent,
+  startTurn,
+  transcriptFilename,
+  transcriptToHtml,
+  transcriptToMarkdown,
+  type Transcript,
+} from "../src/transcript";
+
+const START = Date.parse("2026-10-19T12:00:00Z");
+
+function emptyTranscript(): Transcript {
+  return { title: null, cwd: "/p/api", agent: "claude", sessionId: null, turns: [] };
+}
+
+function recorded(): Transcript {
+  const transcript = emptyTranscript();
+  startTurn(transcript, "  run the tests\n", START);
+  recordEvent(transcript, { type: "init", sessionId: "1a2b3c4d-5e6f" });
+  recordEvent(transcript, { type: "tool_use", tool: "Bash", input: { command: "npm test" } });
+  recordEvent(transcript, { type: "tool_use", tool: "Bash", input: { command: "npm run lint" } });
+  recordEvent(transcript, { type: "tool_output", output: "3 passed" });
+  recordEvent(transcript, { type: "tool_output", output: "1 warning", isError: true });
+  recordEvent(transcript, { type: "text", content: "All **3** tests pass." });
+  recordEvent(transcript, { type: "done", durationMs: 45100, costUsd: 0.12 });
+  return transcript;
+}
+
+describe("recordEvent", () => {
+  it("collects a turn's tool calls, outputs, responses, time and cost", () => {
+    const transcript = recorded();
+    expect(transcript.sessionId).toBe("1a2b3c4d-5e6f");
+    expect(transcript.turns).toEqual([
+      {
+        prompt: "run the tests",
+        time: new Date(START).toISOString(),
+        items: [
+          { type: "tool", tool: "Bash", input: { command: "npm test" }, output: "3 passed", isError: undefined },
+          { type: "tool", tool: "Bash", input: { command: "npm run lint" }, output: "1 warning", isError: true },
+          { type: "text", text: "All **3** tests pass." },
+        ],
+        durationMs: 45100,
+        costUsd: 0.12,
+      },
+    ]);
+  });
+});
+
+describe("readClaudeTranscript", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-transcript-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const at = (seconds: number) => new Date(START + seconds * 1000).toISOString();
+
+  it("reads prompts, tool calls with their results and turn durations", () => {
+    const file = path.join(dir, "1a2b3c4d-5e6f.jsonl");
+    const lines = [
+      { type: "user", isMeta: true, timestamp: at(0), message: { content: "<command-name>/clear</command-name>" } },
+      { type: "user", cwd: "/p/api", timestamp: at(1), message: { content: "run the tests" } },
+      {
+        type: "assistant",
+        timestamp: at(3),
+        message: {
+          content: [
+            { type: "thinking", thinking: "..." },
+            { type: "tool_use", id: "t1", name: "Bash", input: { command: "npm test" } },
+          ],
+        },
+      },
+      { type: "assistant", isSidechain: true, timestamp: at(4), message: { content: [{ type: "text", text: "x" }] } },
+      {
+        type: "user",
+        timestamp: at(5),
+        message: {
+          content: [{ type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: "3 passed" }] }],
+        },
+      },
+      { type: "assistant", timestamp: at(8), message: { content: [{ type: "text", text: "All pass." }] } },
+      { type: "user", timestamp: at(60), message: { content: [{ type: "text", text: "thanks" }] } },
+      { type: "assistant", timestamp: at(62), message: { content: [{ type: "text", text: "You're welcome." }] } },
+      { type: "summary", summary: "Test run" },
+    ];
+    fs.writeFileSync(file, lines.map((l) => JSON.stringify(l)).join("\n") + "\nnot json\n");
+
+    const transcript = readClaudeTranscript(file);
+    expect(transcript).toMatchObject({ title: "Test run", cwd: "/p/api", agent: "claude", sessionId: "1a2b3c4d-5e6f" });
+    expect(transcript.turns).toEqual([
+      {
+        prompt: "run the tests",
+        time: at(1),
+        items: [
+          { type: "tool", tool: "Bash", input: { command: "npm test" }, output: "3 passed", isError: false },
+          { type: "text", text: "All pass." },
+        ],
+        durationMs: 7000,
+      },
+      { prompt: "thanks", time: at(60), items: [{ type: "text", text: "You're welcome." }], durationMs: 2000 },
+    ]);
+
+    addTimings(transcript, recorded());
+    expect(transcript.turns[0]).toMatchObject({ durationMs: 45100, costUsd: 0.12 });
+    expect(transcript.turns[1].costUsd).toBeUndefined();
+  });
+});
+
+describe("exports", () => {
+  it("writes Markdown with collapsed outputs and safe fences", () => {
+    const transcript = recorded();
+    recordEvent(transcript, { type: "tool_use", tool: "Read", input: { file_path: "README.md" } });
+    recordEvent(transcript, { type: "tool_output", output: "```js\ncode\n```" });
+    const md = transcriptToMarkdown(transcript);
+
+    expect(md).toStartWith("# run the tests\n\n- Project: /p/api\n- Agent: claude · session 1a2b3c4d-5e6f\n");
+    expect(md).toContain("- 1 prompt · 45.1s · $0.12\n");
+    expect(md).toContain("> run the tests");
+    expect(md).toContain('**🔧 Bash** `npm test`\n\n```json\n{\n  "command": "npm test"\n}\n```');
+    expect(md).toContain("<details>\n<summary>Error output</summary>\n\n```\n1 warning\n```\n\n</details>");
+    expect(md).toContain("````\n```js\ncode\n```\n````");
+    expect(md).toContain("All **3** tests pass.");
+  });
+
+  it("writes a self-contained HTML page", () => {
+    const transcript = recorded();
+    startTurn(transcript, "<script>alert(1)</script>", START + 60000);
+    const html = transcriptToHtml(transcript);
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>run the tests</title>");
+    expect(html).toContain("<h2>1. ");
+    expect(html).toContain("45.1s · $0.12</h2>");
+    expect(html).toContain("<details><summary>Output</summary><pre>3 passed</pre></details>");
+    expect(html).toContain("<b>3</b>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).not.toMatch(/(src|href)="http/);
+  });
+
+  it("names files by date and session", () => {
+    expect(transcriptFilename(recorded(), "html")).toBe("session-2026-10-19-1a2b3c4d.html");
+    expect(transcriptFilename(emptyTranscript(), "md", new Date(START))).toBe("session-2026-10-19.md");
+  });
+});
@@ -0,0 +1,73 @@
+// Tests for document upload helpers
+import { describe, it, expect } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { sanitizeFilename, uniquePath, isPatchFile, isTextFile, buildUploadPrompt } from "../src/uploads";
+
+describe("sanitizeFilename", () => {
+  it("keeps ordinary names", () => {
+    expect(sanitizeFilename("report-2025.csv")).toBe("report-2025.csv");
+  });
+
+  it("drops directories", () => {
+    expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFilename("C:\\Users\\me\\notes.txt")).toBe("notes.txt");
+  });
+
+  it("replaces unsafe characters and leading dots", () => {
+    expect(sanitizeFilename("my file (1).log")).toBe("my_file_1_.log");
+    expect(sanitizeFilename(".bashrc")).toBe("bashrc");
+  });
+
+  it("falls back when nothing is left", () => {
+    expect(sanitizeFilename(undefined)).toBe("upload");
+    expect(sanitizeFilename("...")).toBe("upload");
+  });
+});
+
+describe("uniquePath", () => {
+  it("numbers files that already exist", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-uploads-"));
+    try {
+      expect(uniquePath(dir, "a.txt")).toBe(path.join(dir, "a.txt"));
+      fs.writeFileSync(path.join(dir, "a.txt"), "");
+      fs.writeFileSync(path.join(dir, "a-1.txt"), "");
+      expect(uniquePath(dir, "a.txt")).toBe(path.join(dir, "a-2.txt"));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("file type detection", () => {
+  it("recognizes patches", () => {
+    expect(isPatchFile("fix.patch")).toBe(true);
+    expect(isPatchFile("changes.DIFF")).toBe(true);
+    expect(isPatchFile("notes.txt")).toBe(false);
+  });
+
+  it("recognizes text files by extension or mime type", () => {
+    expect(isTextFile("server.log")).toBe(true);
+    expect(isTextFile("data.bin", "application/json")).toBe(true);
+    expect(isTextFile("archive.zip", "application/zip")).toBe(false);
+  });
+});
+
+describe("buildUploadPrompt", () => {
+  it("cites the saved path with the caption", () => {
+    expect(buildUploadPrompt("/p/app.log", "why does this crash?")).toBe(
+      "why does this crash?\n\n(File saved at /p/app.log)"
+    );
+  });
+
+  it("inlines content in a fence", () => {
+    expect(buildUploadPrompt("/p/a.csv", undefined, "a,b")).toBe(
+      "I uploaded a file. Take a look.\n\nFile /p/a.csv:\n```\na,b\n```"
+    );
+  });
+
+  it("uses a longer fence when content has one", () => {
+    expect(buildUploadPrompt("/p/README.md", "x", "```js\n```")).toContain("````\n```js\n```\n````");
+  });
+});
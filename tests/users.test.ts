@@ -0,0 +1,82 @@
+// Tests for the user allowlist and roles
+import { describe, it, expect } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { UserRegistry, hasRole, canAccessPath, type UserEntry } from "../src/users";
+
+const admin: UserEntry = { id: 1, role: "admin" };
+const developer: UserEntry = { id: 2, role: "developer", projects: ["/srv/api", "/srv/web/"] };
+const viewer: UserEntry = { id: 3, role: "viewer" };
+
+describe("hasRole", () => {
+  it("ranks admin above developer above viewer", () => {
+    expect(hasRole(admin, "developer")).toBe(true);
+    expect(hasRole(developer, "developer")).toBe(true);
+    expect(hasRole(developer, "admin")).toBe(false);
+    expect(hasRole(viewer, "developer")).toBe(false);
+    expect(hasRole(viewer, "viewer")).toBe(true);
+  });
+});
+
+describe("canAccessPath", () => {
+  it("lets admins go anywhere", () => {
+    expect(canAccessPath(admin, "/etc")).toBe(true);
+  });
+
+  it("keeps developers inside their projects", () => {
+    expect(canAccessPath(developer, "/srv/api")).toBe(true);
+    expect(canAccessPath(developer, "/srv/api/src")).toBe(true);
+    expect(canAccessPath(developer, "/srv/web/app")).toBe(true);
+    expect(canAccessPath(developer, "/srv/api-old")).toBe(false);
+    expect(canAccessPath(developer, "/srv")).toBe(false);
+  });
+
+  it("follows symlinks before comparing", () => {
+    const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "vibegram-users-")));
+    try {
+      fs.mkdirSync(path.join(dir, "api", "src"), { recursive: true });
+      fs.symlinkSync("/etc", path.join(dir, "api", "x"));
+      fs.symlinkSync(path.join(dir, "api"), path.join(dir, "link"));
+      const user: UserEntry = { id: 4, role: "developer", projects: [path.join(dir, "link")] };
+      expect(canAccessPath(user, path.join(dir, "api", "src"))).toBe(true);
+      expect(canAccessPath(user, path.join(dir, "api", "src", "new.ts"))).toBe(true);
+      expect(canAccessPath(user, path.join(dir, "api", "x"))).toBe(false);
+      expect(canAccessPath(user, path.join(dir, "api", "x", "passwd"))).toBe(false);
+      expect(canAccessPath(user, path.join(dir, "api", "src", "..", ".."))).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("denies viewers", () => {
+    expect(canAccessPath(viewer, "/srv/api")).toBe(false);
+  });
+});
+
+describe("UserRegistry", () => {
+  it("looks up users by id", () => {
+    const registry = new UserRegistry([admin, viewer]);
+    expect(registry.get(1)).toEqual(admin);
+    expect(registry.get(2)).toBeUndefined();
+    expect(registry.get(undefined)).toBeUndefined();
+  });
+
+  it("reports changes", () => {
+    const saved: UserEntry[][] = [];
+    const registry = new UserRegistry([admin], (users) => saved.push(users));
+
+    registry.set(developer);
+    registry.remove(1);
+    registry.remove(99);
+
+    expect(saved).toEqual([[admin, developer], [developer]]);
+  });
+
+  it("replaces existing entries", () => {
+    const registry = new UserRegistry([viewer]);
+    registry.set({ id: 3, role: "developer" });
+    expect(registry.list()).toEqual([{ id: 3, role: "developer" }]);
+    expect(registry.admins()).toEqual([]);
+  });
+});
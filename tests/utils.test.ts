@@ -1,6 +1,6 @@
 // Unit tests for utility functions
 import { describe, it, expect } from "bun:test";
-import { formatToolUse, stripThinkingTags, truncate, resolvePath } from "../src/utils";
+import { formatToolUse, stripThinkingTags, truncate, resolvePath, formatRelativeTime, getToolFilePath } from "../src/utils";
 import * as fixtures from "./fixtures/events";
 
 describe("formatToolUse", () => {
@@ -60,6 +60,22 @@ describe("formatToolUse", () => {
   });
 });
 
+describe("getToolFilePath", () => {
+  it("returns the file for Write and Edit", () => {
+    expect(getToolFilePath("Write", fixtures.writeToolUse.input)).toBe("/src/new.ts");
+    expect(getToolFilePath("Edit", fixtures.editToolUse.input)).toBe("/src/bot.ts");
+  });
+
+  it("returns the notebook for NotebookEdit", () => {
+    expect(getToolFilePath("NotebookEdit", { notebook_path: "/nb.ipynb" })).toBe("/nb.ipynb");
+  });
+
+  it("ignores tools that don't write files", () => {
+    expect(getToolFilePath("Read", fixtures.readToolUse.input)).toBeNull();
+    expect(getToolFilePath("Bash", fixtures.bashToolUse.input)).toBeNull();
+  });
+});
+
 describe("stripThinkingTags", () => {
   it("removes thinking tags", () => {
     const input = "<thinking>internal thought</thinking>Visible response";
@@ -112,6 +128,24 @@ describe("truncate", () => {
   });
 });
 
+describe("formatRelativeTime", () => {
+  const now = new Date("2025-06-15T12:00:00Z");
+
+  it("shows just now under a minute", () => {
+    expect(formatRelativeTime(new Date("2025-06-15T11:59:30Z"), now)).toBe("just now");
+  });
+
+  it("shows minutes, hours and days", () => {
+    expect(formatRelativeTime(new Date("2025-06-15T11:55:00Z"), now)).toBe("5m ago");
+    expect(formatRelativeTime(new Date("2025-06-15T09:00:00Z"), now)).toBe("3h ago");
+    expect(formatRelativeTime(new Date("2025-06-13T12:00:00Z"), now)).toBe("2d ago");
+  });
+
+  it("falls back to the date for old entries", () => {
+    expect(formatRelativeTime(new Date("2025-01-02T08:00:00Z"), now)).toBe("2025-01-02");
+  });
+});
+
 describe("resolvePath", () => {
   const cwd = "/Users/test/project";
   const home = "/Users/test";
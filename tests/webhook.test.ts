@@ -0,0 +1,82 @@
+// Tests for the webhook HTTP server
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import type * as http from "http";
+import type { AddressInfo } from "net";
+import { createWebhookServer, isValidSecretToken, listen, webhookPath } from "../src/messenger/webhook";
+
+describe("webhookPath", () => {
+  it("defaults to the path of the public URL", () => {
+    expect(webhookPath({ url: "https://bot.example.com/telegram/hook" })).toBe("/telegram/hook");
+    expect(webhookPath({ url: "https://bot.example.com" })).toBe("/");
+  });
+
+  it("prefers an explicit path", () => {
+    expect(webhookPath({ url: "https://bot.example.com/public", path: "internal" })).toBe("/internal");
+  });
+});
+
+describe("isValidSecretToken", () => {
+  it("accepts Telegram's character set", () => {
+    expect(isValidSecretToken("abc_DEF-123")).toBe(true);
+    expect(isValidSecretToken("")).toBe(false);
+    expect(isValidSecretToken("has space")).toBe(false);
+    expect(isValidSecretToken("x".repeat(257))).toBe(false);
+  });
+});
+
+describe("createWebhookServer", () => {
+  let server: http.Server | null = null;
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  async function start(onUpdate: (req: http.IncomingMessage, res: http.ServerResponse) => unknown) {
+    const config = { url: "https://bot.example.com/hook", host: "127.0.0.1", port: 0 };
+    server = createWebhookServer(config, onUpdate);
+    await listen(server, config);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it("answers health checks", async () => {
+    const base = await start(() => {});
+    const res = await fetch(`${base}/healthz`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).status).toBe("ok");
+  });
+
+  it("passes POSTs on the webhook path to the handler", async () => {
+    const bodies: string[] = [];
+    const base = await start(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      bodies.push(body);
+      res.end("ok");
+    });
+    const res = await fetch(`${base}/hook`, { method: "POST", body: '{"update_id":1}' });
+    expect(res.status).toBe(200);
+    expect(bodies).toEqual(['{"update_id":1}']);
+  });
+
+  it("returns 404 for anything else", async () => {
+    let calls = 0;
+    const base = await start(() => calls++);
+    expect((await fetch(`${base}/other`, { method: "POST" })).status).toBe(404);
+    expect((await fetch(`${base}/hook`)).status).toBe(404);
+    expect(calls).toBe(0);
+  });
+
+  it("returns 500 when the handler fails", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const base = await start(async () => {
+        throw new Error("boom");
+      });
+      expect((await fetch(`${base}/hook`, { method: "POST" })).status).toBe(500);
+      expect(errorSpy).toHaveBeenCalled();
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+});